@@ -0,0 +1,266 @@
+import { OPCODES, OperandKind, OperandTag } from '../src/scripting/Opcodes';
+import { SCRIPT_FORMAT_VERSION, ScriptMissionInfo, ScriptProgram } from '../src/scripting/ScriptProgram';
+
+/*
+ * Compiles mission scripts from their text form (*.sc) to the bytecode run by
+ * src/scripting/ScriptVM.ts. The text form, one statement per line:
+ *
+ *   ; comments start with ; or //
+ *   mission heist2                  ; header directives (mission scripts only)
+ *   title "Armoured Car"
+ *   description "Hit the armoured car on its run."
+ *   contact -10 0 40                ; where the player picks the mission up
+ *   reward 4000
+ *   unlocks payback1
+ *   time_limit 300                  ; seconds, optional
+ *
+ *   main:                           ; the main thread starts here
+ *     spawn_vehicle 10 0 5 90 $car  ; x y z heading(degrees) -> global $car
+ *     print_objective "Get in the car"
+ *   wait_for_car:
+ *     wait 250                      ; milliseconds
+ *     is_player_in_vehicle $car
+ *     goto_if_false wait_for_car
+ *     start_thread countdown        ; run another thread concurrently
+ *     mission_passed
+ *
+ * $name is a global variable and @name a thread-local one; both are numbers
+ * and start at 0. See OPCODES in src/scripting/Opcodes.ts for all commands.
+ */
+
+/**
+ * A compile error pointing at the offending line
+ */
+export class ScriptCompileError extends Error {
+  constructor(file: string, line: number, message: string) {
+    super(`${file}:${line}: ${message}`);
+    this.name = 'ScriptCompileError';
+  }
+}
+
+interface Statement {
+  line: number;
+  name: string;
+  operands: string[];
+}
+
+/**
+ * Split a line into tokens, keeping quoted strings together and dropping comments
+ */
+function tokenize(text: string, file: string, line: number): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === ' ' || char === '\t' || char === ',') {
+      i++;
+    } else if (char === ';' || text.startsWith('//', i)) {
+      break;
+    } else if (char === '"') {
+      let value = '"';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) i++;
+        value += text[i];
+        i++;
+      }
+      if (i >= text.length) throw new ScriptCompileError(file, line, 'unterminated string');
+      tokens.push(value);
+      i++;
+    } else {
+      let value = '';
+      while (i < text.length && !/[\s,;"]/.test(text[i]) && !text.startsWith('//', i)) {
+        value += text[i];
+        i++;
+      }
+      tokens.push(value);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Compile a script's source text to a program
+ * @param file Name used in error messages
+ */
+export function compileScript(source: string, file: string): ScriptProgram {
+  const statements: Statement[] = [];
+  const header: Partial<ScriptMissionInfo> = {};
+  const labels: Map<string, number> = new Map();
+  const labelLines: Map<string, number> = new Map();
+
+  // Pass 1: parse lines, read the header and lay out label offsets
+  let offset = 0;
+  source.split(/\r?\n/).forEach((text, index) => {
+    const line = index + 1;
+    const tokens = tokenize(text, file, line);
+    if (tokens.length === 0) return;
+
+    const [name, ...operands] = tokens;
+
+    if (name.endsWith(':')) {
+      const label = name.slice(0, -1);
+      if (operands.length > 0) throw new ScriptCompileError(file, line, 'a label must be on its own line');
+      const definedOn = labelLines.get(label);
+      if (definedOn !== undefined) throw new ScriptCompileError(file, line, `label "${label}" is already defined on line ${definedOn}`);
+      labels.set(label, offset);
+      labelLines.set(label, line);
+      return;
+    }
+
+    if (readHeader(header, name, operands, file, line)) {
+      if (statements.length > 0) throw new ScriptCompileError(file, line, `"${name}" must come before any commands`);
+      return;
+    }
+
+    const info = OPCODES[name];
+    if (!info) throw new ScriptCompileError(file, line, `unknown command "${name}"`);
+    if (operands.length !== info.operands.length) {
+      throw new ScriptCompileError(file, line, `"${name}" takes ${info.operands.length} operand(s), got ${operands.length}`);
+    }
+
+    statements.push({ line, name, operands });
+    offset += 1 + info.operands.length * 2;
+  });
+
+  const entry = labels.get('main');
+  if (entry === undefined) throw new ScriptCompileError(file, 1, 'missing "main:" label');
+
+  // Pass 2: emit bytecode
+  const code: number[] = [];
+  const strings: string[] = [];
+  const globals: string[] = [];
+  const locals: string[] = [];
+
+  const slot = (names: string[], name: string): number => {
+    let index = names.indexOf(name);
+    if (index < 0) {
+      index = names.length;
+      names.push(name);
+    }
+    return index;
+  };
+
+  const emitOperand = (kind: OperandKind, token: string, statement: Statement): void => {
+    const fail = (message: string): never => {
+      throw new ScriptCompileError(file, statement.line, `${statement.name}: ${message}`);
+    };
+
+    if (token.startsWith('$') || token.startsWith('@')) {
+      if (kind !== 'value' && kind !== 'var') fail(`expected a ${kind}, got variable ${token}`);
+      const name = token.slice(1);
+      if (!/^\w+$/.test(name)) fail(`invalid variable name ${token}`);
+      code.push(...(token.startsWith('$')
+        ? [OperandTag.GLOBAL, slot(globals, name)]
+        : [OperandTag.LOCAL, slot(locals, name)]));
+      return;
+    }
+
+    switch (kind) {
+      case 'var':
+        fail(`expected a variable, got ${token}`);
+        break;
+      case 'value': {
+        const value = Number(token);
+        if (token === '' || !Number.isFinite(value)) fail(`expected a number, got ${token}`);
+        code.push(OperandTag.NUMBER, value);
+        break;
+      }
+      case 'string':
+        if (!token.startsWith('"')) fail(`expected a string, got ${token}`);
+        code.push(OperandTag.STRING, slot(strings, token.slice(1)));
+        break;
+      case 'label':
+        code.push(OperandTag.LABEL, labels.get(token) ?? fail(`unknown label "${token}"`));
+        break;
+    }
+  };
+
+  for (const statement of statements) {
+    const info = OPCODES[statement.name];
+    code.push(info.opcode);
+    info.operands.forEach((kind, i) => emitOperand(kind, statement.operands[i], statement));
+  }
+
+  return {
+    format: 'minigta3-scm',
+    version: SCRIPT_FORMAT_VERSION,
+    mission: finishHeader(header, file),
+    strings,
+    globals,
+    localCount: locals.length,
+    entry,
+    code
+  };
+}
+
+/**
+ * Read a header directive into the mission info
+ * @returns Whether the statement was a header directive
+ */
+function readHeader(header: Partial<ScriptMissionInfo>, name: string, operands: string[], file: string, line: number): boolean {
+  const string = (): string => {
+    if (operands.length !== 1 || !operands[0].startsWith('"')) throw new ScriptCompileError(file, line, `${name} takes one string`);
+    return operands[0].slice(1);
+  };
+  const numbers = (count: number): number[] => {
+    const values = operands.map(Number);
+    if (values.length !== count || values.some(n => !Number.isFinite(n))) {
+      throw new ScriptCompileError(file, line, `${name} takes ${count} number(s)`);
+    }
+    return values;
+  };
+
+  switch (name) {
+    case 'mission':
+      if (operands.length !== 1 || !/^\w+$/.test(operands[0])) throw new ScriptCompileError(file, line, 'mission takes an id');
+      header.id = operands[0];
+      return true;
+    case 'title':
+      header.title = string();
+      return true;
+    case 'description':
+      header.description = string();
+      return true;
+    case 'contact': {
+      const [x, y, z] = numbers(3);
+      header.contact = [x, y, z];
+      return true;
+    }
+    case 'reward':
+      header.reward = numbers(1)[0];
+      return true;
+    case 'unlocks':
+      header.unlocks = operands;
+      return true;
+    case 'time_limit':
+      header.timeLimit = numbers(1)[0];
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Complete the mission header, or return null for scripts without one
+ */
+function finishHeader(header: Partial<ScriptMissionInfo>, file: string): ScriptMissionInfo | null {
+  if (Object.keys(header).length === 0) return null;
+
+  if (!header.id || header.title === undefined || header.description === undefined || !header.contact) {
+    throw new ScriptCompileError(file, 1, 'mission scripts need mission, title, description and contact');
+  }
+
+  return {
+    id: header.id,
+    title: header.title,
+    description: header.description,
+    contact: header.contact,
+    reward: header.reward ?? 0,
+    unlocks: header.unlocks ?? [],
+    timeLimit: header.timeLimit ?? 0
+  };
+}
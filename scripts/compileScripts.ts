@@ -0,0 +1,41 @@
+import { readdirSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { compileScript, ScriptCompileError } from './ScriptCompiler';
+
+// Compiles every scripts/scm/*.sc file to public/assets/scripts/<name>.scm.json
+// and lists them in public/assets/scripts/index.json for the game to load.
+// The output is not checked in; npm runs this before dev and build.
+
+const SOURCE_DIR = 'scripts/scm';
+const OUTPUT_DIR = 'public/assets/scripts';
+
+function main(): void {
+  const sources = readdirSync(SOURCE_DIR).filter(file => file.endsWith('.sc')).sort();
+  mkdirSync(OUTPUT_DIR, { recursive: true });
+
+  const compiled: string[] = [];
+  let failed = false;
+
+  for (const source of sources) {
+    const output = `${basename(source, '.sc')}.scm.json`;
+
+    try {
+      const program = compileScript(readFileSync(join(SOURCE_DIR, source), 'utf8'), source);
+      writeFileSync(join(OUTPUT_DIR, output), `${JSON.stringify(program)}\n`);
+      compiled.push(output);
+      process.stdout.write(`${source} -> ${output} (${program.code.length} words)\n`);
+    } catch (error) {
+      if (!(error instanceof ScriptCompileError)) throw error;
+      console.error(error.message);
+      failed = true;
+    }
+  }
+
+  writeFileSync(join(OUTPUT_DIR, 'index.json'), `${JSON.stringify({ scripts: compiled }, null, 2)}\n`);
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+}
+
+main();
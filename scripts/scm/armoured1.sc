@@ -0,0 +1,69 @@
+; Armoured Car - the first mission written as a script.
+; Compile with `npm run compile-scripts`.
+
+mission armoured1
+title "Armoured Car"
+description "The bank is moving cash across town in an unmarked van. Take it and lose the cops on the way to the lock-up."
+contact -15 0 20
+reward 4000
+time_limit 240
+
+main:
+  spawn_vehicle -30 0 35 90 $van
+  create_marker -30 0 35 $van_marker
+  print_objective "Steal the cash van"
+
+wait_for_van:
+  wait 250
+  is_player_in_vehicle $van
+  goto_if_false wait_for_van
+
+  remove $van_marker
+  set_wanted_level 2
+  start_thread guards_radio_in
+  create_checkpoint 60 0 -30 6 $lockup
+  print_objective "Take the van to the lock-up"
+
+drive_to_lockup:
+  wait 250
+  get_vehicle_health $van @health
+  is_greater @health 0
+  goto_if_false van_destroyed
+  is_vehicle_in_area $van 60 -30 6
+  goto_if_true at_lockup
+  is_player_in_vehicle $van
+  goto_if_true drive_to_lockup
+
+  ; Out of the van: the player has a few seconds to get back in
+  print_objective "Get back in the van"
+  set @timer 0
+
+back_in_van:
+  wait 250
+  add @timer 250
+  is_player_in_vehicle $van
+  goto_if_true back_to_drive
+  is_greater @timer 10000
+  goto_if_false back_in_van
+  mission_failed "You abandoned the van!"
+
+back_to_drive:
+  print_objective "Take the van to the lock-up"
+  goto drive_to_lockup
+
+van_destroyed:
+  mission_failed "The van was destroyed!"
+
+at_lockup:
+  remove $lockup
+  set_wanted_level 0
+  mission_passed
+
+; Runs alongside the main thread: the guards radio in after a random delay
+; and raise the heat
+guards_radio_in:
+  random_int @delay 15000 30000
+  wait @delay
+  set_wanted_level 3
+  print_objective "The guards called it in - get to the lock-up!"
+  end_thread
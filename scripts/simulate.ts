@@ -0,0 +1,95 @@
+import { readFileSync } from 'node:fs';
+import * as THREE from 'three';
+import { HeadlessSimulation } from '../src/HeadlessSimulation';
+import { HandlingManager } from '../src/handling/HandlingManager';
+
+// Runs the delivery mission headlessly with a scripted driver and exits
+// non-zero if it does not complete, so it can gate CI on a plain Linux box.
+
+// Fixed world seed so every run sees the same city and traffic
+const SEED = 1234;
+
+// Drive with the same vehicle handling as the game
+const HANDLING_FILE = 'public/assets/data/handling.cfg';
+
+const PICKUP = new THREE.Vector3(-15, 0, 5);
+const DROP_OFF = new THREE.Vector3(25, 0, -20);
+
+// Hold the on-foot movement keys that walk towards a target (player faces -Z)
+function walkTowards(sim: HeadlessSimulation, target: THREE.Vector3): void {
+  const position = sim.getWorld().getPlayer().getPosition();
+  const keys: string[] = [];
+  if (target.z < position.z - 0.3) keys.push('w');
+  if (target.z > position.z + 0.3) keys.push('s');
+  if (target.x < position.x - 0.3) keys.push('a');
+  if (target.x > position.x + 0.3) keys.push('d');
+  sim.hold(...keys);
+}
+
+// Steer and throttle the player's vehicle towards a target
+function driveTowards(sim: HeadlessSimulation, target: THREE.Vector3): void {
+  const vehicle = sim.getWorld().getPlayer().getCurrentVehicle();
+  if (!vehicle) return;
+
+  const position = vehicle.getPosition();
+  const toTarget = new THREE.Vector3().subVectors(target, position);
+  const distance = Math.sqrt(toTarget.x * toTarget.x + toTarget.z * toTarget.z);
+
+  // Vehicles face -Z at zero rotation
+  const desiredHeading = Math.atan2(-toTarget.x, -toTarget.z);
+  let headingError = desiredHeading - vehicle.getRotation().y;
+  headingError = Math.atan2(Math.sin(headingError), Math.cos(headingError));
+
+  const keys: string[] = [];
+  const targetSpeed = Math.min(20, distance * 0.8);
+  if (vehicle.getCurrentSpeed() < targetSpeed) keys.push('w');
+  if (headingError > 0.05) keys.push('a');
+  if (headingError < -0.05) keys.push('d');
+  sim.hold(...keys);
+}
+
+function main(): void {
+  if (!HandlingManager.getInstance().load(readFileSync(HANDLING_FILE, 'utf8'), HANDLING_FILE)) {
+    throw new Error(`Could not load ${HANDLING_FILE}`);
+  }
+
+  const sim = new HeadlessSimulation({ seed: SEED });
+  const world = sim.getWorld();
+  const player = world.getPlayer();
+  const missions = world.getMissionManager();
+
+  missions.unlockMission('delivery1');
+  if (!missions.startMission('delivery1')) {
+    throw new Error('Could not start delivery1');
+  }
+
+  // Walk to the package
+  const pickedUp = sim.runUntil(
+    () => player.getPosition().distanceTo(PICKUP) < 1.5,
+    30,
+    s => walkTowards(s, PICKUP)
+  );
+  if (!pickedUp) throw new Error('Player never reached the package');
+
+  // Tap E to get into the nearest car
+  sim.hold('e');
+  sim.step();
+  sim.hold();
+  const entered = sim.runUntil(() => player.isInsideVehicle(), 2);
+  if (!entered) throw new Error('Player never entered a vehicle');
+
+  // Drive to the drop-off
+  const delivered = sim.runUntil(
+    () => missions.isMissionCompleted('delivery1') || !missions.isMissionActive(),
+    120,
+    s => driveTowards(s, DROP_OFF)
+  );
+
+  if (!delivered || !missions.isMissionCompleted('delivery1')) {
+    throw new Error(`Delivery failed at t=${sim.getTime().toFixed(2)}s`);
+  }
+
+  process.stdout.write(`delivery1 completed after ${sim.getTime().toFixed(2)} simulated seconds (seed ${SEED})\n`);
+}
+
+main();
@@ -34,9 +34,9 @@ export class CameraController {
   }
   
   public update(): void {
-    // Get player position and rotation
-    const playerPosition = this.player.getPosition();
-    const playerRotation = this.player.getRotation();
+    // Follow the interpolated transform the player is rendered at
+    const playerPosition = this.player.getRenderPosition();
+    const playerRotation = this.player.getRenderRotation();
     
     // Calculate camera target position based on player position and rotation
     this.calculateTargetPosition(playerPosition, playerRotation);
@@ -1,20 +1,74 @@
 import * as THREE from 'three';
+import { RandomStream } from './utils/Random';
+import { OrientedBox } from './physics/OrientedBox';
+import { SpatialHash } from './physics/SpatialHash';
+import { CityGenerator } from './city/CityGenerator';
+import { CityBlock, CityLayout, District } from './city/CityLayout';
+import { RoadNetwork } from './city/RoadNetwork';
+import { SidewalkNetwork } from './city/SidewalkNetwork';
+import { TrafficLights } from './city/TrafficLights';
+
+/**
+ * A wedge to jump vehicles off, rising along its heading
+ */
+interface Ramp {
+  x: number; // Centre of the footprint
+  z: number;
+  heading: number; // Yaw of the uphill direction; 0 rises towards +X
+  length: number;
+  width: number;
+  height: number; // At the lip
+}
 
 export class Environment {
   private ground!: THREE.Mesh; // Initialized in createGround()
   private buildings: THREE.Mesh[] = [];
   private obstacles: THREE.Box3[] = [];
+  private obstacleBoxes: OrientedBox[] = []; // The same obstacles, for contact tests
+  private obstacleGrid: SpatialHash<number> = new SpatialHash(20); // Indices into obstacles, by where they stand
   private groundHeight = 0;
   
-  constructor(private scene: THREE.Scene) {
+  // The city's roads, blocks and buildings
+  private layout: CityLayout;
+  private roadNetwork: RoadNetwork; // Lanes and intersections, for traffic
+  private sidewalkNetwork: SidewalkNetwork; // Sidewalks and crosswalks, for pedestrians
+  private trafficLights: TrafficLights; // Signals at the intersections
+  private blockGrid: SpatialHash<CityBlock> = new SpatialHash(80); // Blocks, by where they stand
+  
+  // Jump ramps on the roads, away from the mission area, in the lanes whose traffic drives up them
+  private ramps: Ramp[] = [];
+  private rampWalls: THREE.Box3[] = []; // The steep back of each ramp
+  private rampLayout: Ramp[] = [
+    { x: 120, z: 3.5, heading: 0, length: 8, width: 5, height: 1.5 },
+    { x: 3.5, z: -120, heading: Math.PI / 2, length: 8, width: 5, height: 1.5 }
+  ];
+  
+  constructor(
+    private scene: THREE.Scene,
+    private random: RandomStream // 'world' stream, so the city layout follows the seed
+  ) {
+    // Lay out the city
+    this.layout = new CityGenerator(this.random).generate(this.groundHeight);
+    this.roadNetwork = new RoadNetwork(this.layout);
+    this.sidewalkNetwork = new SidewalkNetwork(this.layout);
+    
     // Create ground
     this.createGround();
     
+    // Create the blocks and their sidewalks
+    this.createBlocks();
+    
     // Create buildings
     this.createBuildings();
     
     // Create roads
     this.createRoads();
+    
+    // Create jump ramps
+    this.createRamps();
+    
+    // Put up traffic lights at the intersections
+    this.trafficLights = new TrafficLights(this.scene, this.roadNetwork, this.layout, this.random);
   }
   
   private createGround(): void {
@@ -34,34 +88,57 @@ export class Environment {
     this.scene.add(this.ground);
   }
   
-  private createBuildings(): void {
-    // Create a simple grid of buildings
-    const buildingCount = 20;
-    const gridSize = 1000;
-    
-    for (let i = 0; i < buildingCount; i++) {
-      // Randomize building properties
-      const width = 5 + Math.random() * 10;
-      const height = 10 + Math.random() * 30;
-      const depth = 5 + Math.random() * 10;
+  private createBlocks(): void {
+    const sidewalkMaterial = new THREE.MeshStandardMaterial({ 
+      color: 0x9a9a94, // Concrete
+      roughness: 0.9,
+      metalness: 0.1
+    });
+    const grassMaterial = new THREE.MeshStandardMaterial({ 
+      color: 0x2e7d32,
+      roughness: 0.9,
+      metalness: 0.0
+    });
+    
+    for (const block of this.layout.blocks) {
+      const size = block.bounds.getSize(new THREE.Vector3());
+      const center = block.bounds.getCenter(new THREE.Vector3());
       
-      // Randomize position within grid
-      const x = (Math.random() * gridSize) - (gridSize / 2);
-      const z = (Math.random() * gridSize) - (gridSize / 2);
+      // A slab raised to curb height; its edge is the curb
+      const slab = new THREE.Mesh(new THREE.BoxGeometry(size.x, size.y, size.z), sidewalkMaterial);
+      slab.position.copy(center);
+      slab.receiveShadow = true;
+      this.scene.add(slab);
       
-      // Skip buildings too close to center (player spawn area)
-      if (Math.abs(x) < 10 && Math.abs(z) < 10) continue;
+      // Parks are grassed inside the sidewalk
+      if (block.park) {
+        const inset = this.layout.sidewalkWidth * 2;
+        const lawn = new THREE.Mesh(new THREE.PlaneGeometry(size.x - inset, size.z - inset), grassMaterial);
+        lawn.rotation.x = -Math.PI / 2;
+        lawn.position.set(center.x, block.bounds.max.y + 0.01, center.z);
+        lawn.receiveShadow = true;
+        this.scene.add(lawn);
+      }
       
-      // Create building mesh
-      const buildingGeometry = new THREE.BoxGeometry(width, height, depth);
-      const buildingMaterial = new THREE.MeshStandardMaterial({ 
-        color: 0x808080 + Math.random() * 0x7F7F7F, // Random gray-ish color
+      this.blockGrid.insert(block, block.bounds);
+    }
+  }
+  
+  private createBuildings(): void {
+    // A handful of shared facades, so the city doesn't need a material per building
+    const buildingMaterials = [0x8d8d8d, 0xa39e93, 0x7b8794, 0xb5a48a, 0x6e6259, 0x9fa8ad].map(color =>
+      new THREE.MeshStandardMaterial({ 
+        color,
         roughness: 0.7,
         metalness: 0.2
-      });
-      
-      const building = new THREE.Mesh(buildingGeometry, buildingMaterial);
-      building.position.set(x, this.groundHeight + height / 2, z);
+      })
+    );
+    
+    for (const lot of this.layout.buildings) {
+      // Create building mesh
+      const buildingGeometry = new THREE.BoxGeometry(lot.width, lot.height, lot.depth);
+      const building = new THREE.Mesh(buildingGeometry, this.random.pick(buildingMaterials));
+      building.position.set(lot.center.x, lot.center.y + lot.height / 2, lot.center.z);
       building.castShadow = true;
       building.receiveShadow = true;
       
@@ -70,15 +147,14 @@ export class Environment {
       this.buildings.push(building);
       
       // Create collision box
-      const collider = new THREE.Box3().setFromObject(building);
-      this.obstacles.push(collider);
+      this.addObstacle(new THREE.Box3().setFromObject(building));
     }
   }
   
   private createRoads(): void {
-    // Create a simple cross-shaped road
-    const roadLength = 1000;
-    const roadWidth = 50; // Width of the road
+    // One sheet of asphalt under the whole grid; the blocks stand on it
+    const size = this.layout.bounds.getSize(new THREE.Vector3());
+    const center = this.layout.bounds.getCenter(new THREE.Vector3());
     
     // Road material
     const roadMaterial = new THREE.MeshStandardMaterial({ 
@@ -87,75 +163,243 @@ export class Environment {
       metalness: 0.1
     });
     
-    // East-West road
-    const eastWestGeometry = new THREE.PlaneGeometry(roadLength, roadWidth);
-    const eastWestRoad = new THREE.Mesh(eastWestGeometry, roadMaterial);
-    eastWestRoad.rotation.x = -Math.PI / 2;
-    eastWestRoad.position.y = this.groundHeight + 0.01; // Slightly above ground to prevent z-fighting
-    eastWestRoad.position.z = 0;
-    eastWestRoad.receiveShadow = true;
-    
-    // North-South road
-    const northSouthGeometry = new THREE.PlaneGeometry(roadWidth, roadLength);
-    const northSouthRoad = new THREE.Mesh(northSouthGeometry, roadMaterial);
-    northSouthRoad.rotation.x = -Math.PI / 2;
-    northSouthRoad.position.y = this.groundHeight + 0.01; // Slightly above ground to prevent z-fighting
-    northSouthRoad.position.x = 0;
-    northSouthRoad.receiveShadow = true;
-    
-    // Add roads to scene
-    this.scene.add(eastWestRoad);
-    this.scene.add(northSouthRoad);
+    const road = new THREE.Mesh(new THREE.PlaneGeometry(size.x, size.z), roadMaterial);
+    road.rotation.x = -Math.PI / 2;
+    road.position.set(center.x, this.groundHeight + 0.01, center.z); // Slightly above ground to prevent z-fighting
+    road.receiveShadow = true;
+    this.scene.add(road);
     
     // Add road markings
-    this.addRoadMarkings(roadLength, roadWidth);
+    this.addRoadMarkings();
   }
   
-  private addRoadMarkings(roadLength: number, _roadWidth: number): void {
-    // Create dashed line for road center
+  private addRoadMarkings(): void {
+    // Dashed centre lines between the intersections, drawn as one instanced mesh
     const markingMaterial = new THREE.MeshStandardMaterial({ color: 0xFFFFFF });
-    
-    // East-West road markings
     const dashLength = 2;
     const dashGap = 2;
     const dashWidth = 0.5;
     
-    for (let x = -roadLength / 2; x < roadLength / 2; x += dashLength + dashGap) {
-      const dashGeometry = new THREE.PlaneGeometry(dashLength, dashWidth);
-      const dash = new THREE.Mesh(dashGeometry, markingMaterial);
-      dash.rotation.x = -Math.PI / 2;
-      dash.position.set(x + dashLength / 2, this.groundHeight + 0.02, 0);
-      this.scene.add(dash);
+    const dashes: THREE.Matrix4[] = [];
+    for (const edge of this.layout.edges) {
+      const from = this.layout.nodes[edge.from].position;
+      const to = this.layout.nodes[edge.to].position;
+      const direction = new THREE.Vector3().subVectors(to, from);
+      const length = direction.length();
+      direction.divideScalar(length);
+      const rotation = new THREE.Quaternion().setFromEuler(new THREE.Euler(-Math.PI / 2, 0, Math.atan2(-direction.z, direction.x), 'YXZ'));
+      
+      // Stop short of the junctions and their crosswalks at either end
+      const setback = edge.width / 2 + this.roadNetwork.getCrosswalkWidth();
+      for (let along = setback; along + dashLength <= length - setback; along += dashLength + dashGap) {
+        const position = from.clone().addScaledVector(direction, along + dashLength / 2).setY(this.groundHeight + 0.02);
+        dashes.push(new THREE.Matrix4().compose(position, rotation, new THREE.Vector3(1, 1, 1)));
+      }
     }
     
-    // North-South road markings
-    for (let z = -roadLength / 2; z < roadLength / 2; z += dashLength + dashGap) {
-      const dashGeometry = new THREE.PlaneGeometry(dashWidth, dashLength);
-      const dash = new THREE.Mesh(dashGeometry, markingMaterial);
-      dash.rotation.x = -Math.PI / 2;
-      dash.position.set(0, this.groundHeight + 0.02, z + dashLength / 2);
-      this.scene.add(dash);
+    const markings = new THREE.InstancedMesh(new THREE.PlaneGeometry(dashLength, dashWidth), markingMaterial, dashes.length);
+    dashes.forEach((matrix, i) => markings.setMatrixAt(i, matrix));
+    this.scene.add(markings);
+  }
+  
+  private createRamps(): void {
+    const rampMaterial = new THREE.MeshStandardMaterial({ 
+      color: 0x8b6b3d, // Weathered wood
+      roughness: 0.9,
+      metalness: 0.1
+    });
+    
+    for (const ramp of this.rampLayout) {
+      // Skip ramps that would run into a building
+      const footprint = new THREE.Box3(
+        new THREE.Vector3(ramp.x - ramp.length / 2, this.groundHeight, ramp.z - ramp.length / 2),
+        new THREE.Vector3(ramp.x + ramp.length / 2, this.groundHeight + ramp.height, ramp.z + ramp.length / 2)
+      );
+      if (this.obstacles.some(obstacle => obstacle.intersectsBox(footprint))) continue;
+      
+      // Wedge: a right triangle in the vertical plane, extruded across the ramp's width
+      const profile = new THREE.Shape();
+      profile.moveTo(-ramp.length / 2, 0);
+      profile.lineTo(ramp.length / 2, 0);
+      profile.lineTo(ramp.length / 2, ramp.height);
+      profile.closePath();
+      const rampGeometry = new THREE.ExtrudeGeometry(profile, { depth: ramp.width, bevelEnabled: false });
+      rampGeometry.translate(0, 0, -ramp.width / 2);
+      
+      const mesh = new THREE.Mesh(rampGeometry, rampMaterial);
+      mesh.position.set(ramp.x, this.groundHeight, ramp.z);
+      mesh.rotation.y = ramp.heading;
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+      this.scene.add(mesh);
+      this.ramps.push(ramp);
+      
+      // Driving into the back of a ramp is like hitting a wall; it stops well short
+      // of the lip so the nose of a vehicle going up the ramp doesn't catch on it
+      const uphill = new THREE.Vector3(Math.cos(ramp.heading), 0, -Math.sin(ramp.heading));
+      const across = new THREE.Vector3(-uphill.z, 0, uphill.x);
+      const back = new THREE.Vector3(ramp.x, this.groundHeight, ramp.z).addScaledVector(uphill, ramp.length / 2 - 0.15);
+      const wall = new THREE.Box3().setFromPoints([
+        back.clone().addScaledVector(uphill, -0.15).addScaledVector(across, -ramp.width / 2),
+        back.clone().addScaledVector(uphill, 0.15).addScaledVector(across, ramp.width / 2).setY(this.groundHeight + ramp.height * 0.4)
+      ]);
+      this.rampWalls.push(wall);
+      this.addObstacle(wall);
     }
   }
   
   // Public methods for interacting with the environment
   
-  public getGroundHeight(_x: number, _z: number): number {
-    // For a flat terrain, just return the ground height
-    // This could be extended to support terrain with varying heights
-    return this.groundHeight;
+  public getGroundHeight(x: number, z: number): number {
+    // Flat roads, the blocks raised to curb height, and the ramps
+    let height = this.blockGrid.queryRadius(new THREE.Vector3(x, 0, z), 0).length > 0
+      ? this.groundHeight + this.layout.curbHeight
+      : this.groundHeight;
+    for (const ramp of this.ramps) {
+      const dx = x - ramp.x;
+      const dz = z - ramp.z;
+      const cos = Math.cos(ramp.heading);
+      const sin = Math.sin(ramp.heading);
+      const along = dx * cos - dz * sin; // Uphill from the centre
+      const across = dx * sin + dz * cos;
+      if (Math.abs(along) <= ramp.length / 2 && Math.abs(across) <= ramp.width / 2) {
+        height = Math.max(height, this.groundHeight + ramp.height * (along / ramp.length + 0.5));
+      }
+    }
+    return height;
+  }
+  
+  /**
+   * The district of the block a position is on, or of the nearest block across the road
+   */
+  public getDistrictAt(position: THREE.Vector3): District {
+    let district = District.DOWNTOWN;
+    let nearest = Infinity;
+    for (const block of this.blockGrid.queryRadius(position, this.layout.roadWidth)) {
+      const distance = block.bounds.distanceToPoint(position.clone().setY(block.bounds.min.y));
+      if (distance < nearest) {
+        nearest = distance;
+        district = block.district;
+      }
+    }
+    return district;
+  }
+  
+  /**
+   * The city's road graph, blocks, sidewalks and buildings
+   */
+  public getCityLayout(): CityLayout {
+    return this.layout;
+  }
+  
+  /**
+   * The lanes and intersections traffic drives along
+   */
+  public getRoadNetwork(): RoadNetwork {
+    return this.roadNetwork;
+  }
+  
+  /**
+   * The sidewalks and crosswalks pedestrians walk along
+   */
+  public getSidewalkNetwork(): SidewalkNetwork {
+    return this.sidewalkNetwork;
+  }
+  
+  /**
+   * The signals traffic stops for and pedestrians cross by
+   */
+  public getTrafficLights(): TrafficLights {
+    return this.trafficLights;
   }
   
   public getObstacles(): THREE.Box3[] {
     return this.obstacles;
   }
   
+  /**
+   * The obstacles as oriented boxes, in the same order as getObstacles()
+   */
+  public getObstacleBoxes(): OrientedBox[] {
+    return this.obstacleBoxes;
+  }
+  
+  /**
+   * Obstacles whose footprint overlaps a box
+   */
+  public queryObstacles(box: THREE.Box3): THREE.Box3[] {
+    return this.obstacleGrid.queryBox(box).map(index => this.obstacles[index]);
+  }
+  
+  /**
+   * Obstacles whose footprint overlaps a box, as oriented boxes
+   */
+  public queryObstacleBoxes(box: THREE.Box3): OrientedBox[] {
+    return this.obstacleGrid.queryBox(box).map(index => this.obstacleBoxes[index]);
+  }
+  
+  /**
+   * Obstacles whose footprint comes within a distance of a point
+   */
+  public queryObstaclesNear(center: THREE.Vector3, radius: number): THREE.Box3[] {
+    return this.obstacleGrid.queryRadius(center, radius).map(index => this.obstacles[index]);
+  }
+  
+  private addObstacle(box: THREE.Box3): void {
+    this.obstacleGrid.insert(this.obstacles.length, box);
+    this.obstacles.push(box);
+    this.obstacleBoxes.push(OrientedBox.fromBox3(box));
+  }
+  
+  /**
+   * Distance along a ray to the first obstacle it hits
+   * @param margin Grow each obstacle by this much, to keep clear of walls
+   * @returns The distance, or Infinity if nothing is hit within maxDistance
+   */
+  public raycastObstacles(origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number, margin = 0): number {
+    const ray = new THREE.Ray(origin, direction.clone().normalize());
+    const box = new THREE.Box3();
+    const hit = new THREE.Vector3();
+    let nearest = Infinity;
+    
+    // Only the obstacles along the ray, unless it goes on forever
+    const candidates = Number.isFinite(maxDistance)
+      ? this.queryObstacles(new THREE.Box3().setFromPoints([origin, ray.at(maxDistance, new THREE.Vector3())]).expandByScalar(margin))
+      : this.obstacles;
+    
+    for (const obstacle of candidates) {
+      box.copy(obstacle).expandByScalar(margin);
+      
+      // Ignore boxes we start inside, so something already scraping a wall can move away from it
+      if (box.containsPoint(origin)) continue;
+      
+      if (ray.intersectBox(box, hit)) {
+        const distance = origin.distanceTo(hit);
+        if (distance <= maxDistance && distance < nearest) {
+          nearest = distance;
+        }
+      }
+    }
+    
+    return nearest;
+  }
+  
+  /**
+   * Check that no obstacle blocks the straight line between two points
+   */
+  public hasLineOfSight(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const direction = new THREE.Vector3().subVectors(to, from);
+    return this.raycastObstacles(from, direction, direction.length()) === Infinity;
+  }
+  
   public updateObstacles(): void {
     // Update collision boxes for all buildings
     this.obstacles = [];
+    this.obstacleBoxes = [];
+    this.obstacleGrid.clear();
     for (const building of this.buildings) {
-      const collider = new THREE.Box3().setFromObject(building);
-      this.obstacles.push(collider);
+      this.addObstacle(new THREE.Box3().setFromObject(building));
     }
+    this.rampWalls.forEach(wall => this.addObstacle(wall));
   }
 }
\ No newline at end of file
@@ -1,33 +1,67 @@
 import * as THREE from 'three';
 import { Player } from './Player';
 import { CameraController } from './CameraController';
-import { Environment } from './Environment';
 import { InputManager } from './InputManager';
-import { Vehicle } from './Vehicle';
-import { MissionManager } from './missions/MissionManager';
-import { PedestrianManager } from './PedestrianManager';
-import { VehicleManager } from './VehicleManager';
+import { MissionUI } from './missions/MissionUI';
+import { World } from './World';
+import { FixedTimestep } from './utils/FixedTimestep';
+import { RandomService } from './utils/Random';
+import { SaveManager } from './save/SaveManager';
+import { SaveData } from './save/SaveData';
+import { MAX_WANTED_LEVEL } from './police/WantedLevel';
+import { RespawnReason } from './RespawnManager';
+import { HandlingManager } from './handling/HandlingManager';
+import { AudioManager } from './audio/AudioManager';
 
+// Vehicle handling profiles, tuned live in dev builds
+const HANDLING_URL = '/assets/data/handling.cfg';
+
+/**
+ * Game is the browser front end: it owns the renderer, camera, HUD and the
+ * frame loop, and drives the simulated World in fixed steps.
+ */
 export class Game {
   private scene: THREE.Scene;
   private renderer: THREE.WebGLRenderer;
   private clock: THREE.Clock;
+  private timestep: FixedTimestep;
+  private world: World;
   private player: Player;
   private cameraController: CameraController;
-  private environment: Environment;
   private inputManager: InputManager;
-  private vehicles: Vehicle[] = []; // Player-accessible vehicles
   private isRunning = false;
   private uiElement: HTMLElement | null = null;
-  private missionManager: MissionManager;
-  private pedestrianManager: PedestrianManager;
-  private vehicleManager: VehicleManager; // AI traffic vehicles
   private fpsElement: HTMLDivElement | null = null; // FPS counter element
+  private wantedElement: HTMLDivElement | null = null; // Wanted level stars
+  private healthElement: HTMLDivElement | null = null; // Health and armour
+  private weaponElement: HTMLDivElement | null = null; // Weapon in hand and its ammo
+  private respawnElement: HTMLDivElement | null = null; // Wasted/Busted message
+  private saveManager: SaveManager;
+  private noticeElement: HTMLDivElement | null = null; // Save/load messages
+  private noticeTimeout: number | null = null;
 
   constructor(private container: HTMLElement) {
-    // Initialize Three.js scene
-    this.scene = new THREE.Scene();
+    // Initialize input manager
+    this.inputManager = new InputManager();
+    
+    // Pick the save to continue from, if any
+    this.saveManager = new SaveManager();
+    const savedGame = this.findSaveToLoad();
+    
+    // Initialize the simulated world (scene, environment, player, vehicles, missions)
+    // A ?seed=1234 URL parameter reproduces a reported city layout
+    this.world = new World(this.inputManager, {
+      missionUI: new MissionUI(),
+      seed: savedGame?.world.seed ?? RandomService.seedFromQuery(window.location.search) ?? undefined
+    });
+    if (savedGame) {
+      this.saveManager.apply(this.world, savedGame);
+    }
+    this.loadHandling();
+    this.saveManager.enableAutosave(this.world);
+    this.scene = this.world.getScene();
     this.scene.background = new THREE.Color(0x87ceeb); // Sky blue background
+    this.player = this.world.getPlayer();
     
     // Initialize renderer
     this.renderer = new THREE.WebGLRenderer({ antialias: true });
@@ -36,33 +70,13 @@ export class Game {
     this.renderer.shadowMap.enabled = true;
     this.container.appendChild(this.renderer.domElement);
     
-    // Initialize clock for frame-independent movement
+    // Initialize clock and fixed-step simulation (60 Hz)
     this.clock = new THREE.Clock();
-    
-    // Initialize input manager
-    this.inputManager = new InputManager();
-    
-    // Initialize environment (terrain, buildings, etc.)
-    this.environment = new Environment(this.scene);
-    
-    // Initialize player
-    this.player = new Player(this.scene, this.inputManager, this.environment);
+    this.timestep = new FixedTimestep(1 / 60);
     
     // Initialize camera controller
     this.cameraController = new CameraController(this.scene, this.player);
     
-    // Create vehicles
-    this.createVehicles();
-    
-    // Initialize mission manager
-    this.missionManager = new MissionManager(this.scene, this.player, this.inputManager);
-    
-    // Initialize pedestrian manager
-    this.pedestrianManager = new PedestrianManager(this.scene, this.environment);
-    
-    // Initialize vehicle manager for AI traffic
-    this.vehicleManager = new VehicleManager(this.scene, this.environment);
-    
     // Add lights
     this.setupLights();
     
@@ -70,6 +84,20 @@ export class Game {
     this.setupUI();
   }
 
+  /**
+   * Load handling.cfg, and reload it whenever the dev server reports an edit
+   */
+  private loadHandling(): void {
+    const handling = HandlingManager.getInstance();
+    void handling.loadFromUrl(HANDLING_URL);
+    
+    if (import.meta.hot) {
+      import.meta.hot.on('handling:update', () => {
+        void handling.loadFromUrl(HANDLING_URL);
+      });
+    }
+  }
+  
   private setupLights(): void {
     // Add ambient light
     const ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
@@ -95,22 +123,180 @@ export class Game {
     
     this.isRunning = true;
     this.clock.start();
+    this.timestep.reset();
     this.inputManager.initialize();
+    window.addEventListener('keydown', this.handleSaveKeys);
     
     // Initialize pedestrians and AI traffic
-    this.pedestrianManager.initialize();
-    this.vehicleManager.initialize();
+    this.world.initialize();
     
     this.animate();
   }
 
   public stop(): void {
     this.isRunning = false;
+    window.removeEventListener('keydown', this.handleSaveKeys);
     if (this.inputManager) {
       this.inputManager.dispose();
     }
+    AudioManager.getInstance().stopAll();
+  }
+  
+  /**
+   * Choose the save to start from: ?load=<slot> loads a slot, ?seed=<n> starts
+   * a fresh world, and otherwise the most recent save is continued
+   */
+  private findSaveToLoad(): SaveData | null {
+    const params = new URLSearchParams(window.location.search);
+    const slot = params.get('load');
+    if (slot !== null) {
+      return this.saveManager.read(slot);
+    }
+    if (params.has('seed')) {
+      return null;
+    }
+    
+    const latest = this.saveManager.listSlots()[0];
+    return latest ? this.saveManager.read(latest.slot) : null;
+  }
+  
+  /**
+   * Save the game to a slot
+   */
+  public saveGame(slot: string): boolean {
+    const saved = this.saveManager.save(this.world, slot);
+    this.showNotice(saved ? `Game saved (${slot})` : 'Save failed');
+    return saved;
+  }
+  
+  /**
+   * Load a slot. Saves from a different world seed reload the page, since the
+   * city has to be rebuilt from that seed.
+   */
+  public loadGame(slot: string): boolean {
+    const data = this.saveManager.read(slot);
+    if (!data) {
+      this.showNotice(`No save in ${slot}`);
+      return false;
+    }
+    
+    if (data.world.seed !== this.world.getSeed()) {
+      window.location.search = `?load=${encodeURIComponent(slot)}`;
+      return true;
+    }
+    
+    const loaded = this.saveManager.apply(this.world, data);
+    this.showNotice(loaded ? `Game loaded (${slot})` : 'Load failed');
+    return loaded;
+  }
+  
+  /**
+   * Download a slot as a JSON save file
+   */
+  public exportSave(slot: string): void {
+    const json = this.saveManager.exportSave(slot);
+    if (!json) {
+      this.showNotice(`No save in ${slot}`);
+      return;
+    }
+    
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `minigta3-${slot}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+  
+  /**
+   * Import a JSON save file into a slot
+   */
+  public async importSave(file: File, slot: string): Promise<boolean> {
+    const imported = this.saveManager.importSave(await file.text(), slot);
+    this.showNotice(imported ? `Save imported into ${slot}` : 'Not a valid save file');
+    return imported;
+  }
+  
+  /**
+   * Quick save/load keys: F5 save, F9 load, F6 export, F7 import
+   */
+  private handleSaveKeys = (event: KeyboardEvent): void => {
+    const quickSlot = 'quicksave';
+    
+    switch (event.key) {
+      case 'F5':
+        event.preventDefault(); // Don't reload the page
+        this.saveGame(quickSlot);
+        break;
+      case 'F9':
+        event.preventDefault();
+        this.loadGame(quickSlot);
+        break;
+      case 'F6':
+        event.preventDefault();
+        this.exportSave(quickSlot);
+        break;
+      case 'F7': {
+        event.preventDefault();
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = 'application/json,.json';
+        input.onchange = (): void => {
+          const file = input.files?.[0];
+          if (file) {
+            void this.importSave(file, quickSlot);
+          }
+        };
+        input.click();
+        break;
+      }
+    }
+  }
+  
+  /**
+   * Briefly show a message at the top of the screen
+   */
+  private showNotice(text: string): void {
+    if (!this.noticeElement) {
+      this.noticeElement = document.createElement('div');
+      this.noticeElement.className = 'save-notice';
+      this.noticeElement.style.position = 'absolute';
+      this.noticeElement.style.top = '50px';
+      this.noticeElement.style.left = '50%';
+      this.noticeElement.style.transform = 'translateX(-50%)';
+      this.noticeElement.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+      this.noticeElement.style.color = 'white';
+      this.noticeElement.style.padding = '8px 16px';
+      this.noticeElement.style.borderRadius = '3px';
+      this.noticeElement.style.fontFamily = 'Arial, sans-serif';
+      this.noticeElement.style.zIndex = '1000';
+      document.body.appendChild(this.noticeElement);
+    }
+    
+    this.noticeElement.textContent = text;
+    this.noticeElement.style.display = 'block';
+    
+    if (this.noticeTimeout !== null) {
+      clearTimeout(this.noticeTimeout);
+    }
+    this.noticeTimeout = window.setTimeout(() => {
+      if (this.noticeElement) {
+        this.noticeElement.style.display = 'none';
+      }
+    }, 2000);
   }
 
+  /**
+   * Set the simulation time scale (1 = real time, 0.5 = slow motion, 0 = paused)
+   */
+  public setTimeScale(scale: number): void {
+    this.timestep.setTimeScale(scale);
+  }
+  
+  public getTimeScale(): number {
+    return this.timestep.getTimeScale();
+  }
+  
   public resize(): void {
     const width = window.innerWidth;
     const height = window.innerHeight;
@@ -119,37 +305,6 @@ export class Game {
     this.cameraController.updateAspect(width / height);
   }
 
-  private createVehicles(): void {
-    // Create a few vehicles around the map
-    const vehiclePositions = [
-      new THREE.Vector3(15, 0, 15),
-      new THREE.Vector3(-20, 0, 5),
-      new THREE.Vector3(5, 0, -25)
-    ];
-    
-    const vehicleRotations = [
-      Math.PI / 4,  // 45 degrees
-      Math.PI,      // 180 degrees
-      -Math.PI / 2  // -90 degrees
-    ];
-    
-    for (let i = 0; i < vehiclePositions.length; i++) {
-      const vehicle = new Vehicle(
-        this.scene,
-        this.environment,
-        vehiclePositions[i],
-        vehicleRotations[i]
-      );
-      
-      this.vehicles.push(vehicle);
-    }
-    
-    // Set the first vehicle as the player's current vehicle (for interaction)
-    if (this.vehicles.length > 0) {
-      this.player.setCurrentVehicle(this.vehicles[0]);
-    }
-  }
-  
   private setupUI(): void {
     // Get or create UI overlay element
     this.uiElement = document.querySelector('.ui-overlay');
@@ -168,9 +323,14 @@ export class Game {
       <p>A - Turn left</p>
       <p>D - Turn right</p>
       <p>E - Enter/Exit vehicle</p>
-      <p>Space - Jump (on foot)</p>
+      <p>Space - Jump (on foot) / Handbrake (driving)</p>
+      <p>Left click / Ctrl - Fire</p>
+      <p>Right click / Shift - Aim</p>
+      <p>Q / Z / Mouse wheel - Change weapon</p>
       <p>Mouse - Look around</p>
       <p>Click - Enable mouse control</p>
+      <p>F5 / F9 - Quick save / load</p>
+      <p>F6 / F7 - Export / import save</p>
     `;
     
     // Create FPS counter element
@@ -186,6 +346,58 @@ export class Game {
     this.fpsElement.style.fontFamily = 'monospace';
     this.fpsElement.style.zIndex = '1000';
     document.body.appendChild(this.fpsElement);
+    
+    // Create wanted level stars below the FPS counter
+    this.wantedElement = document.createElement('div');
+    this.wantedElement.className = 'wanted-level';
+    this.wantedElement.style.position = 'absolute';
+    this.wantedElement.style.top = '40px';
+    this.wantedElement.style.right = '10px';
+    this.wantedElement.style.fontSize = '28px';
+    this.wantedElement.style.letterSpacing = '2px';
+    this.wantedElement.style.textShadow = '0 0 3px black';
+    this.wantedElement.style.zIndex = '1000';
+    document.body.appendChild(this.wantedElement);
+    
+    // Create health and armour readout below the stars
+    this.healthElement = document.createElement('div');
+    this.healthElement.className = 'player-health';
+    this.healthElement.style.position = 'absolute';
+    this.healthElement.style.top = '80px';
+    this.healthElement.style.right = '10px';
+    this.healthElement.style.fontFamily = 'monospace';
+    this.healthElement.style.fontSize = '20px';
+    this.healthElement.style.textShadow = '0 0 3px black';
+    this.healthElement.style.zIndex = '1000';
+    document.body.appendChild(this.healthElement);
+    
+    // Create weapon readout below health
+    this.weaponElement = document.createElement('div');
+    this.weaponElement.className = 'player-weapon';
+    this.weaponElement.style.position = 'absolute';
+    this.weaponElement.style.top = '110px';
+    this.weaponElement.style.right = '10px';
+    this.weaponElement.style.color = 'white';
+    this.weaponElement.style.fontFamily = 'monospace';
+    this.weaponElement.style.fontSize = '18px';
+    this.weaponElement.style.textShadow = '0 0 3px black';
+    this.weaponElement.style.zIndex = '1000';
+    document.body.appendChild(this.weaponElement);
+    
+    // Create the centred Wasted/Busted message
+    this.respawnElement = document.createElement('div');
+    this.respawnElement.className = 'respawn-message';
+    this.respawnElement.style.position = 'absolute';
+    this.respawnElement.style.top = '40%';
+    this.respawnElement.style.left = '50%';
+    this.respawnElement.style.transform = 'translate(-50%, -50%)';
+    this.respawnElement.style.fontFamily = 'Arial, sans-serif';
+    this.respawnElement.style.fontSize = '72px';
+    this.respawnElement.style.fontWeight = 'bold';
+    this.respawnElement.style.textShadow = '0 0 6px black';
+    this.respawnElement.style.display = 'none';
+    this.respawnElement.style.zIndex = '1000';
+    document.body.appendChild(this.respawnElement);
   }
   
   private updateUI(): void {
@@ -207,6 +419,76 @@ export class Game {
         this.uiElement.removeChild(vehicleInfo);
       }
     }
+    
+    this.updateWantedStars();
+    this.updateHealth();
+    this.updateWeapon();
+    this.updateRespawnMessage();
+  }
+  
+  /**
+   * Show one gold star per wanted level; they flash while the police have lost sight of the player
+   */
+  private updateWantedStars(): void {
+    if (!this.wantedElement) return;
+    
+    const level = this.player.getWantedLevel();
+    this.wantedElement.style.display = level > 0 ? 'block' : 'none';
+    if (level === 0) return;
+    
+    // Only rebuild the stars when the level changes
+    if (this.wantedElement.dataset.level !== String(level)) {
+      this.wantedElement.dataset.level = String(level);
+      const stars = '\u2605'.repeat(level);
+      const empty = '\u2606'.repeat(MAX_WANTED_LEVEL - level);
+      this.wantedElement.innerHTML = `<span style="color: gold">${stars}</span><span style="color: rgba(255, 255, 255, 0.5)">${empty}</span>`;
+    }
+    
+    const flashing = !this.world.getPoliceManager().isPlayerSeen();
+    this.wantedElement.style.opacity = flashing && Math.floor(performance.now() / 400) % 2 === 0 ? '0.3' : '1';
+  }
+  
+  /**
+   * Show the player's health, and armour when they have any
+   */
+  private updateHealth(): void {
+    if (!this.healthElement) return;
+    
+    const health = this.player.getHealth();
+    const text = `\u2665 ${Math.ceil(health.getHealth())}` +
+      (health.getArmour() > 0 ? `  \u25C8 ${Math.ceil(health.getArmour())}` : '');
+    if (this.healthElement.textContent !== text) {
+      this.healthElement.textContent = text;
+      this.healthElement.style.color = health.getHealth() <= 25 ? 'red' : 'pink';
+    }
+  }
+  
+  /**
+   * Show the weapon in hand and, for guns, the ammo left
+   */
+  private updateWeapon(): void {
+    if (!this.weaponElement) return;
+    
+    const inventory = this.player.getWeapons();
+    const weapon = inventory.getCurrent();
+    const text = weapon.maxAmmo > 0 ? `${weapon.name} ${inventory.getAmmo(weapon.type)}` : weapon.name;
+    if (this.weaponElement.textContent !== text) {
+      this.weaponElement.textContent = text;
+    }
+  }
+  
+  /**
+   * Show WASTED or BUSTED while the player is waiting to respawn
+   */
+  private updateRespawnMessage(): void {
+    if (!this.respawnElement) return;
+    
+    const reason = this.world.getRespawnManager().getReason();
+    this.respawnElement.style.display = reason ? 'block' : 'none';
+    if (reason) {
+      this.respawnElement.textContent = reason === RespawnReason.WASTED ? 'WASTED' : 'BUSTED';
+      this.respawnElement.style.color = reason === RespawnReason.WASTED ? '#c00' : '#39f';
+    }
   }
   
   // Performance monitoring variables
@@ -227,13 +509,11 @@ export class Game {
     requestAnimationFrame(this.animate);
     
     try {
-      // Calculate delta time with a maximum value to prevent large jumps
-      // This helps prevent physics issues when the game freezes or lags
-      const rawDeltaTime = this.clock.getDelta();
-      const deltaTime = Math.min(rawDeltaTime, 0.1); // Cap at 100ms (10fps)
+      // Real time since the last rendered frame
+      const frameTime = this.clock.getDelta();
       
       // Performance monitoring
-      this.updatePerformanceMetrics(deltaTime);
+      this.updatePerformanceMetrics(frameTime);
       
       // Periodic memory cleanup
       const currentTime = performance.now() / 1000;
@@ -242,40 +522,14 @@ export class Game {
         this.lastMemoryCleanupTime = currentTime;
       }
       
-      // Update game components
-      this.player.update(deltaTime);
-      this.cameraController.update();
-      
-      // Get player position for distance calculations
-      const playerPosition = this.player.getPosition();
-      
-      // Update player-accessible vehicles with distance-based optimization
-      for (const vehicle of this.vehicles) {
-        if (!vehicle.isPlayerInside()) {
-          const distanceToPlayer = vehicle.getPosition().distanceTo(playerPosition);
-          
-          // Use simplified physics for distant vehicles
-          if (distanceToPlayer > 30) {
-            vehicle.updateSimple(deltaTime, 0.3); // Very simplified update
-          } else if (distanceToPlayer > 15) {
-            vehicle.updateSimple(deltaTime, 0.7); // Somewhat simplified update
-          } else {
-            vehicle.update(deltaTime); // Full physics update for nearby vehicles
-          }
-        }
-      }
+      // Advance the simulation in fixed steps, independent of the frame rate
+      this.timestep.advance(frameTime, this.step);
       
-      // Update pedestrians with optimized processing
-      this.pedestrianManager.update(deltaTime, this.player, [...this.vehicles, ...this.vehicleManager.getVehicles()]);
+      // Blend rendered transforms between the last two simulation steps
+      this.world.interpolate(this.timestep.getAlpha());
       
-      // Update AI traffic vehicles
-      // @ts-ignore
-      this.vehicleManager.update(deltaTime, this.player, this.vehicles);
-      
-      // Update mission manager
-      this.missionManager.update(deltaTime);
-      
-      // Update UI
+      // Update camera and UI
+      this.cameraController.update();
       this.updateUI();
       
       // Render the scene
@@ -286,6 +540,13 @@ export class Game {
     }
   }
   
+  /**
+   * Advance all game logic by one fixed simulation step
+   */
+  private step = (deltaTime: number): void => {
+    this.world.step(deltaTime);
+  }
+  
   /**
    * Update performance metrics and display FPS counter
    */
@@ -318,7 +579,7 @@ export class Game {
     
     // Update FPS display
     if (this.fpsElement) {
-      this.fpsElement.textContent = `FPS: ${this.fps} | Avg: ${avgFrameTime.toFixed(1)}ms | Max: ${maxFrameTime.toFixed(1)}ms`;
+      this.fpsElement.textContent = `FPS: ${this.fps} | Avg: ${avgFrameTime.toFixed(1)}ms | Max: ${maxFrameTime.toFixed(1)}ms | Seed: ${this.world.getSeed()}`;
       
       // Color code based on performance
       if (this.fps < 30) {
@@ -356,7 +617,6 @@ export class Game {
     THREE.Cache.clear();
 
     // Remove expired objects from managers
-    this.pedestrianManager.cleanup();
-    this.vehicleManager.cleanup();
+    this.world.cleanup();
   }
 }
@@ -0,0 +1,146 @@
+import { InputManager } from './InputManager';
+import { World } from './World';
+import { AssetLoader } from './utils/AssetLoader';
+
+/**
+ * Options for a headless simulation run
+ */
+export interface HeadlessSimulationOptions {
+  // Length of one simulation step in seconds (defaults to the game's 60 Hz)
+  stepSize?: number;
+
+  // World seed, so a run can be reproduced exactly (random if left out)
+  seed?: number;
+}
+
+/**
+ * A scripted action run once the simulation clock reaches its time
+ */
+interface ScheduledAction {
+  time: number;
+  action: (simulation: HeadlessSimulation) => void;
+}
+
+/**
+ * HeadlessSimulation runs the game World without a renderer, DOM or HUD,
+ * stepping it deterministically with scripted input. It is the entry point
+ * for bots and for asserting gameplay outcomes in Node, e.g.:
+ *
+ *   const sim = new HeadlessSimulation();
+ *   sim.getWorld().getMissionManager().startMission('tutorial');
+ *   sim.press('w');
+ *   sim.run(2);
+ */
+export class HeadlessSimulation {
+  private world: World;
+  private input: InputManager;
+  private stepSize: number;
+  private time = 0;
+  private schedule: ScheduledAction[] = [];
+
+  constructor(options: HeadlessSimulationOptions = {}) {
+    // There is no renderer, so entities should not load their 3D models
+    AssetLoader.getInstance().setModelLoadingEnabled(false);
+
+    this.stepSize = options.stepSize ?? 1 / 60;
+
+    // Input is driven programmatically; initialize() is never called, so no DOM listeners are added
+    this.input = new InputManager();
+
+    this.world = new World(this.input, { seed: options.seed });
+    this.world.initialize();
+  }
+
+  /**
+   * Advance the world by a number of fixed steps
+   */
+  public step(count = 1): void {
+    for (let i = 0; i < count; i++) {
+      this.runScheduledActions();
+      this.world.step(this.stepSize);
+      this.time += this.stepSize;
+    }
+  }
+
+  /**
+   * Advance the world by (at least) the given number of simulated seconds
+   */
+  public run(seconds: number): void {
+    this.step(Math.ceil(seconds / this.stepSize - 1e-9));
+  }
+
+  /**
+   * Step until a condition holds or the time budget runs out
+   * @param condition Checked after every step
+   * @param maxSeconds Simulated time budget
+   * @param onStep Optional callback before each step, e.g. a bot choosing its inputs
+   * @returns Whether the condition was met
+   */
+  public runUntil(
+    condition: (simulation: HeadlessSimulation) => boolean,
+    maxSeconds: number,
+    onStep?: (simulation: HeadlessSimulation) => void
+  ): boolean {
+    const endTime = this.time + maxSeconds;
+    while (this.time < endTime) {
+      if (onStep) onStep(this);
+      this.step();
+      if (condition(this)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Run an action once the simulation clock reaches the given time
+   */
+  public at(time: number, action: (simulation: HeadlessSimulation) => void): void {
+    this.schedule.push({ time, action });
+    this.schedule.sort((a, b) => a.time - b.time);
+  }
+
+  private runScheduledActions(): void {
+    while (this.schedule.length > 0 && this.schedule[0].time <= this.time + 1e-9) {
+      const scheduled = this.schedule.shift();
+      if (scheduled) scheduled.action(this);
+    }
+  }
+
+  // Scripted input
+
+  public press(...keys: string[]): void {
+    for (const key of keys) {
+      this.input.setKeyPressed(key, true);
+    }
+  }
+
+  public release(...keys: string[]): void {
+    for (const key of keys) {
+      this.input.setKeyPressed(key, false);
+    }
+  }
+
+  /**
+   * Hold exactly the given keys and release everything else
+   */
+  public hold(...keys: string[]): void {
+    this.input.releaseAllKeys();
+    this.press(...keys);
+  }
+
+  // Getters
+
+  public getWorld(): World {
+    return this.world;
+  }
+
+  public getInput(): InputManager {
+    return this.input;
+  }
+
+  /**
+   * Simulated time in seconds since the simulation was created
+   */
+  public getTime(): number {
+    return this.time;
+  }
+}
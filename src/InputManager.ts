@@ -10,6 +10,10 @@ export class InputManager {
   private mouseDelta: { x: number, y: number } = { x: 0, y: 0 };
   private previousMousePosition: { x: number, y: number } = { x: 0, y: 0 };
   private isPointerLocked = false;
+  private mouseButtons: Set<number> = new Set(); // Buttons held down
+  
+  // Weapon changes requested since last read: +1 per next, -1 per previous
+  private weaponCycle = 0;
   
   constructor() {}
   
@@ -21,6 +25,10 @@ export class InputManager {
     // Set up mouse event listeners
     document.addEventListener('mousemove', this.handleMouseMove);
     document.addEventListener('click', this.handleMouseClick);
+    document.addEventListener('mousedown', this.handleMouseDown);
+    document.addEventListener('mouseup', this.handleMouseUp);
+    document.addEventListener('wheel', this.handleWheel);
+    document.addEventListener('contextmenu', this.handleContextMenu);
     document.addEventListener('pointerlockchange', this.handlePointerLockChange);
   }
   
@@ -32,6 +40,10 @@ export class InputManager {
     // Remove mouse event listeners
     document.removeEventListener('mousemove', this.handleMouseMove);
     document.removeEventListener('click', this.handleMouseClick);
+    document.removeEventListener('mousedown', this.handleMouseDown);
+    document.removeEventListener('mouseup', this.handleMouseUp);
+    document.removeEventListener('wheel', this.handleWheel);
+    document.removeEventListener('contextmenu', this.handleContextMenu);
     document.removeEventListener('pointerlockchange', this.handlePointerLockChange);
     
     // Exit pointer lock if active
@@ -42,6 +54,10 @@ export class InputManager {
   
   private handleKeyDown = (event: KeyboardEvent): void => {
     this.keys[event.key.toLowerCase()] = true;
+    
+    // Q and Z change weapon, once per press
+    if (!event.repeat && event.key.toLowerCase() === 'q') this.weaponCycle++;
+    if (!event.repeat && event.key.toLowerCase() === 'z') this.weaponCycle--;
   }
   
   private handleKeyUp = (event: KeyboardEvent): void => {
@@ -73,16 +89,79 @@ export class InputManager {
     }
   }
   
+  private handleMouseDown = (event: MouseEvent): void => {
+    this.mouseButtons.add(event.button);
+  }
+  
+  private handleMouseUp = (event: MouseEvent): void => {
+    this.mouseButtons.delete(event.button);
+  }
+  
+  private handleWheel = (event: WheelEvent): void => {
+    // Scrolling changes weapon while playing
+    if (this.isPointerLocked && event.deltaY !== 0) {
+      this.weaponCycle += event.deltaY > 0 ? 1 : -1;
+    }
+  }
+  
+  private handleContextMenu = (event: MouseEvent): void => {
+    // The right button aims, so keep the browser menu out of the way
+    if (this.isPointerLocked) {
+      event.preventDefault();
+    }
+  }
+  
   private handlePointerLockChange = (): void => {
     this.isPointerLocked = document.pointerLockElement !== null;
   }
   
+  // Public methods to drive input programmatically (headless simulation, bots)
+  
+  public setKeyPressed(key: string, pressed: boolean): void {
+    this.keys[key.toLowerCase()] = pressed;
+  }
+  
+  public releaseAllKeys(): void {
+    this.keys = {};
+  }
+  
+  /**
+   * Request the next (1) or previous (-1) weapon
+   */
+  public cycleWeapon(direction: number): void {
+    this.weaponCycle += Math.sign(direction);
+  }
+  
   // Public methods to check input state
   
   public isKeyPressed(key: string): boolean {
     return this.keys[key.toLowerCase()] === true;
   }
   
+  /**
+   * Fire: left mouse button while playing, or Ctrl
+   */
+  public isFirePressed(): boolean {
+    return (this.isPointerLocked && this.mouseButtons.has(0)) || this.isKeyPressed('control');
+  }
+  
+  /**
+   * Aim: right mouse button, or Shift
+   */
+  public isAimPressed(): boolean {
+    return this.mouseButtons.has(2) || this.isKeyPressed('shift');
+  }
+  
+  /**
+   * Read and reset the weapon changes requested since the last call
+   * @returns Net number of weapons to cycle forward (negative for backward)
+   */
+  public consumeWeaponCycle(): number {
+    const cycle = this.weaponCycle;
+    this.weaponCycle = 0;
+    return cycle;
+  }
+  
   public getMouseDelta(): { x: number, y: number } {
     const delta = { x: this.mouseDelta.x, y: this.mouseDelta.y };
     // Reset delta after reading to prevent continuous rotation when mouse is not moving
@@ -3,6 +3,11 @@ import { HumanModel, HumanAnimationState } from './models/HumanModel';
 import { Environment } from './Environment';
 import { Player } from './Player';
 import { Vehicle } from './Vehicle';
+import { InterpolatedTransform } from './utils/InterpolatedTransform';
+import { RandomStream } from './utils/Random';
+import { Capsule } from './physics/Capsule';
+import { SpatialHash } from './physics/SpatialHash';
+import { Faction, PEDESTRIAN_TYPES, PedestrianType, PedestrianTypeDefinition, Relationship, getRelationship } from './PedestrianType';
 
 /**
  * Pedestrian behavior states
@@ -14,20 +19,40 @@ export enum PedestrianState {
   PANICKING = 'panicking',
   WAITING_TO_CROSS = 'waiting_to_cross',
   ENTERING_VEHICLE = 'entering_vehicle',
-  EXITING_VEHICLE = 'exiting_vehicle'
+  EXITING_VEHICLE = 'exiting_vehicle',
+  IN_VEHICLE = 'in_vehicle',
+  KNOCKED_DOWN = 'knocked_down',
+  PURSUING = 'pursuing',
+  ATTACKING = 'attacking',
+  DEAD = 'dead'
 }
 
+// States only a full update can advance; from far away they are left as they are
+const FULL_UPDATE_STATES: PedestrianState[] = [
+  PedestrianState.ENTERING_VEHICLE,
+  PedestrianState.EXITING_VEHICLE,
+  PedestrianState.IN_VEHICLE,
+  PedestrianState.KNOCKED_DOWN,
+  PedestrianState.PURSUING,
+  PedestrianState.ATTACKING,
+  PedestrianState.DEAD
+];
+
 /**
  * Pedestrian class represents an AI-controlled character that walks around
- * the city, interacts with the environment, and reacts to the player
+ * the city, interacts with the environment, and reacts to the player and to
+ * other pedestrians as their faction dictates: fleeing, ignoring or attacking
  */
 export class Pedestrian {
   // Core properties
+  private definition: PedestrianTypeDefinition;
   private model: HumanModel;
   private position: THREE.Vector3;
   private rotation: THREE.Euler;
   private velocity: THREE.Vector3;
-  private collider: THREE.Box3;
+  private collider: THREE.Box3; // Axis-aligned bounds, for bullets
+  private capsule = new Capsule(0.3, 1.8); // Body shape, for bumping into things
+  private renderTransform: InterpolatedTransform;
   
   // AI state
   private state: PedestrianState = PedestrianState.IDLE;
@@ -38,27 +63,70 @@ export class Pedestrian {
   private waitTime = 0;
   private maxWaitTime = 5; // Maximum time to wait in seconds
   
-  // Movement properties
-  private walkSpeed = 1.2;
-  private runSpeed = 4.0;
-  private panicSpeed = 5.0;
+  // Crossing roads
+  private crossingCleared = false; // Decided to step off the curb here; reset once away from it
+  private waitingForSignal = false; // At a crosswalk, waiting for the walk signal
+  private crossingDirection = new THREE.Vector3();
+  private signalWaitLimit = 45; // Give up on a broken light and cross anyway
+  
+  // Route planning
+  private fleeDistance = 25; // How far to run from a threat
+  private offRouteDistance = 3; // Pushed further than this off the route, plan a new one
+  private blockedTime = 0; // Seconds spent getting nowhere
+  private maxBlockedTime = 2; // Then find somewhere else to go
+  
+  // Movement properties, by type
+  private walkSpeed: number;
+  private runSpeed: number;
+  private panicSpeed: number;
   private turnSpeed = 2.0;
   
   // Interaction properties
   private fleeRadius = 8;
-  private targetVehicle: Vehicle | null = null;
+  private targetVehicle: Vehicle | null = null; // Parked car we are walking to, getting into or driving
+  private carChance = 0.02; // Chance, on setting off somewhere, of taking a parked car instead
+  private carSearchRadius = 30; // How far to look for one
+  private doorReach = 2; // Close enough to the door to get in
+  private doorTime = 2; // Seconds to open the door and get in or out
+  
+  // Knocked down by a vehicle
+  private knockDownTime = 3; // Seconds on the ground before getting up
+  
+  // Health, lost to weapons; at zero the pedestrian dies
+  private health = 100;
+  
+  // Player being chased (police officers)
+  private pursuitTarget: Player | null = null;
+  private pursuitStopDistance = 1.5; // Close enough to make an arrest
+  
+  // Fighting someone whose faction ours hates
+  private attackTarget: Player | Pedestrian | null = null;
+  private attackRadius = 10; // Go for the hated when they come this close
+  private giveUpDistance = 30; // Let them go once they get this far away
+  private meleeRange = 1.2;
+  private attackInterval = 1; // Seconds between punches
+  private attackCooldown = 0;
+  private grudge: Player | null = null; // Pulled us out of our car; gone after once we are back up
   
   constructor(
     private scene: THREE.Scene,
     private environment: Environment,
+    private random: RandomStream, // 'peds' stream owned by PedestrianManager
     initialPosition: THREE.Vector3 = new THREE.Vector3(0, 0, 0),
-    initialRotation = 0
+    initialRotation = 0,
+    type = PedestrianType.CIVILIAN_MALE
   ) {
+    this.definition = PEDESTRIAN_TYPES[type];
+    this.walkSpeed = this.definition.walkSpeed;
+    this.runSpeed = this.definition.runSpeed;
+    this.panicSpeed = this.definition.panicSpeed;
+    
     // Initialize position and rotation
     this.position = initialPosition.clone();
     this.position.y = environment.getGroundHeight(initialPosition.x, initialPosition.z);
     this.rotation = new THREE.Euler(0, initialRotation, 0, 'YXZ');
     this.velocity = new THREE.Vector3(0, 0, 0);
+    this.renderTransform = new InterpolatedTransform(this.position, this.rotation);
     
     // Create human model
     this.model = new HumanModel(this.scene);
@@ -68,7 +136,7 @@ export class Pedestrian {
     this.updateCollider();
     
     // Load the model
-    this.model.load().then(() => {
+    this.model.load(this.definition.modelId).then(() => {
       // Set initial position and rotation
       this.model.setPosition(this.position);
       this.model.setRotation(this.rotation);
@@ -82,16 +150,28 @@ export class Pedestrian {
   }
   /**
    * Update the pedestrian's state and position
+   * @param vehicles Traffic to react to, by where it is
+   * @param pedestrians Other people to react to, by where they stand
    */
-  public update(deltaTime: number, player: Player, vehicles: Vehicle[]): void {
+  public update(deltaTime: number, player: Player, vehicles: SpatialHash<Vehicle>, pedestrians?: SpatialHash<Pedestrian>): void {
     // Update state timer
     this.stateTime += deltaTime;
     
-    // Check for player proximity and react accordingly
-    if (player) this.checkPlayerProximity(player);
+    // The dead stay where they fell; drivers go where their car goes
+    if (this.state === PedestrianState.DEAD || this.state === PedestrianState.IN_VEHICLE) return;
     
-    // Check for vehicle proximity
-    this.checkVehicleProximity(vehicles);
+    // Peds on the ground, chasing the player, in a fight or getting into a car don't react to traffic
+    if (this.state !== PedestrianState.KNOCKED_DOWN && this.state !== PedestrianState.PURSUING
+        && this.state !== PedestrianState.ATTACKING && this.state !== PedestrianState.ENTERING_VEHICLE) {
+      // Check for player proximity and react accordingly
+      if (player) this.checkPlayerProximity(player);
+      
+      // Pick fights with rivals, and keep out of other people's
+      if (pedestrians) this.checkPedestrianProximity(pedestrians);
+      
+      // Check for vehicle proximity
+      this.checkVehicleProximity(vehicles);
+    }
     
     // Update based on current state
     switch (this.state) {
@@ -116,25 +196,44 @@ export class Pedestrian {
       case PedestrianState.EXITING_VEHICLE:
         this.updateExitingVehicleState(deltaTime);
         break;
+      case PedestrianState.KNOCKED_DOWN:
+        this.updateKnockedDownState(deltaTime);
+        break;
+      case PedestrianState.PURSUING:
+        this.updatePursuingState(deltaTime);
+        break;
+      case PedestrianState.ATTACKING:
+        this.updateAttackingState(deltaTime);
+        break;
     }
     
-    // Update model position and rotation
-    this.model.setPosition(this.position);
-    this.model.setRotation(this.rotation);
+    // Record the new transform for render interpolation
+    this.renderTransform.capture(this.position, this.rotation);
     
     // Update collider
     this.updateCollider();
   }
   
+  /**
+   * Move the rendered model between the last two simulation steps
+   * @param alpha Blend factor between the previous (0) and current (1) step
+   */
+  public interpolate(alpha: number): void {
+    this.renderTransform.apply(this.model.getMesh(), alpha);
+  }
+  
   /**
    * Update the idle state
    */
   private updateIdleState(_deltaTime: number): void {
     // In idle state, occasionally decide to start walking
-    if (this.stateTime > 3 + Math.random() * 5) {
+    if (this.stateTime > this.random.range(3, 8)) {
       // 80% chance to walk, 20% chance to stay idle longer
-      if (Math.random() < 0.8) {
-        this.findNewDestination();
+      if (this.random.chance(0.8)) {
+        // Now and then, drive off in a car parked nearby instead
+        if (!this.random.chance(this.carChance) || !this.headForParkedVehicle()) {
+          this.findNewDestination();
+        }
         this.setState(PedestrianState.WALKING);
       } else {
         // Reset timer but stay idle
@@ -160,6 +259,10 @@ export class Pedestrian {
         if (this.path.length > 0 && this.currentPathIndex < this.path.length - 1) {
           this.currentPathIndex++;
           this.targetPosition = this.path[this.currentPathIndex];
+        } else if (this.targetVehicle) {
+          // We've reached the car we were heading for
+          this.getIntoVehicle();
+          return;
         } else {
           // We've reached our destination
           this.setState(PedestrianState.IDLE);
@@ -170,8 +273,8 @@ export class Pedestrian {
       // Normalize direction
       direction.normalize();
       
-      // Gradually rotate towards the target direction
-      const targetRotation = Math.atan2(direction.x, direction.z);
+      // Gradually rotate towards the target direction (facing -Z at zero rotation)
+      const targetRotation = Math.atan2(-direction.x, -direction.z);
       const currentRotation = this.rotation.y;
       
       // Calculate the shortest rotation direction
@@ -183,6 +286,7 @@ export class Pedestrian {
       this.rotation.y += Math.sign(rotationDiff) * Math.min(Math.abs(rotationDiff), this.turnSpeed * deltaTime);
       
       // Move forward
+      const start = this.position.clone();
       this.velocity.set(0, 0, -this.walkSpeed * deltaTime);
       this.velocity.applyEuler(this.rotation);
       this.position.add(this.velocity);
@@ -192,11 +296,10 @@ export class Pedestrian {
       
       // Check for obstacles and adjust path if needed
       this.avoidObstacles(deltaTime);
+      if (this.checkRouteBlocked(deltaTime, start, this.walkSpeed)) return;
       
-      // Occasionally check if we should wait to cross a road
-      if (Math.random() < 0.02) {
-        this.checkForRoadCrossing();
-      }
+      // Look before stepping into the road
+      this.checkForRoadCrossing();
     } else {
       // No target, go back to idle
       this.setState(PedestrianState.IDLE);
@@ -225,7 +328,7 @@ export class Pedestrian {
       
       direction.normalize();
       
-      const targetRotation = Math.atan2(direction.x, direction.z);
+      const targetRotation = Math.atan2(-direction.x, -direction.z);
       const currentRotation = this.rotation.y;
       
       let rotationDiff = targetRotation - currentRotation;
@@ -234,6 +337,7 @@ export class Pedestrian {
       
       this.rotation.y += Math.sign(rotationDiff) * Math.min(Math.abs(rotationDiff), this.turnSpeed * 1.5 * deltaTime);
       
+      const start = this.position.clone();
       this.velocity.set(0, 0, -this.runSpeed * deltaTime);
       this.velocity.applyEuler(this.rotation);
       this.position.add(this.velocity);
@@ -241,6 +345,7 @@ export class Pedestrian {
       this.position.y = this.environment.getGroundHeight(this.position.x, this.position.z);
       
       this.avoidObstacles(deltaTime);
+      this.checkRouteBlocked(deltaTime, start, this.runSpeed);
     } else {
       this.setState(PedestrianState.IDLE);
     }
@@ -265,7 +370,7 @@ export class Pedestrian {
       // Run in the opposite direction from the threat
       direction.normalize().negate();
       
-      const targetRotation = Math.atan2(direction.x, direction.z);
+      const targetRotation = Math.atan2(-direction.x, -direction.z);
       const currentRotation = this.rotation.y;
       
       let rotationDiff = targetRotation - currentRotation;
@@ -285,8 +390,9 @@ export class Pedestrian {
       this.setState(PedestrianState.IDLE);
     }
     
-    // After some time, calm down
-    if (this.stateTime > 5 + Math.random() * 3) {
+    // After some time, calm down and head off along the sidewalks, away from the threat
+    if (this.state === PedestrianState.PANICKING && this.targetPosition && this.stateTime > this.random.range(5, 8)) {
+      this.fleeFrom(this.targetPosition);
       this.setState(PedestrianState.RUNNING);
     }
   }
@@ -295,10 +401,12 @@ export class Pedestrian {
    * Update the waiting to cross state
    */
   private updateWaitingState(deltaTime: number): void {
-    // Wait for a bit, then cross
+    // Wait for the walk signal, or for a bit, then cross
     this.waitTime += deltaTime;
     
-    if (this.waitTime >= this.maxWaitTime) {
+    const walk = this.waitingForSignal && this.environment.getTrafficLights().canWalk(this.position, this.crossingDirection);
+    if (walk || this.waitTime >= this.maxWaitTime) {
+      this.waitingForSignal = false;
       this.waitTime = 0;
       this.setState(PedestrianState.WALKING);
     }
@@ -309,14 +417,10 @@ export class Pedestrian {
    */
   private updateEnteringVehicleState(_deltaTime: number): void {
     // Animation for entering a vehicle
-    if (this.stateTime > 2.0) { // Animation time
-      // Hide pedestrian once inside
+    if (this.stateTime > this.doorTime) {
+      // Hide pedestrian once inside; PedestrianManager hands the car over to the traffic
       this.model.setVisible(false);
-      
-      // If we have a target vehicle, mark it as occupied
-      if (this.targetVehicle) {
-        // Logic to occupy vehicle would go here
-      }
+      this.setState(PedestrianState.IN_VEHICLE);
     }
   }
   
@@ -325,11 +429,109 @@ export class Pedestrian {
    */
   private updateExitingVehicleState(_deltaTime: number): void {
     // Animation for exiting a vehicle
-    if (this.stateTime > 2.0) { // Animation time
+    if (this.stateTime > this.doorTime) {
       this.setState(PedestrianState.IDLE);
     }
   }
   
+  /**
+   * Update the knocked down state
+   */
+  private updateKnockedDownState(_deltaTime: number): void {
+    if (this.stateTime > this.knockDownTime) {
+      if (this.grudge) {
+        // Get up and go after whoever put us down
+        this.attack(this.grudge);
+        this.grudge = null;
+      } else {
+        // Get up and run from whatever hit us (targetPosition)
+        this.setState(PedestrianState.PANICKING);
+      }
+    }
+  }
+  
+  /**
+   * Update the pursuing state
+   */
+  private updatePursuingState(deltaTime: number): void {
+    if (!this.pursuitTarget) {
+      this.setState(PedestrianState.IDLE);
+      return;
+    }
+    
+    const direction = new THREE.Vector3().subVectors(this.pursuitTarget.getPosition(), this.position);
+    direction.y = 0;
+    
+    // Face the player and run at them until within arrest range
+    const targetRotation = Math.atan2(-direction.x, -direction.z);
+    let rotationDiff = targetRotation - this.rotation.y;
+    rotationDiff = Math.atan2(Math.sin(rotationDiff), Math.cos(rotationDiff));
+    this.rotation.y += Math.sign(rotationDiff) * Math.min(Math.abs(rotationDiff), this.turnSpeed * 2 * deltaTime);
+    
+    if (direction.length() > this.pursuitStopDistance) {
+      this.velocity.set(0, 0, -this.runSpeed * deltaTime);
+      this.velocity.applyEuler(this.rotation);
+      this.position.add(this.velocity);
+      this.position.y = this.environment.getGroundHeight(this.position.x, this.position.z);
+      this.avoidObstacles(deltaTime);
+    }
+  }
+  
+  /**
+   * Update the attacking state
+   */
+  private updateAttackingState(deltaTime: number): void {
+    const target = this.attackTarget;
+    const targetDown = target instanceof Pedestrian ? target.isKnockedDown() : !target || target.getHealth().isDead();
+    const targetVehicle = target instanceof Pedestrian || !target?.isInsideVehicle() ? null : target.getCurrentVehicle();
+    const direction = target ? new THREE.Vector3().subVectors(target.getPosition(), this.position).setY(0) : new THREE.Vector3();
+    
+    // Done once they are down or got away
+    if (!target || targetDown || direction.length() > this.giveUpDistance) {
+      this.attackTarget = null;
+      this.setState(PedestrianState.IDLE);
+      return;
+    }
+    
+    // Face them, run in close, then throw punches; at the car, if they are in one
+    const reach = targetVehicle ? this.doorReach : this.meleeRange;
+    const targetRotation = Math.atan2(-direction.x, -direction.z);
+    let rotationDiff = targetRotation - this.rotation.y;
+    rotationDiff = Math.atan2(Math.sin(rotationDiff), Math.cos(rotationDiff));
+    this.rotation.y += Math.sign(rotationDiff) * Math.min(Math.abs(rotationDiff), this.turnSpeed * 2 * deltaTime);
+    this.attackCooldown = Math.max(0, this.attackCooldown - deltaTime);
+    
+    if (direction.length() > reach) {
+      this.model.playAnimation(HumanAnimationState.RUN);
+      this.velocity.set(0, 0, -this.runSpeed * deltaTime);
+      this.velocity.applyEuler(this.rotation);
+      this.position.add(this.velocity);
+      this.position.y = this.environment.getGroundHeight(this.position.x, this.position.z);
+      this.avoidObstacles(deltaTime);
+    } else {
+      this.model.playAnimation(HumanAnimationState.SHOOT);
+      if (this.attackCooldown === 0) {
+        this.attackCooldown = this.attackInterval;
+        if (target instanceof Pedestrian) {
+          target.takeDamage(this.definition.damage, this.position);
+        } else if (targetVehicle) {
+          targetVehicle.damageVehicle(this.definition.damage, this.position);
+        } else {
+          target.takeDamage(this.definition.damage);
+        }
+      }
+    }
+  }
+  
+  /**
+   * Go after someone: run at them and punch them until they are down or get away
+   */
+  private attack(target: Player | Pedestrian): void {
+    this.attackTarget = target;
+    this.attackCooldown = 0;
+    this.setState(PedestrianState.ATTACKING);
+  }
+  
   /**
    * Set the pedestrian state and reset state timer
    */
@@ -337,6 +539,16 @@ export class Pedestrian {
     // Don't change if same state
     if (this.state === newState) return;
     
+    // Stand back up after being knocked down
+    if (this.state === PedestrianState.KNOCKED_DOWN) {
+      this.rotation.x = 0;
+    }
+    
+    // Interrupted getting into a car: leave it for someone else
+    if (this.state === PedestrianState.ENTERING_VEHICLE && newState !== PedestrianState.IN_VEHICLE) {
+      this.releaseVehicle();
+    }
+    
     this.state = newState;
     this.stateTime = 0;
     
@@ -363,37 +575,320 @@ export class Pedestrian {
       case PedestrianState.EXITING_VEHICLE:
         this.model.playAnimation(HumanAnimationState.EXIT_VEHICLE);
         break;
+      case PedestrianState.IN_VEHICLE:
+        this.model.playAnimation(HumanAnimationState.DRIVING);
+        break;
+      case PedestrianState.KNOCKED_DOWN:
+        this.model.playAnimation(HumanAnimationState.IDLE); // Lying flat, see knockDown()
+        break;
+      case PedestrianState.PURSUING:
+        this.model.playAnimation(HumanAnimationState.RUN);
+        break;
+      case PedestrianState.ATTACKING:
+        this.model.playAnimation(HumanAnimationState.RUN); // Punching once close, see updateAttackingState()
+        break;
+      case PedestrianState.DEAD:
+        this.model.playAnimation(HumanAnimationState.IDLE); // Lying flat, see takeDamage()
+        break;
     }
   }
   
   /**
-   * Find a new random destination to walk to
+   * Knock the pedestrian to the ground; they get up after a few seconds and flee
+   * @param from Position of whatever hit them
+   */
+  public knockDown(from: THREE.Vector3): void {
+    if (this.state === PedestrianState.DEAD) return;
+    
+    this.targetPosition = from.clone();
+    this.pursuitTarget = null;
+    this.attackTarget = null;
+    this.rotation.x = -Math.PI / 2;
+    this.setState(PedestrianState.KNOCKED_DOWN);
+  }
+  
+  /**
+   * Whether the pedestrian is on the ground, knocked down or dead
+   */
+  public isKnockedDown(): boolean {
+    return this.state === PedestrianState.KNOCKED_DOWN || this.state === PedestrianState.DEAD;
+  }
+  
+  /**
+   * Take damage from a weapon; the pedestrian panics and runs, or dies at zero health.
+   * Those already in a fight keep fighting.
+   * @param from Position the attack came from
+   */
+  public takeDamage(amount: number, from: THREE.Vector3): void {
+    if (this.state === PedestrianState.DEAD) return;
+    
+    this.health -= amount;
+    this.pursuitTarget = null;
+    this.targetPosition = from.clone();
+    
+    if (this.health <= 0) {
+      this.health = 0;
+      this.setState(PedestrianState.DEAD);
+      this.rotation.x = -Math.PI / 2;
+      this.renderTransform.snap(this.position, this.rotation); // No more updates to interpolate
+    } else if (this.state !== PedestrianState.KNOCKED_DOWN && this.state !== PedestrianState.ATTACKING) {
+      this.setState(PedestrianState.PANICKING);
+    }
+  }
+  
+  public isDead(): boolean {
+    return this.state === PedestrianState.DEAD;
+  }
+  
+  /**
+   * Get out of a car and onto the street beside it. Pulled out by a carjacker,
+   * they are thrown to the ground; back up, they fight or run, as their type is inclined.
+   */
+  public leaveVehicle(vehicle: Vehicle, carjacker: Player | null): void {
+    this.rotation.y = vehicle.getRotation().y;
+    if (carjacker) {
+      this.grudge = this.random.chance(this.definition.aggression) ? carjacker : null;
+      this.knockDown(vehicle.getPosition());
+    } else {
+      this.setState(PedestrianState.EXITING_VEHICLE);
+    }
+  }
+  
+  /**
+   * The car the pedestrian has got into, once they are inside
+   */
+  public getVehicle(): Vehicle | null {
+    return this.state === PedestrianState.IN_VEHICLE ? this.targetVehicle : null;
+  }
+  
+  public getHealth(): number {
+    return this.health;
+  }
+  
+  /**
+   * Chase the player (police officers), or stop chasing with null
+   */
+  public setPursuitTarget(player: Player | null): void {
+    this.pursuitTarget = player;
+    if (player) {
+      this.setState(PedestrianState.PURSUING);
+    } else if (this.state === PedestrianState.PURSUING) {
+      this.setState(PedestrianState.IDLE);
+    }
+  }
+  
+  public isPursuing(): boolean {
+    return this.state === PedestrianState.PURSUING;
+  }
+  
+  public isAttacking(): boolean {
+    return this.state === PedestrianState.ATTACKING;
+  }
+  
+  /**
+   * Whether the pedestrian is part-way into or out of a car
+   */
+  public isChangingVehicle(): boolean {
+    return this.state === PedestrianState.ENTERING_VEHICLE || this.state === PedestrianState.EXITING_VEHICLE;
+  }
+  
+  public getType(): PedestrianType {
+    return this.definition.type;
+  }
+  
+  public getFaction(): Faction {
+    return this.definition.faction;
+  }
+  
+  /**
+   * Whether the pedestrian is going about their business, free to take notice of others
+   */
+  private isCalm(): boolean {
+    return this.state === PedestrianState.IDLE
+      || this.state === PedestrianState.WALKING
+      || this.state === PedestrianState.WAITING_TO_CROSS;
+  }
+  
+  /**
+   * Find a new random destination to walk to, somewhere along the sidewalks
    */
   private findNewDestination(): void {
+    this.targetVehicle = null;
+    
     // Pick a random point within reasonable distance
-    const distance = 10 + Math.random() * 20;
-    const angle = Math.random() * Math.PI * 2;
+    const distance = this.random.range(10, 60);
+    const angle = this.random.range(0, Math.PI * 2);
     
     const targetX = this.position.x + Math.sin(angle) * distance;
     const targetZ = this.position.z + Math.cos(angle) * distance;
+    const around = new THREE.Vector3(targetX, 0, targetZ);
     
-    this.targetPosition = new THREE.Vector3(targetX, 0, targetZ);
-    this.path = [this.targetPosition]; // Simple direct path
+    this.planRoute(this.environment.getSidewalkNetwork().getRandomPoint(around, 10, this.random) ?? around);
+  }
+  
+  /**
+   * Move straight along the route towards the current waypoint, moving on to the next on reaching it
+   * @param distance How far to go this step
+   */
+  private followPathSimple(distance: number): void {
+    if (!this.targetPosition) {
+      this.setState(PedestrianState.IDLE);
+      return;
+    }
+    
+    const toTarget = new THREE.Vector3().subVectors(this.targetPosition, this.position).setY(0);
+    if (toTarget.length() <= distance) {
+      this.position.set(this.targetPosition.x, this.position.y, this.targetPosition.z);
+      if (this.currentPathIndex < this.path.length - 1) {
+        this.currentPathIndex++;
+        this.targetPosition = this.path[this.currentPathIndex];
+      } else if (this.targetVehicle) {
+        this.getIntoVehicle();
+      } else {
+        this.setState(PedestrianState.IDLE);
+      }
+    } else {
+      this.position.addScaledVector(toTarget.normalize(), distance);
+      this.rotation.y = Math.atan2(-toTarget.x, -toTarget.z);
+    }
+    
+    // Ensure pedestrian stays on ground
+    this.position.y = this.environment.getGroundHeight(this.position.x, this.position.z);
+  }
+  
+  /**
+   * Pick somewhere along the sidewalks away from a threat to run to
+   */
+  private fleeFrom(threat: THREE.Vector3): void {
+    this.targetVehicle = null;
+    const away = new THREE.Vector3().subVectors(this.position, threat).setY(0);
+    if (away.lengthSq() < 0.01) {
+      away.set(Math.sin(this.rotation.y), 0, Math.cos(this.rotation.y));
+    }
+    const around = this.position.clone().addScaledVector(away.normalize(), this.fleeDistance);
+    
+    this.planRoute(this.environment.getSidewalkNetwork().getRandomPoint(around, 10, this.random) ?? around);
+  }
+  
+  /**
+   * Plan a route along the sidewalks and over crosswalks, or straight there if we are far from any
+   */
+  private planRoute(destination: THREE.Vector3): void {
+    this.path = this.environment.getSidewalkNetwork().findPath(this.position, destination) ?? [destination.clone()];
+    
+    // Walking up to a car: the last stretch off the sidewalk to its door
+    if (this.targetVehicle) {
+      this.path.push(this.targetVehicle.getDoorPosition());
+    }
     this.currentPathIndex = 0;
+    this.targetPosition = this.path[0];
+    this.blockedTime = 0;
+  }
+  
+  /**
+   * Pick a parked car nearby to walk up to and drive off in
+   * @returns Whether there was one free
+   */
+  private headForParkedVehicle(): boolean {
+    // Parked cars are registered on the scene by the World, for the player to find too
+    const parked = (this.scene.userData.vehicles as Vehicle[] | undefined) ?? [];
+    const vehicle = parked.find(candidate => !candidate.isOccupied && !candidate.isWrecked()
+      && candidate.getPosition().distanceTo(this.position) < this.carSearchRadius);
+    if (!vehicle) return false;
+    
+    this.targetVehicle = vehicle;
+    this.planRoute(vehicle.getDoorPosition());
+    return true;
+  }
+  
+  /**
+   * Open the door of the car we walked up to and get in, unless someone beat us to it
+   */
+  private getIntoVehicle(): void {
+    const vehicle = this.targetVehicle;
+    const door = vehicle?.getDoorPosition();
+    if (!vehicle || !door || vehicle.isOccupied || vehicle.isWrecked()
+        || Math.hypot(door.x - this.position.x, door.z - this.position.z) > this.doorReach) {
+      this.targetVehicle = null;
+      this.setState(PedestrianState.IDLE);
+      return;
+    }
+    
+    vehicle.enterVehicle(); // Opens the door, and keeps anyone else out
+    this.rotation.y = vehicle.getRotation().y;
+    this.setState(PedestrianState.ENTERING_VEHICLE);
+  }
+  
+  /**
+   * Give up on the car we were getting into, getting back out of it
+   */
+  private releaseVehicle(): void {
+    if (this.targetVehicle) {
+      this.targetVehicle.exitVehicle();
+      this.targetVehicle = null;
+    }
+  }
+  
+  /**
+   * Plan again when something keeps us from getting anywhere or has pushed us off the route
+   * @param start Where we were before this step's move
+   * @returns Whether we gave up on the route
+   */
+  private checkRouteBlocked(deltaTime: number, start: THREE.Vector3, speed: number): boolean {
+    // Headway towards the next waypoint, not just movement: sliding along a wall gets us nowhere
+    if (this.targetPosition) {
+      const before = Math.hypot(this.targetPosition.x - start.x, this.targetPosition.z - start.z);
+      const after = Math.hypot(this.targetPosition.x - this.position.x, this.targetPosition.z - this.position.z);
+      this.blockedTime = before - after < speed * deltaTime * 0.3 ? this.blockedTime + deltaTime : 0;
+    }
+    if (this.blockedTime > this.maxBlockedTime) {
+      // Somewhere else to go
+      this.findNewDestination();
+      return true;
+    }
+    
+    if (this.currentPathIndex > 0 && this.targetPosition) {
+      const leg = new THREE.Line3(this.path[this.currentPathIndex - 1], this.targetPosition);
+      const onRoute = leg.closestPointToPoint(this.position, true, new THREE.Vector3());
+      if (Math.hypot(onRoute.x - this.position.x, onRoute.z - this.position.z) > this.offRouteDistance) {
+        // The same place, a new way
+        this.planRoute(this.path[this.path.length - 1]);
+        return true;
+      }
+    }
+    return false;
   }
   
   /**
    * Check if the pedestrian needs to wait before crossing a road
    */
   private checkForRoadCrossing(): void {
-    // This is a simplified version - in a real implementation,
-    // you would check if the pedestrian is about to cross a road
-    // and if there are vehicles approaching
+    // Only at the curb: off the road, with the road a step ahead
+    const network = this.environment.getRoadNetwork();
+    const heading = new THREE.Vector3(this.velocity.x, 0, this.velocity.z).normalize();
+    const ahead = this.position.clone().add(heading);
+    if (network.findRoadAt(this.position) || !network.findRoadAt(ahead)) {
+      this.crossingCleared = false;
+      return;
+    }
+    
+    // Decide once per curb
+    if (this.crossingCleared) return;
+    this.crossingCleared = true;
+    this.waitTime = 0;
     
-    // For now, just randomly decide to wait sometimes
-    if (Math.random() < 0.1) {
+    const walk = this.environment.getTrafficLights().canWalk(this.position, heading);
+    if (walk === false) {
+      // At a crosswalk: wait for the walk signal
+      this.waitingForSignal = true;
+      this.crossingDirection.copy(heading);
+      this.maxWaitTime = this.signalWaitLimit;
+      this.setState(PedestrianState.WAITING_TO_CROSS);
+    } else if (walk === null && this.random.chance(0.1)) {
+      // Crossing mid-block: sometimes stop to look for traffic
+      this.waitingForSignal = false;
+      this.maxWaitTime = this.random.range(2, 5); // Wait 2-5 seconds
       this.setState(PedestrianState.WAITING_TO_CROSS);
-      this.maxWaitTime = 2 + Math.random() * 3; // Wait 2-5 seconds
     }
   }
   
@@ -401,39 +896,35 @@ export class Pedestrian {
    * Avoid obstacles in the path
    */
   private avoidObstacles(deltaTime: number): void {
-    // Get obstacles from environment
-    const obstacles = this.environment.getObstacles();
+    // Where we'll be in the near future
+    const ahead = new THREE.Vector3(this.velocity.x, 0, this.velocity.z).normalize();
+    this.capsule.base.copy(this.position);
+    const futureCapsule = this.capsule.clone();
+    futureCapsule.base.add(ahead);
+    
+    // Only the obstacles between here and there
+    const obstacles = this.environment.queryObstacleBoxes(this.capsule.getBounds().union(futureCapsule.getBounds()));
+    
+    // Step out of anything we have already walked into, the shortest way
+    for (const obstacle of obstacles) {
+      const contact = obstacle.intersectsCapsule(this.capsule);
+      if (contact) {
+        this.position.addScaledVector(contact.normal, contact.depth);
+        this.capsule.base.copy(this.position);
+        futureCapsule.base.copy(this.position).add(ahead);
+      }
+    }
     
     // Check for potential collisions
     for (const obstacle of obstacles) {
-      // Create a prediction of where we'll be in the near future
-      const futurePosition = this.position.clone().add(
-        this.velocity.clone().normalize().multiplyScalar(1.0)
-      );
-      
-      // Create a temporary box for the future position
-      const futureBox = this.collider.clone();
-      futureBox.translate(new THREE.Vector3(
-        futurePosition.x - this.position.x,
-        0,
-        futurePosition.z - this.position.z
-      ));
-      
-      // Check if we'll collide with this obstacle
-      if (futureBox.intersectsBox(obstacle)) {
+      const contact = obstacle.intersectsCapsule(futureCapsule);
+      if (contact) {
         // Calculate avoidance direction (perpendicular to movement)
         const avoidDir = new THREE.Vector3(-this.velocity.z, 0, this.velocity.x);
         avoidDir.normalize();
         
-        // Decide which side to avoid to (left or right)
-        const obstacleCenter = new THREE.Vector3();
-        obstacle.getCenter(obstacleCenter);
-        
-        const toObstacle = new THREE.Vector3();
-        toObstacle.subVectors(obstacleCenter, this.position);
-        
-        // Dot product to determine which side the obstacle is on
-        if (avoidDir.dot(toObstacle) < 0) {
+        // Veer the way the obstacle's surface faces
+        if (avoidDir.dot(contact.normal) < 0) {
           avoidDir.negate(); // Avoid to the other side
         }
         
@@ -455,12 +946,22 @@ export class Pedestrian {
   }
   
   /**
-   * Check for player proximity and react accordingly
+   * Check for player proximity and react as our faction feels about them
    */
   private checkPlayerProximity(player: Player): void {
+    const relationship = getRelationship(this.definition.faction, Faction.PLAYER);
+    if (relationship === Relationship.RESPECT) return; // Not bothered by them
+    
     const playerPos = player.getPosition();
     const distanceToPlayer = this.position.distanceTo(playerPos);
     
+    // Those who hate the player go for them when they come by on foot
+    if (relationship === Relationship.HATE && this.isCalm() && distanceToPlayer < this.attackRadius
+        && !player.isInsideVehicle() && !player.getHealth().isDead()) {
+      this.attack(player);
+      return;
+    }
+    
     // React based on distance and player behavior
     if (distanceToPlayer < this.fleeRadius) {
       // Player is very close, check if they're in a vehicle
@@ -470,10 +971,33 @@ export class Pedestrian {
         this.setState(PedestrianState.PANICKING);
       }
       // If player is nearby, there's a chance the pedestrian might move away
-      else if (!player.isInsideVehicle() && Math.random() < 0.2) {
+      else if (relationship === Relationship.NEUTRAL && this.state !== PedestrianState.RUNNING && this.random.chance(0.2)) {
         // Player is coming toward pedestrian
-        this.targetPosition = playerPos.clone();
+        this.fleeFrom(playerPos);
+        this.setState(PedestrianState.RUNNING);
+      }
+    }
+  }
+  
+  /**
+   * Attack rivals our faction hates; keep away from fights we have no part in
+   */
+  private checkPedestrianProximity(pedestrians: SpatialHash<Pedestrian>): void {
+    if (!this.isCalm()) return;
+    
+    for (const other of pedestrians.queryRadius(this.position, this.attackRadius)) {
+      if (other === this || other.isKnockedDown()) continue;
+      
+      const distance = this.position.distanceTo(other.getPosition());
+      const relationship = getRelationship(this.definition.faction, other.getFaction());
+      if (relationship === Relationship.HATE && distance < this.attackRadius) {
+        this.attack(other);
+        return;
+      }
+      if (relationship === Relationship.NEUTRAL && other.isAttacking() && distance < this.fleeRadius) {
+        this.fleeFrom(other.getPosition());
         this.setState(PedestrianState.RUNNING);
+        return;
       }
     }
   }
@@ -481,8 +1005,8 @@ export class Pedestrian {
   /**
    * Check for vehicle proximity and react accordingly
    */
-  private checkVehicleProximity(vehicles: Vehicle[]): void {
-    for (const vehicle of vehicles) {
+  private checkVehicleProximity(vehicles: SpatialHash<Vehicle>): void {
+    for (const vehicle of vehicles.queryRadius(this.position, this.fleeRadius)) {
       const vehiclePos = vehicle.getPosition();
       const distanceToVehicle = this.position.distanceTo(vehiclePos);
       
@@ -514,44 +1038,32 @@ export class Pedestrian {
    * This method skips complex AI calculations and physics for better performance
    */
   public updateSimple(deltaTime: number): void {
+    // Only wandering about can be approximated; the rest waits until we are close enough for a full update
+    if (FULL_UPDATE_STATES.includes(this.state)) return;
+    
     // Update state timer at a reduced rate
     this.stateTime += deltaTime;
     
     // Only perform minimal updates
     if (this.state === PedestrianState.WALKING || this.state === PedestrianState.RUNNING) {
-      // Continue current movement with simplified physics
+      // Keep to the planned route, waypoint to waypoint, without checking for obstacles
       const speed = this.state === PedestrianState.WALKING ? this.walkSpeed * 0.5 : this.runSpeed * 0.5;
-      
-      // Create direction vector from rotation
-      const direction = new THREE.Vector3(0, 0, -1);
-      direction.applyEuler(this.rotation);
-      
-      // Apply direction and speed to position
-      this.position.x += direction.x * speed * deltaTime;
-      this.position.z += direction.z * speed * deltaTime;
-      
-      // Ensure pedestrian stays on ground
-      this.position.y = this.environment.getGroundHeight(this.position.x, this.position.z);
-      
-      // Update model position and rotation
-      this.model.setPosition(this.position);
-      
-      // Randomly change direction occasionally
-      if (Math.random() < 0.01) {
-        this.rotation.y += (Math.random() - 0.5) * Math.PI;
-        this.model.setRotation(this.rotation);
-      }
-    } else if (Math.random() < 0.005) {
+      this.followPathSimple(speed * deltaTime);
+    } else if (this.random.chance(0.005)) {
       // Occasionally change state between idle and walking
       if (this.state === PedestrianState.IDLE) {
+        this.findNewDestination();
         this.setState(PedestrianState.WALKING);
       } else {
         this.setState(PedestrianState.IDLE);
       }
     }
     
+    // Record the new transform for render interpolation
+    this.renderTransform.capture(this.position, this.rotation);
+    
     // Update collider less frequently
-    if (Math.random() < 0.2) {
+    if (this.random.chance(0.2)) {
       this.updateCollider();
     }
   }
@@ -563,6 +1075,16 @@ export class Pedestrian {
     return this.position.clone();
   }
   
+  /**
+   * Shove the pedestrian across the ground, e.g. out from under a car
+   */
+  public push(offset: THREE.Vector3): void {
+    this.position.x += offset.x;
+    this.position.z += offset.z;
+    this.position.y = this.environment.getGroundHeight(this.position.x, this.position.z);
+    this.updateCollider();
+  }
+  
   /**
    * Get the pedestrian's collider
    */
@@ -570,10 +1092,22 @@ export class Pedestrian {
     return this.collider;
   }
   
+  /**
+   * Get the pedestrian's body shape, standing where they are
+   */
+  public getCapsule(): Capsule {
+    return this.capsule.set(this.position);
+  }
+  
   /**
    * Clean up resources
    */
   public dispose(): void {
+    // Leave a car we were getting into free
+    if (this.state === PedestrianState.ENTERING_VEHICLE) {
+      this.releaseVehicle();
+    }
+    
     // Remove model from scene
     if (this.model && this.model.getMesh()) {
       this.scene.remove(this.model.getMesh()!);
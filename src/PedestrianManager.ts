@@ -3,17 +3,24 @@ import { Pedestrian } from './Pedestrian';
 import { Environment } from './Environment';
 import { Player } from './Player';
 import { Vehicle } from './Vehicle';
+import { RandomStream } from './utils/Random';
+import { SpatialHash } from './physics/SpatialHash';
+import { PedestrianType, pickPedestrianType } from './PedestrianType';
 
 /**
  * PedestrianManager handles the creation, updating, and management of
  * pedestrians in the game world. It spawns pedestrians in appropriate
- * locations and ensures they behave realistically.
+ * locations, each district with its own mix of people, and ensures they
+ * behave realistically.
  */
 export class PedestrianManager {
   private pedestrians: Pedestrian[] = [];
+  private pedestrianGrid: SpatialHash<Pedestrian> = new SpatialHash(10); // This step, by where they stand
+  private drivers: { vehicle: Vehicle, driver: PedestrianType }[] = []; // Got into parked cars, waiting to join the traffic
   private maxPedestrians = 15; // Maximum number of pedestrians to spawn
   private spawnRadius = 50; // Radius around player to spawn pedestrians
   private despawnRadius = 70; // Radius beyond which pedestrians are removed
+  private corpseClearRadius = 30; // Radius beyond which the dead are cleared away at cleanup
   private minSpawnDistance = 15; // Minimum distance from player to spawn
   
   // Spawn timing
@@ -22,7 +29,8 @@ export class PedestrianManager {
   
   constructor(
     private scene: THREE.Scene,
-    private environment: Environment
+    private environment: Environment,
+    private random: RandomStream // 'peds' stream, shared with the pedestrians we spawn
   ) {}
   
   /**
@@ -36,7 +44,7 @@ export class PedestrianManager {
   /**
    * Update all pedestrians
    */
-  public update(deltaTime: number, player: Player, vehicles: Vehicle[]): void {
+  public update(deltaTime: number, player: Player, vehicles: SpatialHash<Vehicle>): void {
     // Update spawn timer
     this.timeSinceLastSpawn += deltaTime;
     
@@ -49,6 +57,12 @@ export class PedestrianManager {
     // Get player position once for distance calculations
     const playerPosition = player.getPosition();
     
+    // Where everyone stands, for sizing each other up
+    this.pedestrianGrid.clear();
+    for (const pedestrian of this.pedestrians) {
+      this.pedestrianGrid.insertPoint(pedestrian, pedestrian.getPosition());
+    }
+    
     // Update existing pedestrians with distance-based optimization
     for (let i = this.pedestrians.length - 1; i >= 0; i--) {
       const pedestrian = this.pedestrians[i];
@@ -59,23 +73,64 @@ export class PedestrianManager {
         // Remove pedestrian
         pedestrian.dispose();
         this.pedestrians.splice(i, 1);
+        continue;
+      } else if (pedestrian.isChangingVehicle()) {
+        // Getting in or out of a car - full update however far away, so they see it through
+        pedestrian.update(deltaTime, player, vehicles, this.pedestrianGrid);
       } else if (distanceToPlayer > 30) {
         // Very distant pedestrians - update at reduced rate (every 3rd frame)
-        if (Math.random() < 0.3) {
+        if (this.random.chance(0.3)) {
           pedestrian.updateSimple(deltaTime);
         }
       } else if (distanceToPlayer > 15) {
         // Distant pedestrians - update at reduced rate (every other frame)
-        if (Math.random() < 0.5) {
-          pedestrian.update(deltaTime, player, vehicles);
+        if (this.random.chance(0.5)) {
+          pedestrian.update(deltaTime, player, vehicles, this.pedestrianGrid);
         }
       } else {
         // Nearby pedestrians - full update
-        pedestrian.update(deltaTime, player, vehicles);
+        pedestrian.update(deltaTime, player, vehicles, this.pedestrianGrid);
+      }
+      
+      // Those who got into a car leave the sidewalks for the road
+      const vehicle = pedestrian.getVehicle();
+      if (vehicle) {
+        this.drivers.push({ vehicle, driver: pedestrian.getType() });
+        pedestrian.dispose();
+        this.pedestrians.splice(i, 1);
       }
     }
   }
   
+  /**
+   * Take the cars pedestrians have got into since last asked, with who is driving, to hand over to the traffic
+   */
+  public collectDrivers(): { vehicle: Vehicle, driver: PedestrianType }[] {
+    const drivers = this.drivers;
+    this.drivers = [];
+    return drivers;
+  }
+  
+  /**
+   * Put someone getting out of a car on the street beside it
+   * @param carjacker Whoever pulled them out, if anyone
+   */
+  public addDriver(vehicle: Vehicle, driver: PedestrianType, carjacker: Player | null): Pedestrian {
+    const pedestrian = new Pedestrian(this.scene, this.environment, this.random, vehicle.getDoorPosition(), vehicle.getRotation().y, driver);
+    pedestrian.leaveVehicle(vehicle, carjacker);
+    this.pedestrians.push(pedestrian);
+    return pedestrian;
+  }
+  
+  /**
+   * Move rendered pedestrians between the last two simulation steps
+   */
+  public interpolate(alpha: number): void {
+    for (const pedestrian of this.pedestrians) {
+      pedestrian.interpolate(alpha);
+    }
+  }
+  
   /**
    * Spawn initial pedestrians around the world
    */
@@ -90,9 +145,9 @@ export class PedestrianManager {
     ];
     
     for (const position of initialPositions) {
-      const rotation = Math.random() * Math.PI * 2;
-      const pedestrian = new Pedestrian(this.scene, this.environment, position, rotation);
-      this.pedestrians.push(pedestrian);
+      // Stand them on the nearest sidewalk
+      const onSidewalk = this.environment.getSidewalkNetwork().findNearestPoint(position, 20)?.point ?? position;
+      this.spawnPedestrian(onSidewalk);
     }
   }
   
@@ -113,27 +168,35 @@ export class PedestrianManager {
     if (!spawnPos) return;
     
     // Create new pedestrian
-    const rotation = Math.random() * Math.PI * 2;
-    const pedestrian = new Pedestrian(this.scene, this.environment, spawnPos, rotation);
-    this.pedestrians.push(pedestrian);
+    this.spawnPedestrian(spawnPos);
   }
   
   /**
-   * Find a suitable position to spawn a pedestrian
+   * Create a pedestrian of the kind found in the district they stand in
+   */
+  private spawnPedestrian(position: THREE.Vector3): void {
+    const type = pickPedestrianType(this.environment.getDistrictAt(position), this.random);
+    const rotation = this.random.range(0, Math.PI * 2);
+    this.pedestrians.push(new Pedestrian(this.scene, this.environment, this.random, position, rotation, type));
+  }
+  
+  /**
+   * Find a suitable position on a sidewalk to spawn a pedestrian
    */
   private findSpawnPosition(playerPos: THREE.Vector3): THREE.Vector3 | null {
     // Try several times to find a good position
     for (let attempt = 0; attempt < 10; attempt++) {
       // Random angle and distance
-      const angle = Math.random() * Math.PI * 2;
-      const distance = this.minSpawnDistance + Math.random() * (this.spawnRadius - this.minSpawnDistance);
+      const angle = this.random.range(0, Math.PI * 2);
+      const distance = this.random.range(this.minSpawnDistance, this.spawnRadius);
       
-      // Calculate position
+      // Calculate position, on a stretch of sidewalk near there
       const x = playerPos.x + Math.sin(angle) * distance;
       const z = playerPos.z + Math.cos(angle) * distance;
-      const y = this.environment.getGroundHeight(x, z);
+      const point = this.environment.getSidewalkNetwork().getRandomPoint(new THREE.Vector3(x, 0, z), 10, this.random);
+      if (!point || Math.hypot(point.x - playerPos.x, point.z - playerPos.z) < this.minSpawnDistance) continue;
       
-      const position = new THREE.Vector3(x, y, z);
+      const position = new THREE.Vector3(point.x, this.environment.getGroundHeight(point.x, point.z), point.z);
       
       // Check if position is valid (not inside a building or obstacle)
       if (this.isValidSpawnPosition(position)) {
@@ -156,7 +219,7 @@ export class PedestrianManager {
     );
     
     // Check against obstacles
-    const obstacles = this.environment.getObstacles();
+    const obstacles = this.environment.queryObstacles(tempBox);
     for (const obstacle of obstacles) {
       if (tempBox.intersectsBox(obstacle)) {
         return false;
@@ -188,6 +251,19 @@ export class PedestrianManager {
     this.maxPedestrians = max;
   }
   
+  /**
+   * Clear away the dead the player has left behind
+   */
+  public removeExpired(playerPosition: THREE.Vector3): void {
+    for (let i = this.pedestrians.length - 1; i >= 0; i--) {
+      const pedestrian = this.pedestrians[i];
+      if (pedestrian.isDead() && pedestrian.getPosition().distanceTo(playerPosition) > this.corpseClearRadius) {
+        pedestrian.dispose();
+        this.pedestrians.splice(i, 1);
+      }
+    }
+  }
+  
   /**
    * Clean up resources
    */
@@ -196,5 +272,6 @@ export class PedestrianManager {
       pedestrian.dispose();
     }
     this.pedestrians = [];
+    this.drivers = [];
   }
 }
\ No newline at end of file
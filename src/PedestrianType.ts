@@ -0,0 +1,209 @@
+import { District } from './city/CityLayout';
+import { RandomStream } from './utils/Random';
+
+/**
+ * Sides people take: the player, ordinary folk, the law, the emergency
+ * services, and the gangs
+ */
+export enum Faction {
+  PLAYER = 'player',
+  CIVILIAN = 'civilian',
+  POLICE = 'police',
+  EMERGENCY = 'emergency',
+  MAFIA = 'mafia',
+  TRIADS = 'triads',
+  DIABLOS = 'diablos'
+}
+
+/**
+ * How one faction's members treat someone: attack them on sight, leave
+ * them be, or keep away from them when there is trouble
+ */
+export enum Relationship {
+  HATE = 'hate',
+  RESPECT = 'respect',
+  NEUTRAL = 'neutral'
+}
+
+/**
+ * Kinds of people on the streets
+ */
+export enum PedestrianType {
+  CIVILIAN_MALE = 'civilian_male',
+  CIVILIAN_FEMALE = 'civilian_female',
+  ELDERLY = 'elderly',
+  MAFIA = 'mafia',
+  TRIAD = 'triad',
+  DIABLO = 'diablo',
+  COP = 'cop',
+  SWAT = 'swat',
+  FBI = 'fbi',
+  ARMY = 'army',
+  MEDIC = 'medic',
+  FIREMAN = 'fireman'
+}
+
+/**
+ * Everything that sets one kind of pedestrian apart from another
+ */
+export interface PedestrianTypeDefinition {
+  type: PedestrianType;
+  modelId: string; // GTA3 model name
+  faction: Faction;
+  walkSpeed: number; // Metres per second
+  runSpeed: number;
+  panicSpeed: number;
+  damage: number; // Per punch
+  aggression: number; // Chance of fighting back when wronged, rather than running
+}
+
+/**
+ * Pedestrian stats, loosely after GTA3's peds.ide and pedstats.dat
+ */
+export const PEDESTRIAN_TYPES: Record<PedestrianType, PedestrianTypeDefinition> = {
+  [PedestrianType.CIVILIAN_MALE]: {
+    type: PedestrianType.CIVILIAN_MALE, modelId: 'male01', faction: Faction.CIVILIAN,
+    walkSpeed: 1.2, runSpeed: 4.0, panicSpeed: 5.0, damage: 3, aggression: 0.3
+  },
+  [PedestrianType.CIVILIAN_FEMALE]: {
+    type: PedestrianType.CIVILIAN_FEMALE, modelId: 'female01', faction: Faction.CIVILIAN,
+    walkSpeed: 1.1, runSpeed: 3.8, panicSpeed: 4.8, damage: 2, aggression: 0.1
+  },
+  [PedestrianType.ELDERLY]: {
+    type: PedestrianType.ELDERLY, modelId: 'oldmale01', faction: Faction.CIVILIAN,
+    walkSpeed: 0.8, runSpeed: 2.2, panicSpeed: 2.8, damage: 1, aggression: 0
+  },
+  [PedestrianType.MAFIA]: {
+    type: PedestrianType.MAFIA, modelId: 'gang01', faction: Faction.MAFIA,
+    walkSpeed: 1.1, runSpeed: 4.2, panicSpeed: 5.0, damage: 6, aggression: 0.8
+  },
+  [PedestrianType.TRIAD]: {
+    type: PedestrianType.TRIAD, modelId: 'gang03', faction: Faction.TRIADS,
+    walkSpeed: 1.2, runSpeed: 4.5, panicSpeed: 5.2, damage: 6, aggression: 0.9
+  },
+  [PedestrianType.DIABLO]: {
+    type: PedestrianType.DIABLO, modelId: 'gang05', faction: Faction.DIABLOS,
+    walkSpeed: 1.3, runSpeed: 4.5, panicSpeed: 5.2, damage: 6, aggression: 0.9
+  },
+  [PedestrianType.COP]: {
+    type: PedestrianType.COP, modelId: 'cop', faction: Faction.POLICE,
+    walkSpeed: 1.2, runSpeed: 4.0, panicSpeed: 5.0, damage: 8, aggression: 1
+  },
+  [PedestrianType.SWAT]: {
+    type: PedestrianType.SWAT, modelId: 'swat', faction: Faction.POLICE,
+    walkSpeed: 1.2, runSpeed: 4.5, panicSpeed: 5.0, damage: 10, aggression: 1
+  },
+  [PedestrianType.FBI]: {
+    type: PedestrianType.FBI, modelId: 'fbi', faction: Faction.POLICE,
+    walkSpeed: 1.3, runSpeed: 4.5, panicSpeed: 5.0, damage: 10, aggression: 1
+  },
+  [PedestrianType.ARMY]: {
+    type: PedestrianType.ARMY, modelId: 'army', faction: Faction.POLICE,
+    walkSpeed: 1.2, runSpeed: 4.2, panicSpeed: 5.0, damage: 12, aggression: 1
+  },
+  [PedestrianType.MEDIC]: {
+    type: PedestrianType.MEDIC, modelId: 'medic', faction: Faction.EMERGENCY,
+    walkSpeed: 1.3, runSpeed: 4.2, panicSpeed: 5.0, damage: 3, aggression: 0.1
+  },
+  [PedestrianType.FIREMAN]: {
+    type: PedestrianType.FIREMAN, modelId: 'fireman', faction: Faction.EMERGENCY,
+    walkSpeed: 1.2, runSpeed: 4.0, panicSpeed: 5.0, damage: 5, aggression: 0.4
+  }
+};
+
+/**
+ * How each faction treats the others; anyone left out is neutral. The Mafia
+ * count the player as one of their own, the other gangs want the player
+ * gone, and every gang fights the rest for its turf. The police stand their
+ * ground; wanted players are their business, see PoliceManager.
+ */
+const RELATIONSHIPS: Record<Faction, Partial<Record<Faction, Relationship>>> = {
+  [Faction.PLAYER]: {},
+  [Faction.CIVILIAN]: {},
+  [Faction.POLICE]: {
+    [Faction.PLAYER]: Relationship.RESPECT,
+    [Faction.CIVILIAN]: Relationship.RESPECT,
+    [Faction.POLICE]: Relationship.RESPECT,
+    [Faction.EMERGENCY]: Relationship.RESPECT,
+    [Faction.MAFIA]: Relationship.RESPECT,
+    [Faction.TRIADS]: Relationship.RESPECT,
+    [Faction.DIABLOS]: Relationship.RESPECT
+  },
+  [Faction.EMERGENCY]: {
+    [Faction.POLICE]: Relationship.RESPECT,
+    [Faction.EMERGENCY]: Relationship.RESPECT
+  },
+  [Faction.MAFIA]: {
+    [Faction.PLAYER]: Relationship.RESPECT,
+    [Faction.MAFIA]: Relationship.RESPECT,
+    [Faction.TRIADS]: Relationship.HATE,
+    [Faction.DIABLOS]: Relationship.HATE
+  },
+  [Faction.TRIADS]: {
+    [Faction.PLAYER]: Relationship.HATE,
+    [Faction.MAFIA]: Relationship.HATE,
+    [Faction.TRIADS]: Relationship.RESPECT,
+    [Faction.DIABLOS]: Relationship.HATE
+  },
+  [Faction.DIABLOS]: {
+    [Faction.PLAYER]: Relationship.HATE,
+    [Faction.MAFIA]: Relationship.HATE,
+    [Faction.TRIADS]: Relationship.HATE,
+    [Faction.DIABLOS]: Relationship.RESPECT
+  }
+};
+
+/**
+ * How members of one faction treat someone of another
+ */
+export function getRelationship(from: Faction, to: Faction): Relationship {
+  return RELATIONSHIPS[from][to] ?? Relationship.NEUTRAL;
+}
+
+/**
+ * Who walks the streets of each district, and how often, by weight
+ */
+export const DISTRICT_PEDESTRIANS: Record<District, Partial<Record<PedestrianType, number>>> = {
+  [District.DOWNTOWN]: {
+    [PedestrianType.CIVILIAN_MALE]: 8,
+    [PedestrianType.CIVILIAN_FEMALE]: 8,
+    [PedestrianType.ELDERLY]: 2,
+    [PedestrianType.COP]: 1,
+    [PedestrianType.MEDIC]: 1,
+    [PedestrianType.FIREMAN]: 1
+  },
+  [District.LITTLE_ITALY]: {
+    [PedestrianType.CIVILIAN_MALE]: 5,
+    [PedestrianType.CIVILIAN_FEMALE]: 5,
+    [PedestrianType.ELDERLY]: 3,
+    [PedestrianType.MAFIA]: 4,
+    [PedestrianType.TRIAD]: 1
+  },
+  [District.CHINATOWN]: {
+    [PedestrianType.CIVILIAN_MALE]: 5,
+    [PedestrianType.CIVILIAN_FEMALE]: 5,
+    [PedestrianType.ELDERLY]: 2,
+    [PedestrianType.TRIAD]: 4,
+    [PedestrianType.MAFIA]: 1
+  },
+  [District.HEPBURN_HEIGHTS]: {
+    [PedestrianType.CIVILIAN_MALE]: 5,
+    [PedestrianType.CIVILIAN_FEMALE]: 4,
+    [PedestrianType.ELDERLY]: 1,
+    [PedestrianType.DIABLO]: 5,
+    [PedestrianType.COP]: 1
+  }
+};
+
+/**
+ * Pick someone to walk the streets of a district, by the district's weights
+ */
+export function pickPedestrianType(district: District, random: RandomStream): PedestrianType {
+  const weights = Object.entries(DISTRICT_PEDESTRIANS[district]) as [PedestrianType, number][];
+  let roll = random.range(0, weights.reduce((total, [, weight]) => total + weight, 0));
+  for (const [type, weight] of weights) {
+    roll -= weight;
+    if (roll < 0) return type;
+  }
+  return weights[weights.length - 1][0];
+}
@@ -3,6 +3,12 @@ import { InputManager } from './InputManager';
 import { Environment } from './Environment';
 import { Vehicle } from './Vehicle';
 import { HumanModel, HumanAnimationState } from './models/HumanModel';
+import { InterpolatedTransform } from './utils/InterpolatedTransform';
+import { PlayerStats } from './PlayerStats';
+import { PlayerHealth } from './PlayerHealth';
+import { WeaponInventory } from './weapons/WeaponInventory';
+import { WantedLevel } from './police/WantedLevel';
+import { Capsule } from './physics/Capsule';
 
 export class Player {
   // Player model
@@ -17,7 +23,7 @@ export class Player {
   private gravity = 9.8;
   private jumpForce = 3.0; // Reduced from 5.0
   private jumpCooldown = 0.5; // seconds
-  private lastJumpTime = 0;
+  private lastJumpTime = -Infinity;
   private isOnGround = false;
   private isRunning = false;
   private _hasCollidedRecently = false;
@@ -27,7 +33,33 @@ export class Player {
   private isInVehicle = false;
   private isEnteringVehicle = false;
   private isExitingVehicle = false;
+  private isCarjacking = false; // Pulling the driver out of the car being entered
+  private carjackedVehicle: Vehicle | null = null; // Just taken from the traffic, for the World to hand over
   private nearbyVehicles: Vehicle[] = [];
+  private vehicleTransitionTimer = 0; // Seconds left in the enter/exit animation
+  
+  // Simulation time accumulated from update() calls, used for cooldowns
+  private elapsedTime = 0;
+  
+  // Render interpolation between simulation steps
+  private renderTransform: InterpolatedTransform;
+  
+  // Money and career statistics
+  private stats = new PlayerStats();
+  
+  // Police wanted level (0 = not wanted)
+  private wanted = new WantedLevel();
+  
+  // Health and armour, and what hurts
+  private health = new PlayerHealth();
+  private fallDamageSpeed = 8; // Landing faster than this hurts
+  private crashDamageSpeed = 6; // Losing this much speed in one step means the car crashed
+  private hitDamageSpeed = 4; // Vehicles moving faster than this hurt the player on foot
+  private hitCooldown = 0; // Seconds before another vehicle hit can hurt
+  
+  // Weapons carried, and the aim/shoot pose set by WeaponManager (null when not fighting)
+  private weapons = new WeaponInventory();
+  private combatAnimation: HumanAnimationState | null = null;
   
   // Getter for collision state
   public hasCollidedRecently(): boolean {
@@ -37,13 +69,23 @@ export class Player {
   // Method to set position (used by missions)
   public setPosition(position: THREE.Vector3): void {
     this.position.copy(position);
+    this.renderTransform.snap(this.position, this.rotation);
     if (this.humanModel) {
       this.humanModel.setPosition(this.position);
     }
   }
   
+  // Method to set facing direction (used when loading a save)
+  public setRotation(yaw: number): void {
+    this.rotation.set(0, yaw, 0);
+    this.renderTransform.snap(this.position, this.rotation);
+    if (this.humanModel) {
+      this.humanModel.setRotation(this.rotation);
+    }
+  }
+  
   // Collision properties
-  private collider: THREE.Box3;
+  private collider: Capsule;
   private height = 1.8;
   private radius = 0.4;
   
@@ -56,6 +98,7 @@ export class Player {
     this.position = new THREE.Vector3(0, this.height / 2, 0);
     this.velocity = new THREE.Vector3(0, 0, 0);
     this.rotation = new THREE.Euler(0, 0, 0, 'YXZ');
+    this.renderTransform = new InterpolatedTransform(this.position, this.rotation);
     
     // Create human model
     this.humanModel = new HumanModel(this.scene);
@@ -64,24 +107,30 @@ export class Player {
       this.humanModel.playAnimation(HumanAnimationState.IDLE);
     });
     
-    // Create collision box - temporary until model is loaded
-    const tempGeometry = new THREE.BoxGeometry(this.radius * 2, this.height, this.radius * 2);
-    const tempMesh = new THREE.Mesh(tempGeometry);
-    tempMesh.visible = false;
-    tempMesh.position.copy(this.position);
-    this.collider = new THREE.Box3().setFromObject(tempMesh);
-    
-    // Add temp mesh to scene for collision updates
-    this.scene.add(tempMesh);
+    // Create collision capsule around the player's simulated position
+    this.collider = new Capsule(this.radius, this.height);
+    this.updateCollider();
   }
   
-  public update(deltaTime: number): void {
+  /**
+   * @param traffic AI-driven vehicles, which can be carjacked
+   */
+  public update(deltaTime: number, traffic: Vehicle[] = []): void {
+    this.elapsedTime += deltaTime;
+    this.stats.addPlayTime(deltaTime);
+    
     // Check for vehicle entry/exit
-    this.handleVehicleInteraction();
+    this.handleVehicleInteraction(deltaTime, traffic);
+    
+    // Count down the grace period after being hit by a vehicle
+    this.hitCooldown = Math.max(0, this.hitCooldown - deltaTime);
+    this._hasCollidedRecently = this.hitCooldown > 0;
     
     if (this.isInVehicle && this.currentVehicle) {
       // When in vehicle, update vehicle and sync player position
+      const speedBefore = Math.abs(this.currentVehicle.getCurrentSpeed());
       this.currentVehicle.update(deltaTime, this.inputManager);
+      this.applyCrashDamage(speedBefore - Math.abs(this.currentVehicle.getCurrentSpeed()));
       
       // Sync player position with vehicle
       this.position.copy(this.currentVehicle.getPosition());
@@ -89,6 +138,13 @@ export class Player {
       
       // Hide player model when in vehicle
       this.humanModel.setVisible(false);
+    } else if (this.isCarjacking && this.currentVehicle) {
+      // Hang on at the driver's door, even if the car is still rolling
+      this.position.copy(this.currentVehicle.getDoorPosition());
+      this.position.y = this.environment.getGroundHeight(this.position.x, this.position.z) + this.height / 2;
+      this.rotation.set(0, this.currentVehicle.getRotation().y, 0);
+      this.velocity.set(0, 0, 0);
+      this.humanModel.setVisible(true);
     } else {
       // Normal player movement when not in vehicle
       // Handle player rotation from mouse input
@@ -103,19 +159,30 @@ export class Player {
       // Check for collisions and adjust position
       this.handleCollisions();
       
-      // Update model position and rotation
-      this.humanModel.setPosition(this.position);
-      this.humanModel.setRotation(this.rotation);
-      
       // Ensure player model is visible
       this.humanModel.setVisible(true);
     }
     
+    // Record the new transform for render interpolation
+    this.renderTransform.capture(this.position, this.rotation);
+    
     // Update collider
-    const playerMesh = this.humanModel.getMesh();
-    if (playerMesh) {
-      this.collider.setFromObject(playerMesh);
-    }
+    this.updateCollider();
+  }
+  
+  /**
+   * Stand the collision capsule at the player's simulated position
+   */
+  private updateCollider(): void {
+    this.collider.base.set(this.position.x, this.position.y - this.height / 2, this.position.z);
+  }
+  
+  /**
+   * Move the rendered model between the last two simulation steps
+   * @param alpha Blend factor between the previous (0) and current (1) step
+   */
+  public interpolate(alpha: number): void {
+    this.renderTransform.apply(this.humanModel.getMesh(), alpha);
   }
   
   private handleRotation(deltaTime: number): void {
@@ -155,14 +222,16 @@ export class Player {
       this.isRunning = moveDirection.z < 0 && moveDirection.length() > 0.8;
       
       // Update animation state based on movement
-      if (this.isRunning) {
+      if (this.combatAnimation) {
+        this.humanModel.playAnimation(this.combatAnimation);
+      } else if (this.isRunning) {
         this.humanModel.playAnimation(HumanAnimationState.RUN);
       } else {
         this.humanModel.playAnimation(HumanAnimationState.WALK);
       }
     } else {
       this.isRunning = false;
-      this.humanModel.playAnimation(HumanAnimationState.IDLE);
+      this.humanModel.playAnimation(this.combatAnimation ?? HumanAnimationState.IDLE);
     }
     
     // Apply player rotation to movement direction
@@ -176,12 +245,11 @@ export class Player {
     this.velocity.z = moveDirection.z;
     
     // Handle jumping with cooldown
-    const currentTime = performance.now() / 1000; // Convert to seconds
     if (this.inputManager.isKeyPressed(' ') && this.isOnGround && 
-        currentTime - this.lastJumpTime >= this.jumpCooldown) {
+        this.elapsedTime - this.lastJumpTime >= this.jumpCooldown) {
       this.velocity.y = this.jumpForce;
       this.isOnGround = false;
-      this.lastJumpTime = currentTime;
+      this.lastJumpTime = this.elapsedTime;
     }
     
     // Apply velocity to position
@@ -197,6 +265,11 @@ export class Player {
     // Check if player is on ground
     const groundY = this.environment.getGroundHeight(this.position.x, this.position.z);
     if (this.position.y <= groundY + this.height / 2) {
+      // Hard landings hurt
+      if (-this.velocity.y > this.fallDamageSpeed) {
+        this.takeDamage((-this.velocity.y - this.fallDamageSpeed) * 5);
+      }
+      
       this.position.y = groundY + this.height / 2;
       this.velocity.y = 0;
       this.isOnGround = true;
@@ -204,36 +277,102 @@ export class Player {
   }
   
   private handleCollisions(): void {
-    // Get obstacles from environment
-    const obstacles = this.environment.getObstacles();
+    this.updateCollider(); // To where the player has moved this step
     
-    // Check for collisions with each obstacle
-    for (const obstacle of obstacles) {
-      if (this.collider.intersectsBox(obstacle)) {
-        // Simple collision response - push player away from obstacle
-        const obstacleCenter = new THREE.Vector3();
-        obstacle.getCenter(obstacleCenter);
-        
-        const direction = new THREE.Vector3()
-          .subVectors(this.position, obstacleCenter)
-          .normalize();
+    // Push the player out of each obstacle they have walked into, the shortest way
+    for (const obstacle of this.environment.queryObstacleBoxes(this.collider.getBounds())) {
+      const contact = obstacle.intersectsCapsule(this.collider);
+      if (contact) {
+        this.position.x += contact.normal.x * contact.depth;
+        this.position.z += contact.normal.z * contact.depth;
+        this.updateCollider();
+      }
+    }
+  }
+  
+  /**
+   * Hurt the player when the car they are driving stops suddenly, or crashes into another
+   * @param speedLost Speed lost during the last step, or the impact speed of a crash
+   */
+  public applyCrashDamage(speedLost: number): void {
+    if (speedLost > this.crashDamageSpeed) {
+      this.takeDamage((speedLost - this.crashDamageSpeed) * 2);
+    }
+  }
+  
+  /**
+   * Hurt and shove the player when a moving vehicle runs into them on foot
+   */
+  public checkVehicleHits(vehicles: Vehicle[]): void {
+    if (this.isInVehicle || this.hitCooldown > 0) return;
+    
+    for (const vehicle of vehicles) {
+      const speed = Math.abs(vehicle.getCurrentSpeed());
+      if (speed <= this.hitDamageSpeed) continue;
+      
+      const contact = vehicle.getOrientedBox().intersectsCapsule(this.collider);
+      if (contact) {
+        this.takeDamage(speed * 2.5);
         
-        // Only adjust X and Z (horizontal movement)
-        direction.y = 0;
+        // Thrown clear of the vehicle
+        this.position.addScaledVector(contact.normal, contact.depth + 1.5);
+        this.updateCollider();
         
-        // Move player away from obstacle
-        this.position.x += direction.x * 0.1;
-        this.position.z += direction.z * 0.1;
+        this.hitCooldown = 1.0;
+        this._hasCollidedRecently = true;
+        return;
       }
     }
   }
   
+  /**
+   * Take damage from any source (crashes, falls, being hit or shot); armour absorbs it first
+   */
+  public takeDamage(amount: number): void {
+    this.health.damage(amount);
+  }
+  
+  /**
+   * Put the player back on their feet at a position with full health (after Wasted or Busted)
+   */
+  public respawn(position: THREE.Vector3, yaw: number): void {
+    this.exitVehicle();
+    this.isEnteringVehicle = false;
+    this.isExitingVehicle = false;
+    this.isCarjacking = false;
+    this.velocity.set(0, 0, 0);
+    this.setPosition(position.clone().setY(this.environment.getGroundHeight(position.x, position.z) + this.height / 2));
+    this.setRotation(yaw);
+    this.updateCollider();
+    this.health.reset();
+    this.hitCooldown = 0;
+  }
+  
   // Vehicle interaction
-  private lastInteractionTime = 0;
-  private readonly INTERACTION_COOLDOWN: number = 100; // Reduced for even more responsive interaction
+  private lastInteractionTime = -Infinity;
+  private readonly INTERACTION_COOLDOWN: number = 0.1; // Seconds; reduced for even more responsive interaction
+  private readonly VEHICLE_TRANSITION_TIME: number = 0.5; // Enter/exit animation time in seconds
+  private readonly CARJACK_TIME: number = 1.2; // Seconds to pull the driver out and get in
+  private readonly CARJACK_REACH: number = 4; // How close to a car in traffic the player must be to carjack it
 
-  private handleVehicleInteraction(): void {
-    const currentTime = Date.now();
+  private handleVehicleInteraction(deltaTime: number, traffic: Vehicle[]): void {
+    const currentTime = this.elapsedTime;
+    
+    // Finish an enter/exit animation once its time has elapsed
+    if (this.isEnteringVehicle || this.isExitingVehicle) {
+      this.vehicleTransitionTimer -= deltaTime;
+      if (this.vehicleTransitionTimer <= 0) {
+        if (this.isExitingVehicle) {
+          this.exitVehicle();
+          this.isExitingVehicle = false;
+        } else {
+          this.enterVehicle(this.currentVehicle!);
+          this.isEnteringVehicle = false;
+          this.isCarjacking = false;
+          this.hideVehicleInteractionPrompt();
+        }
+      }
+    }
     
     // Only process interaction if not currently in animation
     if (!this.isEnteringVehicle && !this.isExitingVehicle) {
@@ -244,25 +383,20 @@ export class Player {
         this.lastInteractionTime = currentTime;
         
         if (this.isInVehicle && this.currentVehicle) {
-          // Exit vehicle
+          // Exit vehicle; completed once the animation time has elapsed
           this.isExitingVehicle = true;
+          this.vehicleTransitionTimer = this.VEHICLE_TRANSITION_TIME;
           this.humanModel.playAnimation(HumanAnimationState.EXIT_VEHICLE);
-          
-          // After animation delay, complete the exit
-          setTimeout(() => {
-            this.exitVehicle();
-            this.isExitingVehicle = false;
-          }, 500); // Animation time in ms
         } else {
           // Update nearby vehicles and find the closest one
-          this.updateNearbyVehicles();
+          this.updateNearbyVehicles(traffic);
           
-          // Find the nearest unoccupied vehicle without distance limit
+          // Find the nearest unoccupied vehicle without distance limit, or car in traffic to carjack
           let nearestVehicle: Vehicle | null = null;
           let nearestDistance = Infinity;
           
           for (const vehicle of this.nearbyVehicles) {
-            if (!vehicle.isOccupied) {
+            if ((!vehicle.isOccupied || traffic.includes(vehicle)) && !vehicle.isWrecked()) {
               const distance = this.position.distanceTo(vehicle.getPosition());
               if (distance < nearestDistance) {
                 nearestDistance = distance;
@@ -271,37 +405,43 @@ export class Player {
             }
           }
           
-          // If we found a vehicle, enter it immediately
-          if (nearestVehicle) {
+          // If we found a vehicle, start entering it; completed once the animation time has elapsed
+          if (nearestVehicle && traffic.includes(nearestVehicle)) {
+            // Drag the driver out first; the World hands the car over from the traffic
+            this.currentVehicle = nearestVehicle;
+            this.carjackedVehicle = nearestVehicle;
+            this.isEnteringVehicle = true;
+            this.isCarjacking = true;
+            this.vehicleTransitionTimer = this.CARJACK_TIME;
+            this.humanModel.playAnimation(HumanAnimationState.CARJACK);
+          } else if (nearestVehicle) {
             this.currentVehicle = nearestVehicle;
             this.isEnteringVehicle = true;
+            this.vehicleTransitionTimer = this.VEHICLE_TRANSITION_TIME;
             this.humanModel.playAnimation(HumanAnimationState.ENTER_VEHICLE);
-            
-            // After animation delay, complete the entry
-            setTimeout(() => {
-              this.enterVehicle(this.currentVehicle!);
-              this.isEnteringVehicle = false;
-              this.hideVehicleInteractionPrompt();
-            }, 500); // Animation time in ms
           }
         }
       }
     }
   }
 
-  private updateNearbyVehicles(): void {
-    const vehicles = this.scene.children
-      .filter(child => child instanceof THREE.Group)
-      .map(group => {
-        const vehicle = this.scene.userData.vehicles?.find(
-          (v: Vehicle) => v.getMesh() === group
-        );
-        return vehicle || null;
-      })
-      .filter((v): v is Vehicle => v !== null);
+  private updateNearbyVehicles(traffic: Vehicle[]): void {
+    // Enterable vehicles are registered on the scene by the World; this works
+    // whether or not their models have been loaded
+    const vehicles = (this.scene.userData.vehicles as Vehicle[] | undefined) ?? [];
     
-    // Add all vehicles to the list without distance check
-    this.nearbyVehicles = vehicles;
+    // Add all vehicles to the list without distance check, and the traffic within reach
+    const reachable = traffic.filter(vehicle => this.position.distanceTo(vehicle.getPosition()) < this.CARJACK_REACH);
+    this.nearbyVehicles = [...vehicles, ...reachable];
+  }
+  
+  /**
+   * Take the car the player started carjacking since last asked, for the World to pull its driver out
+   */
+  public collectCarjackedVehicle(): Vehicle | null {
+    const vehicle = this.carjackedVehicle;
+    this.carjackedVehicle = null;
+    return vehicle;
   }
   
   // Visual feedback for vehicle interaction
@@ -358,7 +498,7 @@ export class Player {
   }
   
   public enterVehicle(vehicle: Vehicle): void {
-    if (!this.isInVehicle && vehicle && !vehicle.isOccupied) {
+    if (!this.isInVehicle && vehicle && !vehicle.isOccupied && !vehicle.isWrecked()) {
       this.currentVehicle = vehicle;
       this.isInVehicle = true;
       vehicle.enterVehicle();
@@ -375,13 +515,12 @@ export class Player {
   public exitVehicle(): void {
     if (this.isInVehicle && this.currentVehicle) {
       // Position player next to vehicle
-      const exitOffset = new THREE.Vector3(2, 0, 0);
-      exitOffset.applyEuler(this.currentVehicle.getRotation());
-      this.position.copy(this.currentVehicle.getPosition()).add(exitOffset);
+      this.position.copy(this.currentVehicle.getDoorPosition());
       
       // Make sure player is on the ground
       const groundY = this.environment.getGroundHeight(this.position.x, this.position.z);
       this.position.y = groundY + this.height / 2;
+      this.renderTransform.snap(this.position, this.rotation);
       
       // Update vehicle state
       this.currentVehicle.exitVehicle();
@@ -400,6 +539,20 @@ export class Player {
     return this.rotation.clone();
   }
   
+  /**
+   * Get the interpolated position last shown on screen (for the camera)
+   */
+  public getRenderPosition(): THREE.Vector3 {
+    return this.renderTransform.getRenderPosition();
+  }
+  
+  /**
+   * Get the interpolated rotation last shown on screen (for the camera)
+   */
+  public getRenderRotation(): THREE.Euler {
+    return this.renderTransform.getRenderRotation();
+  }
+  
   public getMesh(): THREE.Group | null {
     return this.humanModel.getMesh();
   }
@@ -412,6 +565,37 @@ export class Player {
     return this.currentVehicle;
   }
   
+  public getStats(): PlayerStats {
+    return this.stats;
+  }
+  
+  public getHealth(): PlayerHealth {
+    return this.health;
+  }
+  
+  public getWeapons(): WeaponInventory {
+    return this.weapons;
+  }
+  
+  /**
+   * Hold an aiming or shooting pose instead of the movement animation, or release it with null
+   */
+  public setCombatAnimation(state: HumanAnimationState | null): void {
+    this.combatAnimation = state;
+  }
+  
+  public getWanted(): WantedLevel {
+    return this.wanted;
+  }
+  
+  public getWantedLevel(): number {
+    return this.wanted.getLevel();
+  }
+  
+  public setWantedLevel(level: number): void {
+    this.wanted.setLevel(level);
+  }
+  
   public setCurrentVehicle(vehicle: Vehicle | null): void {
     this.currentVehicle = vehicle;
   }
@@ -0,0 +1,59 @@
+/**
+ * Most health and armour the player can have
+ */
+export const MAX_HEALTH = 100;
+export const MAX_ARMOUR = 100;
+
+/**
+ * PlayerHealth tracks the player's health and body armour. Armour soaks up
+ * damage before health does; the player is dead once health reaches zero.
+ */
+export class PlayerHealth {
+  private health = MAX_HEALTH;
+  private armour = 0;
+
+  /**
+   * Take damage, from armour first and then from health
+   */
+  public damage(amount: number): void {
+    if (amount <= 0 || this.isDead()) return;
+
+    const absorbed = Math.min(this.armour, amount);
+    this.armour -= absorbed;
+    this.health = Math.max(0, this.health - (amount - absorbed));
+  }
+
+  /**
+   * Restore health, up to MAX_HEALTH
+   */
+  public heal(amount: number): void {
+    this.health = Math.min(MAX_HEALTH, this.health + Math.max(0, amount));
+  }
+
+  /**
+   * Add body armour, up to MAX_ARMOUR
+   */
+  public addArmour(amount: number): void {
+    this.armour = Math.min(MAX_ARMOUR, this.armour + Math.max(0, amount));
+  }
+
+  /**
+   * Back to full health and no armour (after respawning)
+   */
+  public reset(): void {
+    this.health = MAX_HEALTH;
+    this.armour = 0;
+  }
+
+  public isDead(): boolean {
+    return this.health <= 0;
+  }
+
+  public getHealth(): number {
+    return this.health;
+  }
+
+  public getArmour(): number {
+    return this.armour;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Plain snapshot of the player's stats, as stored in save files
+ */
+export interface PlayerStatsData {
+  money: number;
+  missionsCompleted: number;
+  missionsFailed: number;
+  playTime: number; // Simulated seconds
+}
+
+/**
+ * PlayerStats tracks the player's money and career statistics
+ */
+export class PlayerStats {
+  private money = 0;
+  private missionsCompleted = 0;
+  private missionsFailed = 0;
+  private playTime = 0;
+
+  /**
+   * Add (or with a negative amount, spend) money; the balance never drops below zero
+   */
+  public addMoney(amount: number): void {
+    this.money = Math.max(0, this.money + amount);
+  }
+
+  public recordMissionCompleted(): void {
+    this.missionsCompleted++;
+  }
+
+  public recordMissionFailed(): void {
+    this.missionsFailed++;
+  }
+
+  public addPlayTime(seconds: number): void {
+    this.playTime += seconds;
+  }
+
+  public getMoney(): number {
+    return this.money;
+  }
+
+  public getMissionsCompleted(): number {
+    return this.missionsCompleted;
+  }
+
+  public getMissionsFailed(): number {
+    return this.missionsFailed;
+  }
+
+  public getPlayTime(): number {
+    return this.playTime;
+  }
+
+  /**
+   * Snapshot the stats for saving
+   */
+  public toData(): PlayerStatsData {
+    return {
+      money: this.money,
+      missionsCompleted: this.missionsCompleted,
+      missionsFailed: this.missionsFailed,
+      playTime: this.playTime
+    };
+  }
+
+  /**
+   * Restore the stats from a save
+   */
+  public fromData(data: PlayerStatsData): void {
+    this.money = data.money;
+    this.missionsCompleted = data.missionsCompleted;
+    this.missionsFailed = data.missionsFailed;
+    this.playTime = data.playTime;
+  }
+}
@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+import { Player } from './Player';
+import { MissionManager } from './missions/MissionManager';
+import { PoliceManager } from './police/PoliceManager';
+
+/**
+ * Why the player is being respawned
+ */
+export enum RespawnReason {
+  WASTED = 'wasted', // Killed; wakes up at a hospital
+  BUSTED = 'busted' // Arrested; released from a police station
+}
+
+/**
+ * A place the player can be respawned at
+ */
+interface RespawnPoint {
+  position: THREE.Vector3;
+  yaw: number;
+}
+
+// Hospitals and police stations, along the roads
+const HOSPITALS: RespawnPoint[] = [
+  { position: new THREE.Vector3(30, 0, -20), yaw: 0 },
+  { position: new THREE.Vector3(-220, 0, 18), yaw: Math.PI },
+  { position: new THREE.Vector3(18, 0, 240), yaw: Math.PI / 2 }
+];
+const POLICE_STATIONS: RespawnPoint[] = [
+  { position: new THREE.Vector3(-30, 0, 20), yaw: Math.PI },
+  { position: new THREE.Vector3(240, 0, -18), yaw: 0 },
+  { position: new THREE.Vector3(-18, 0, -230), yaw: -Math.PI / 2 }
+];
+
+// What each costs the player, after GTA3's hospital bill and bribe
+const HOSPITAL_BILL = 1000;
+const BAIL_PER_STAR = 500;
+
+/**
+ * RespawnManager handles the player being killed or arrested. When their
+ * health runs out it plays the "Wasted" sequence and respawns them at the
+ * nearest hospital; when officers reach them while wanted and on foot or
+ * stopped, it plays "Busted" and respawns them at the nearest police station.
+ * Either way the active mission fails, the player pays up and loses their
+ * weapons, and the wanted level is cleared.
+ */
+export class RespawnManager {
+  private reason: RespawnReason | null = null; // Sequence being played, if any
+  private sequenceTime = 0;
+  private sequenceLength = 3; // Seconds the Wasted/Busted message shows before respawning
+  private bustDistance = 2; // Officers this close arrest the player
+  private bustSpeed = 1; // The player counts as stopped below this speed
+
+  constructor(
+    private player: Player,
+    private missionManager: MissionManager,
+    private policeManager: PoliceManager
+  ) {}
+
+  /**
+   * Check whether the player has died or been caught, and play out the sequence
+   */
+  public update(deltaTime: number): void {
+    if (this.reason) {
+      this.sequenceTime += deltaTime;
+      if (this.sequenceTime >= this.sequenceLength) {
+        this.respawn(this.reason);
+      }
+      return;
+    }
+
+    if (this.player.getHealth().isDead()) {
+      this.startSequence(RespawnReason.WASTED);
+    } else if (this.isBusted()) {
+      this.startSequence(RespawnReason.BUSTED);
+    }
+  }
+
+  /**
+   * Whether an officer has reached the wanted player while they are on foot or stopped
+   */
+  private isBusted(): boolean {
+    if (this.player.getWantedLevel() === 0) return false;
+
+    const vehicle = this.player.isInsideVehicle() ? this.player.getCurrentVehicle() : null;
+    if (vehicle && Math.abs(vehicle.getCurrentSpeed()) > this.bustSpeed) return false;
+
+    const position = this.player.getPosition();
+    return this.policeManager.getOfficers().some(officer =>
+      !officer.isKnockedDown() && officer.getPosition().distanceTo(position) <= this.bustDistance
+    );
+  }
+
+  private startSequence(reason: RespawnReason): void {
+    this.reason = reason;
+    this.sequenceTime = 0;
+
+    // Pulled out of (or thrown from) the car
+    this.player.exitVehicle();
+
+    this.missionManager.failMission(reason === RespawnReason.WASTED ? 'Wasted!' : 'Busted!');
+
+    const cost = reason === RespawnReason.WASTED
+      ? HOSPITAL_BILL
+      : BAIL_PER_STAR * this.player.getWantedLevel();
+    this.player.getStats().addMoney(-cost);
+  }
+
+  /**
+   * Respawn the player at the nearest hospital or police station
+   */
+  private respawn(reason: RespawnReason): void {
+    const points = reason === RespawnReason.WASTED ? HOSPITALS : POLICE_STATIONS;
+    const position = this.player.getPosition();
+    const nearest = points.reduce((best, point) =>
+      point.position.distanceTo(position) < best.position.distanceTo(position) ? point : best
+    );
+
+    this.player.respawn(nearest.position, nearest.yaw);
+    this.player.setWantedLevel(0);
+    this.player.getWeapons().clear(); // Confiscated, or lost in the ambulance
+
+    this.reason = null;
+    this.sequenceTime = 0;
+  }
+
+  /**
+   * Whether a Wasted or Busted sequence is playing (the player has no control)
+   */
+  public isActive(): boolean {
+    return this.reason !== null;
+  }
+
+  /**
+   * The sequence being played, or null
+   */
+  public getReason(): RespawnReason | null {
+    return this.reason;
+  }
+}
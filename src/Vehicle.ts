@@ -1,13 +1,25 @@
 import * as THREE from 'three';
 import { InputManager } from './InputManager';
 import { Environment } from './Environment';
-import { VehicleModel, VehicleType } from './models/VehicleModel';
+import { VehicleDamageStage, VehicleModel, VehicleType } from './models/VehicleModel';
+import { InterpolatedTransform } from './utils/InterpolatedTransform';
+import { HandlingManager } from './handling/HandlingManager';
+import { HandlingProfile } from './handling/HandlingProfile';
+import { DriverControls, VehicleDynamics } from './physics/VehicleDynamics';
+import { OrientedBox } from './physics/OrientedBox';
+
+/**
+ * Health of an undamaged vehicle
+ */
+export const VEHICLE_MAX_HEALTH = 1000;
+
+// Controls of a vehicle with nobody at the wheel: it just rolls
+const NO_DRIVER: DriverControls = { throttle: 0, reverse: 0, brake: 0, handbrake: false, steeringAngle: 0, engineBraking: false };
 
 export class Vehicle {
-  // Vehicle mesh and model
-  private mesh: THREE.Group;
+  // Vehicle model
   private vehicleModel: VehicleModel;
-  private vehicleType: VehicleType = VehicleType.SEDAN;
+  private vehicleType: VehicleType;
   
   // Vehicle properties
   private position: THREE.Vector3;
@@ -15,26 +27,18 @@ export class Vehicle {
   private rotation: THREE.Euler;
   // Used by VehicleModel for wheel animation
   private steeringAngle = 0;
-  private maxSteeringAngle: number = Math.PI / 4; // 45 degrees
-  
-  // Physics properties
-  private acceleration = 25.0; // Increased from 15.0
-  private deceleration = 15.0; // Increased from 8.0
-  private maxSpeed = 30.0; // Increased from 20.0
-  private currentSpeed = 0.0;
-  private steeringSpeed = 3.0; // Increased from 2.0
-  private steeringReturn = 8.0; // Increased from 5.0 for quicker centering
-  
-  // Enhanced physics properties
-  private mass = 1000; // Reduced from 1200 for more responsive feel
-  private enginePower = 500; // Increased from 400
-  private brakingForce = 1200; // Increased from 800
-  private dragCoefficient = 0.3; // Reduced from 0.4 for less air resistance
-  private rollingResistance = 0.03; // Reduced from 0.05 for smoother rolling
-  private corneringStiffness = 7.0; // Increased from 5.0 for better turning
-  private suspensionStiffness = 12.0; // Increased from 10.0
-  private suspensionDamping = 0.9; // Increased from 0.8
-  private suspensionTravel = 0.25; // Increased from 0.2
+  
+  // Physics properties; the tuning comes from the vehicle type's handling profile (handling.cfg)
+  private handling: HandlingProfile;
+  private currentSpeed = 0.0; // Along the heading; negative when reversing
+  private steeringFalloffSpeed = 15; // m/s at which the steering lock is halved
+  private kinematicSpinTime = 0.15; // Seconds of a crash's spin that kinematically moved (AI) vehicles take at once
+  
+  // Rigid-body model for driven and free-rolling vehicles; AI traffic is moved
+  // kinematically, and hands over to the dynamics when it stops being AI driven
+  private dynamics: VehicleDynamics;
+  private dynamicsActive = false;
+  private bodyRotation = new THREE.Euler(0, 0, 0, 'YXZ'); // Heading plus the body's pitch and roll, for rendering
   private _hasCollidedRecently = false;
   private collisionCooldown = 0;
   
@@ -45,7 +49,29 @@ export class Vehicle {
   private aiTargetSpeed = 0;
   
   // Collision properties
-  private collider: THREE.Box3 = new THREE.Box3();
+  private collider: THREE.Box3 = new THREE.Box3(); // Axis-aligned bounds, for bullets and quick checks
+  private orientedBox: OrientedBox; // Exact footprint, for crashes into walls, vehicles and pedestrians
+  private impactDamageSpeed = 2.0; // Bumps slower than this do no damage
+  private impactDamageScale = 10; // Damage per m/s of impact speed over impactDamageSpeed
+  private wallRestitution = 0.2; // Bounciness off buildings and walls
+  
+  // Damage model, after GTA3: the engine smokes, then catches fire and burns
+  // down until the vehicle explodes, leaving a wreck
+  private health = VEHICLE_MAX_HEALTH;
+  private smokeHealth = 400; // Smoking below this
+  private fireHealth = 250; // On fire below this
+  private burnRate = 40; // Health lost per second while on fire
+  private handlingDamageHealth = 650; // Top speed and steering suffer below this
+  private maxSteeringPull = 0.3; // Radians per second at full speed and no health
+  private steeringPullSide = 0; // Yaw direction a damaged front end pulls towards
+  private wrecked = false;
+  private explosionPending = false; // Exploded, and not yet handed to the ExplosionManager
+  
+  // Render interpolation between simulation steps
+  private renderTransform: InterpolatedTransform;
+  
+  // Seconds until the driver door closes again after exiting
+  private doorCloseTimer = 0;
 
   // Getter and setter for collision state
   public get hasCollidedRecently(): boolean {
@@ -80,64 +106,140 @@ export class Vehicle {
     private scene: THREE.Scene,
     private environment: Environment,
     initialPosition: THREE.Vector3 = new THREE.Vector3(10, 0, 10),
-    initialRotation = 0
+    initialRotation = 0,
+    vehicleType: VehicleType = VehicleType.SEDAN
   ) {
+    this.vehicleType = vehicleType;
+    this.handling = HandlingManager.getInstance().getProfile(vehicleType);
+    
     // Initialize vehicle position
     this.position = initialPosition.clone();
     this.position.y = environment.getGroundHeight(initialPosition.x, initialPosition.z) + this.height / 2;
     
     this.velocity = new THREE.Vector3(0, 0, 0);
     this.rotation = new THREE.Euler(0, initialRotation, 0, 'YXZ');
+    this.renderTransform = new InterpolatedTransform(this.position, this.rotation);
     
     // Create vehicle model
     this.vehicleModel = new VehicleModel(this.scene, this.vehicleType);
-    
-    // Create a dummy group until the model loads
-    this.mesh = new THREE.Group();
+    this.dynamics = new VehicleDynamics(this.width, this.height, this.length);
+    this.orientedBox = new OrientedBox(this.width / 2, this.height / 2, this.length / 2);
     
     // Use dimensions for collision setup
-    this.setupCollider();
+    this.updateCollider();
     
     // Load the vehicle model
     this.vehicleModel.load().then(() => {
-      // Update mesh reference after loading
-      const vehicleMesh = this.vehicleModel.getMesh();
-      if (vehicleMesh) {
-        this.mesh = vehicleMesh;
-        
-        // Set initial position and rotation
-        this.vehicleModel.setPosition(this.position);
-        this.vehicleModel.setRotation(this.rotation);
-        
-        // Update collision box
-        this.collider.setFromObject(this.mesh);
-      }
+      // Set initial position and rotation once the mesh exists
+      this.vehicleModel.setPosition(this.position);
+      this.vehicleModel.setRotation(this.rotation);
     });
   }
   
-  private setupCollider(): void {
-    // Create a simple box collider based on vehicle dimensions
-    const tempBox = new THREE.BoxGeometry(this.width, this.height, this.length);
-    const tempMesh = new THREE.Mesh(tempBox);
-    tempMesh.position.copy(this.position);
+  /**
+   * Fit the collision box around the vehicle's footprint at its simulated
+   * transform (the rendered mesh lags behind because of interpolation)
+   */
+  private updateCollider(): void {
+    const cos = Math.abs(Math.cos(this.rotation.y));
+    const sin = Math.abs(Math.sin(this.rotation.y));
+    const halfX = (this.width * cos + this.length * sin) / 2;
+    const halfZ = (this.width * sin + this.length * cos) / 2;
     
-    // Update collider
-    this.collider.setFromObject(tempMesh);
+    this.collider.min.set(this.position.x - halfX, this.position.y - this.height / 2, this.position.z - halfZ);
+    this.collider.max.set(this.position.x + halfX, this.position.y + this.height / 2, this.position.z + halfZ);
+    this.orientedBox.set(this.position, this.rotation.y);
   }
   
-  // Implement GTA3-style damage model
+  /**
+   * Take damage from a crash, a bullet or an explosion. The first hit decides
+   * which way the steering pulls once the vehicle is badly damaged.
+   * @param position Where the vehicle was hit
+   */
   public damageVehicle(amount: number, position: THREE.Vector3): void {
-    // Reduce health
-    // For now, just print damage info
-    console.log(`Vehicle damaged: ${amount} at position:`, position);
+    if (amount <= 0 || this.wrecked) return;
+    
+    this.health = Math.max(0, this.health - amount);
     
-    // In a more complete implementation, we would deform the vehicle mesh
-    // and potentially change its handling characteristics based on damage
+    if (this.steeringPullSide === 0) {
+      // Hit on the right, pulls to the right (negative yaw)
+      const rightVector = new THREE.Vector3(1, 0, 0).applyEuler(this.rotation);
+      const side = rightVector.dot(new THREE.Vector3().subVectors(position, this.position));
+      this.steeringPullSide = side > 0 ? -1 : 1;
+    }
+    
+    this.updateDamageStage();
+  }
+  
+  /**
+   * Burn down a vehicle that is on fire
+   */
+  private updateFire(deltaTime: number): void {
+    if (this.wrecked || this.health >= this.fireHealth) return;
+    
+    this.health = Math.max(0, this.health - this.burnRate * deltaTime);
+    this.updateDamageStage();
+  }
+  
+  /**
+   * Show smoke or fire for the current health, and explode when it runs out
+   */
+  private updateDamageStage(): void {
+    if (this.health <= 0) {
+      this.explode();
+    } else if (this.health < this.fireHealth) {
+      this.vehicleModel.setDamageStage(VehicleDamageStage.ON_FIRE);
+    } else if (this.health < this.smokeHealth) {
+      this.vehicleModel.setDamageStage(VehicleDamageStage.SMOKING);
+    }
+  }
+  
+  /**
+   * Blow up, leaving a burnt-out wreck. The blast itself (and what happens to
+   * anyone inside) is left to the ExplosionManager, via consumeExplosion.
+   */
+  private explode(): void {
+    this.health = 0;
+    this.wrecked = true;
+    this.explosionPending = true;
+    this.currentSpeed = 0;
+    this.steeringAngle = 0;
+    this.velocity.set(0, 0, 0);
+    this.vehicleModel.setDamageStage(VehicleDamageStage.WRECKED);
+  }
+  
+  /**
+   * Whether the vehicle has exploded since the last call; clears the flag
+   */
+  public consumeExplosion(): boolean {
+    const exploded = this.explosionPending;
+    this.explosionPending = false;
+    return exploded;
+  }
+  
+  /**
+   * Top speed, lowered as the engine is damaged (down to half at no health)
+   */
+  private getTopSpeed(): number {
+    const condition = Math.min(1, this.health / this.handlingDamageHealth);
+    return this.handling.maxSpeed * (0.5 + 0.5 * condition);
+  }
+  
+  /**
+   * Yaw rate at full speed with which a damaged front end pulls the vehicle to one side
+   */
+  private getSteeringPull(): number {
+    const damage = Math.max(0, 1 - this.health / this.handlingDamageHealth);
+    return this.steeringPullSide * this.maxSteeringPull * damage;
   }
   
   public update(deltaTime: number, inputManager?: InputManager): void {
-    // If player is controlling this vehicle
-    if (this.isOccupied && inputManager) {
+    if (this.wrecked) {
+      // Wrecks go nowhere
+      this.currentSpeed = 0;
+      this.velocity.set(0, 0, 0);
+    } else if (this.isOccupied && inputManager) {
+      // If player is controlling this vehicle
       this.handleDriving(deltaTime, inputManager);
     } else if (this.isAIControlled) {
       // AI control logic
@@ -149,13 +251,15 @@ export class Vehicle {
     
     // Check for collisions and adjust position
     this.handleCollisions();
+    this.updateFire(deltaTime);
     
-    // Update vehicle model position and rotation
-    this.vehicleModel.setPosition(this.position);
-    this.vehicleModel.setRotation(this.rotation);
+    // Record the new transform (with the body's pitch and roll) for render interpolation
+    this.renderTransform.capture(this.position, this.getBodyRotation());
     
-    // Update vehicle model (wheels, etc.)
-    this.vehicleModel.update(deltaTime, this.steeringAngle, this.currentSpeed);
+    // Update vehicle model (wheels, suspension, doors, etc.)
+    const wheelOffsets = this.dynamicsActive ? this.dynamics.getWheelOffsets(this.handling) : null;
+    this.vehicleModel.update(deltaTime, this.steeringAngle, this.currentSpeed, wheelOffsets);
+    this.updateDoorTimer(deltaTime);
     
     // Play engine sound
     if (Math.abs(this.currentSpeed) > 0.1) {
@@ -163,11 +267,14 @@ export class Vehicle {
     }
     
     // Update collider
-    this.collider.setFromObject(this.mesh);
+    this.updateCollider();
     
     // Update collision cooldown
     if (this.collisionCooldown > 0) {
       this.collisionCooldown -= deltaTime;
+      if (this.collisionCooldown <= 0) {
+        this._hasCollidedRecently = false;
+      }
     }
   }
   
@@ -177,6 +284,9 @@ export class Vehicle {
    * @param intensityFactor Factor to reduce update intensity (0.0-1.0)
    */
   public updateSimple(deltaTime: number, intensityFactor = 0.5): void {
+    // Distant vehicles are moved kinematically
+    this.setKinematic();
+    
     // Apply simplified physics (reduced calculations)
     if (this.currentSpeed > 0) {
       // Apply simplified deceleration
@@ -198,89 +308,134 @@ export class Vehicle {
       this.position.x += direction.x * this.currentSpeed * deltaTime;
       this.position.z += direction.z * this.currentSpeed * deltaTime;
       
-      // Update model position
-      this.vehicleModel.setPosition(this.position);
-      
       // Update wheel rotation but skip other animations
       this.vehicleModel.updateWheelsOnly(deltaTime, this.currentSpeed);
     }
     
-    // Update collider with reduced frequency (every other frame)
-    if (Math.random() > 0.5) {
-      this.collider.setFromObject(this.mesh);
+    // Record the new transform for render interpolation
+    this.renderTransform.capture(this.position, this.rotation);
+    this.velocity.set(0, 0, -this.currentSpeed).applyEuler(this.rotation);
+    
+    // Keep door animations running so doors don't freeze half open
+    this.vehicleModel.updateDoors(deltaTime);
+    this.vehicleModel.updateDamageEffect(deltaTime);
+    this.updateDoorTimer(deltaTime);
+    this.updateFire(deltaTime);
+    
+    // Update collider
+    this.updateCollider();
+  }
+  
+  /**
+   * Close the driver door once its timer runs out
+   */
+  private updateDoorTimer(deltaTime: number): void {
+    if (this.doorCloseTimer > 0) {
+      this.doorCloseTimer -= deltaTime;
+      if (this.doorCloseTimer <= 0) {
+        this.doorCloseTimer = 0;
+        this.vehicleModel.animateDoor(2, false);
+      }
     }
   }
   
+  /**
+   * Move the rendered model between the last two simulation steps
+   * @param alpha Blend factor between the previous (0) and current (1) step
+   */
+  public interpolate(alpha: number): void {
+    this.renderTransform.apply(this.vehicleModel.getMesh(), alpha);
+  }
+  
   private handleDriving(deltaTime: number, inputManager: InputManager): void {
-    // Acceleration/braking
+    const controls: DriverControls = { throttle: 0, reverse: 0, brake: 0, handbrake: false, steeringAngle: 0, engineBraking: true };
+    
+    // W drives forwards (braking first if rolling backwards); S brakes, then reverses
     if (inputManager.isKeyPressed('w')) {
-      // Accelerate forward
-      const speedFactor = 1.0 - (this.currentSpeed / this.maxSpeed);
-      const accelerationForce = this.acceleration * speedFactor * deltaTime;
-      this.currentSpeed = Math.min(this.currentSpeed + accelerationForce, this.maxSpeed);
-    } else if (inputManager.isKeyPressed('s')) {
-      // Brake or reverse
-      if (this.currentSpeed > 0) {
-        // Apply brakes
-        this.currentSpeed = Math.max(0, this.currentSpeed - this.brakingForce * deltaTime);
+      if (this.currentSpeed < -1) {
+        controls.brake = 1;
       } else {
-        // Reverse with limited speed
-        this.currentSpeed = Math.max(-this.maxSpeed * 0.5, this.currentSpeed - this.acceleration * deltaTime);
+        controls.throttle = 1;
       }
-    } else {
-      // No input - gradually slow down
-      if (Math.abs(this.currentSpeed) > 0) {
-        const decelForce = this.deceleration * deltaTime;
-        if (this.currentSpeed > 0) {
-          this.currentSpeed = Math.max(0, this.currentSpeed - decelForce);
-        } else {
-          this.currentSpeed = Math.min(0, this.currentSpeed + decelForce);
-        }
+    } else if (inputManager.isKeyPressed('s')) {
+      if (this.currentSpeed > 1) {
+        controls.brake = 1;
+      } else {
+        controls.reverse = 1;
       }
     }
+    
+    // Space pulls the handbrake, locking the rear wheels for handbrake turns
+    controls.handbrake = inputManager.isKeyPressed(' ');
   
-    // Steering
+    // Steering; less lock is available the faster the vehicle goes
+    const steeringLock = this.handling.maxSteeringAngle / (1 + Math.abs(this.currentSpeed) / this.steeringFalloffSpeed);
     if (inputManager.isKeyPressed('a')) {
-      // Turn left - steering angle increases with speed
-      const steeringFactor = Math.min(1.0, Math.abs(this.currentSpeed) / (this.maxSpeed * 0.5));
-      this.steeringAngle = Math.min(
-        this.steeringAngle + this.steeringSpeed * deltaTime,
-        this.maxSteeringAngle * steeringFactor
-      );
+      // Turn left
+      this.steeringAngle = Math.min(this.steeringAngle + this.handling.steeringSpeed * deltaTime, steeringLock);
     } else if (inputManager.isKeyPressed('d')) {
       // Turn right
-      const steeringFactor = Math.min(1.0, Math.abs(this.currentSpeed) / (this.maxSpeed * 0.5));
-      this.steeringAngle = Math.max(
-        this.steeringAngle - this.steeringSpeed * deltaTime,
-        -this.maxSteeringAngle * steeringFactor
-      );
+      this.steeringAngle = Math.max(this.steeringAngle - this.handling.steeringSpeed * deltaTime, -steeringLock);
     } else {
       // Return steering to center
       if (this.steeringAngle > 0) {
-        this.steeringAngle = Math.max(0, this.steeringAngle - this.steeringReturn * deltaTime);
+        this.steeringAngle = Math.max(0, this.steeringAngle - this.handling.steeringReturn * deltaTime);
       } else if (this.steeringAngle < 0) {
-        this.steeringAngle = Math.min(0, this.steeringAngle + this.steeringReturn * deltaTime);
+        this.steeringAngle = Math.min(0, this.steeringAngle + this.handling.steeringReturn * deltaTime);
       }
     }
+    controls.steeringAngle = this.steeringAngle;
   
-    // Apply steering to rotation based on speed
-    if (Math.abs(this.currentSpeed) > 0.1) {
-      const rotationAmount = this.steeringAngle * (this.currentSpeed / this.maxSpeed) * deltaTime * 2.0;
-      this.rotation.y += rotationAmount;
-    }
+    this.stepDynamics(deltaTime, controls);
+  
+    // A damaged front end pulls to one side
+    this.rotation.y += this.getSteeringPull() * (this.currentSpeed / this.handling.maxSpeed) * deltaTime;
+  }
+  
+  /**
+   * Advance the rigid-body model one step, taking over from kinematic movement if need be
+   */
+  private stepDynamics(deltaTime: number, controls: DriverControls): void {
+    this.activateDynamics();
+    this.dynamics.step(
+      deltaTime,
+      { position: this.position, velocity: this.velocity, rotation: this.rotation },
+      this.handling,
+      controls,
+      this.getTopSpeed(),
+      (x, z) => this.environment.getGroundHeight(x, z)
+    );
+    
+    const forward = new THREE.Vector3(0, 0, -1).applyEuler(this.rotation);
+    this.currentSpeed = this.velocity.x * forward.x + this.velocity.z * forward.z;
+  }
   
-    // Calculate velocity based on current rotation and speed
-    const direction = new THREE.Vector3(0, 0, -1);
-    direction.applyEuler(this.rotation);
-    this.velocity.x = direction.x * this.currentSpeed;
-    this.velocity.z = direction.z * this.currentSpeed;
+  /**
+   * Hand over from kinematic movement to the rigid-body model
+   */
+  private activateDynamics(): void {
+    if (this.dynamicsActive) return;
+    
+    this.dynamicsActive = true;
+    this.dynamics.reset(this.handling);
+    this.velocity.set(0, 0, -this.currentSpeed).applyEuler(this.rotation);
+  }
   
-    // Apply velocity to position
-    this.position.add(this.velocity.multiplyScalar(deltaTime));
+  /**
+   * Leave the rigid-body model; the body settles level
+   */
+  private setKinematic(): void {
+    this.dynamicsActive = false;
+  }
   
-    // Keep vehicle on the ground
-    const groundY = this.environment.getGroundHeight(this.position.x, this.position.z);
-    this.position.y = groundY + this.height / 2;
+  /**
+   * Heading plus, while the dynamics run, the body's pitch and roll
+   */
+  private getBodyRotation(): THREE.Euler {
+    if (!this.dynamicsActive) {
+      return this.rotation;
+    }
+    return this.bodyRotation.set(this.dynamics.getPitch(), this.rotation.y, this.dynamics.getRoll());
   }
   
   private applyPhysics(deltaTime: number): void {
@@ -298,77 +453,10 @@ export class Vehicle {
       return;
     }
     
-    if (Math.abs(this.currentSpeed) > 0.01) {
-      // Calculate movement direction based on current rotation
-      const moveDirection = new THREE.Vector3(0, 0, -1).applyEuler(this.rotation);
-      
-      // Calculate forces
-      let tractionForce = 0;
-      let dragForce = 0;
-      let rollingResistanceForce = 0;
-      
-      // Traction force (engine power or braking)
-      if (this.currentSpeed >= 0) {
-        // Forward motion
-        tractionForce = this.enginePower * (this.currentSpeed < this.maxSpeed ? 1 : 0);
-      } else {
-        // Reverse motion
-        tractionForce = -this.enginePower * 0.5 * (this.currentSpeed > -this.maxSpeed * 0.5 ? 1 : 0);
-      }
-      
-      // Air resistance (increases with speed squared)
-      dragForce = this.dragCoefficient * this.currentSpeed * Math.abs(this.currentSpeed);
-      
-      // Rolling resistance (tire friction)
-      rollingResistanceForce = this.rollingResistance * this.currentSpeed;
-      
-      // Net force
-      const netForce = tractionForce - dragForce - rollingResistanceForce;
-      
-      // Acceleration (F = ma)
-      const acceleration = netForce / this.mass;
-      
-      // Update speed
-      this.currentSpeed += acceleration * deltaTime;
-      
-      // Apply velocity based on current speed
-      this.velocity.copy(moveDirection).multiplyScalar(this.currentSpeed * deltaTime);
-      
-      // Apply steering (rotate based on speed and steering angle)
-      if (Math.abs(this.steeringAngle) > 0.01 && Math.abs(this.currentSpeed) > 0.5) {
-        // Calculate turn rate based on speed and cornering stiffness
-        // Slower speed = sharper turns, higher cornering stiffness = more responsive steering
-        const speedFactor = Math.min(Math.abs(this.currentSpeed) / 10, 1.0);
-        const turnFactor = this.corneringStiffness * (1.0 - 0.5 * speedFactor);
-        const turnRate = this.steeringAngle * turnFactor * (this.currentSpeed > 0 ? 1 : -1);
-        
-        // Apply rotation
-        this.rotation.y += turnRate * deltaTime;
-      }
-      
-      // Apply velocity to position
-      this.position.add(this.velocity);
-      
-      // Apply suspension
-      const groundY = this.environment.getGroundHeight(this.position.x, this.position.z);
-      const targetHeight = groundY + this.height / 2;
-      const currentHeight = this.position.y;
-      const suspensionOffset = targetHeight - currentHeight;
-      
-      // Limit suspension travel
-      const clampedOffset = Math.max(-this.suspensionTravel, Math.min(this.suspensionTravel, suspensionOffset));
-      
-      // Apply suspension force (spring and damping)
-      const suspensionForce = clampedOffset * this.suspensionStiffness;
-      const dampingForce = (suspensionOffset - clampedOffset) * this.suspensionDamping;
-      
-      // Update height with suspension
-      this.position.y = currentHeight + (suspensionForce + dampingForce) * deltaTime;
-      
-      // Ensure minimum ground clearance
-      if (this.position.y < groundY + this.height * 0.3) {
-        this.position.y = groundY + this.height * 0.3;
-      }
+    // Nobody at the wheel: a moving vehicle rolls on until it stops; one at
+    // rest stays parked without being simulated
+    if (this.dynamicsActive || Math.abs(this.currentSpeed) > 0.01) {
+      this.stepDynamics(deltaTime, NO_DRIVER);
     }
   }
   
@@ -376,6 +464,9 @@ export class Vehicle {
    * Apply physics for AI-controlled vehicles
    */
   private applyAIPhysics(deltaTime: number): void {
+    // AI traffic follows its targets kinematically
+    this.setKinematic();
+    
     // Move towards target position
     if (this.aiTargetPosition) {
       // Calculate direction to target
@@ -392,22 +483,23 @@ export class Vehicle {
       if (rotationDiff < -Math.PI) rotationDiff += Math.PI * 2;
       
       // Apply rotation with smooth turning
-      this.rotation.y += Math.sign(rotationDiff) * Math.min(Math.abs(rotationDiff), this.steeringSpeed * deltaTime);
+      this.rotation.y += Math.sign(rotationDiff) * Math.min(Math.abs(rotationDiff), this.handling.steeringSpeed * deltaTime);
       
       // Gradually adjust speed towards target speed
       if (this.currentSpeed < this.aiTargetSpeed) {
-        this.currentSpeed += this.acceleration * 0.5 * deltaTime;
+        this.currentSpeed += this.handling.acceleration * 0.5 * deltaTime;
       } else if (this.currentSpeed > this.aiTargetSpeed) {
-        this.currentSpeed -= this.deceleration * deltaTime;
+        this.currentSpeed -= this.handling.brakingForce * deltaTime;
       }
       
       // Clamp speed
-      this.currentSpeed = Math.max(-this.maxSpeed * 0.5, Math.min(this.currentSpeed, this.maxSpeed));
+      const topSpeed = this.getTopSpeed();
+      this.currentSpeed = Math.max(-topSpeed * 0.5, Math.min(this.currentSpeed, topSpeed));
       
       // Apply movement
       const moveDirection = new THREE.Vector3(0, 0, -1).applyEuler(this.rotation);
-      this.velocity.copy(moveDirection).multiplyScalar(this.currentSpeed * deltaTime);
-      this.position.add(this.velocity);
+      this.velocity.copy(moveDirection).multiplyScalar(this.currentSpeed);
+      this.position.addScaledVector(this.velocity, deltaTime);
       
       // Keep on ground with suspension
       const groundY = this.environment.getGroundHeight(this.position.x, this.position.z);
@@ -416,7 +508,7 @@ export class Vehicle {
       const suspensionOffset = targetHeight - currentHeight;
       
       // Apply simplified suspension
-      this.position.y = currentHeight + suspensionOffset * this.suspensionStiffness * deltaTime;
+      this.position.y = currentHeight + suspensionOffset * this.handling.suspensionStiffness * deltaTime;
       
       // Ensure minimum ground clearance
       if (this.position.y < groundY + this.height * 0.3) {
@@ -429,7 +521,7 @@ export class Vehicle {
   private playEngineSound(): void {
     // Would integrate with audio system
     // For now just a placeholder for future audio implementation
-    const volume = Math.min(1.0, Math.abs(this.currentSpeed) / this.maxSpeed);
+    const volume = Math.min(1.0, Math.abs(this.currentSpeed) / this.handling.maxSpeed);
     // Use volume for audio system when implemented
     if (volume > 0.8) {
       // High speed - would play louder engine sound
@@ -437,49 +529,32 @@ export class Vehicle {
   }
   
   private handleCollisions(): void {
-    // Get obstacles from environment
-    const obstacles = this.environment.getObstacles();
+    this.updateCollider(); // To where the vehicle has moved this step
     
-    // Check for collisions with each obstacle
     let hasCollided = false;
-    for (const obstacle of obstacles) {
-      if (this.collider.intersectsBox(obstacle)) {
-        hasCollided = true;
-        
-        // Calculate collision response
-        const obstacleCenter = new THREE.Vector3();
-        obstacle.getCenter(obstacleCenter);
-        
-        const direction = new THREE.Vector3()
-          .subVectors(this.position, obstacleCenter)
-          .normalize();
-        
-        // Only adjust X and Z (horizontal movement)
-        direction.y = 0;
-        
-        // Calculate collision force based on speed and angle
-        const impactSpeed = Math.abs(this.currentSpeed);
-        const impactAngle = Math.abs(direction.dot(new THREE.Vector3(0, 0, -1).applyEuler(this.rotation)));
-        
-        // Head-on collisions slow the vehicle more than glancing blows
-        const speedReduction = 0.5 + (impactAngle * 0.5);
-        this.currentSpeed *= (1 - speedReduction);
-        
-        // Apply impulse force to push vehicle away
-        const pushForce = 0.2 + (impactSpeed * 0.05);
-        this.position.x += direction.x * pushForce;
-        this.position.z += direction.z * pushForce;
-        
-        // Add some rotation based on impact angle and point
-        const rightVector = new THREE.Vector3(1, 0, 0).applyEuler(this.rotation);
-        const impactSide = direction.dot(rightVector);
-        
-        // Rotate vehicle based on which side was hit
-        this.rotation.y += impactSide * 0.1 * impactSpeed / this.mass;
-        
-        // Apply damage to vehicle (visual effects would be added here)
-        this.damageVehicle(impactSpeed * 10, this.position.clone().add(direction.multiplyScalar(-1)));
-      }
+    for (const obstacle of this.environment.queryObstacleBoxes(this.collider)) {
+      const contact = obstacle.intersectsBox(this.orientedBox);
+      if (!contact) continue;
+      hasCollided = true;
+      const { normal, depth, point } = contact;
+      
+      // Push the vehicle out of the obstacle the shortest way
+      this.push(normal.clone().multiplyScalar(depth));
+      
+      // Speed of the touching point into the obstacle, spin included
+      const lever = new THREE.Vector3().subVectors(point, this.position).setY(0);
+      const yawRate = this.getYawRate();
+      const normalSpeed = (this.velocity.x + yawRate * lever.z) * normal.x + (this.velocity.z - yawRate * lever.x) * normal.z;
+      if (normalSpeed >= 0) continue; // Resting against it, or already pulling away
+      
+      // Bounce off, keeping the speed along the obstacle: a head-on hit stops
+      // the vehicle dead, a glancing one scrapes along and spins it
+      const turn = lever.z * normal.x - lever.x * normal.z;
+      const effectiveMass = 1 / this.handling.mass + turn * turn / this.getYawInertia();
+      this.applyImpulse(normal.clone().multiplyScalar(-(1 + this.wallRestitution) * normalSpeed / effectiveMass), point);
+      
+      // Damage the vehicle, on the side that hit
+      this.takeImpact(-normalSpeed, point);
     }
     
     // Update collision state
@@ -489,6 +564,62 @@ export class Vehicle {
     }
   }
   
+  /**
+   * Take the damage of a crash
+   * @param impactSpeed How fast the vehicle hit, m/s
+   * @param position Where it was hit
+   */
+  public takeImpact(impactSpeed: number, position: THREE.Vector3): void {
+    this.damageVehicle(Math.max(0, impactSpeed - this.impactDamageSpeed) * this.impactDamageScale, position);
+  }
+  
+  /**
+   * Apply a sudden push, as from a crash; one that is off-centre spins the vehicle
+   * @param impulse Change in momentum, kg·m/s
+   * @param point Where the push acts
+   */
+  public applyImpulse(impulse: THREE.Vector3, point: THREE.Vector3): void {
+    if (this.wrecked) return; // Wrecks are dead weight
+    
+    const mass = this.handling.mass;
+    const lever = new THREE.Vector3().subVectors(point, this.position);
+    const spin = (lever.z * impulse.x - lever.x * impulse.z) / this.getYawInertia();
+    const forward = new THREE.Vector3(0, 0, -1).applyEuler(this.rotation);
+    
+    if (this._isAIControlled) {
+      // AI traffic is moved kinematically: it takes the push along its heading, and a jolt of spin
+      this.currentSpeed += (impulse.x * forward.x + impulse.z * forward.z) / mass;
+      this.rotation.y += spin * this.kinematicSpinTime;
+      return;
+    }
+    
+    this.activateDynamics();
+    this.velocity.x += impulse.x / mass;
+    this.velocity.z += impulse.z / mass;
+    this.dynamics.addYawRate(spin);
+    this.currentSpeed = this.velocity.x * forward.x + this.velocity.z * forward.z;
+  }
+  
+  /**
+   * Record a hit from another vehicle
+   */
+  public registerImpact(): void {
+    this._hasCollidedRecently = true;
+    this.collisionCooldown = 1.0;
+  }
+  
+  /**
+   * Knock the vehicle sideways, e.g. from a PIT manoeuvre
+   * @param yaw Rotation to apply in radians
+   * @param speedFactor Fraction of the current speed kept
+   */
+  public knock(yaw: number, speedFactor: number): void {
+    this.rotation.y += yaw;
+    this.currentSpeed *= speedFactor;
+    this.velocity.multiplyScalar(speedFactor); // Under the dynamics the body keeps sliding the way it was going
+    this.registerImpact();
+  }
+  
   // Methods for player interaction
   
   // Vehicle interaction
@@ -497,7 +628,7 @@ export class Vehicle {
   public canInteract(playerPosition: THREE.Vector3): boolean {
     // Check if player is close enough to interact with vehicle
     const distance = this.position.distanceTo(playerPosition);
-    return distance < this.interactionRange && !this.isOccupied; // Only allow interaction if vehicle is not occupied
+    return distance < this.interactionRange && !this.isOccupied && !this.wrecked; // Only allow interaction if vehicle is not occupied
   }
   
   public enterVehicle(): void {
@@ -505,6 +636,9 @@ export class Vehicle {
     
     // Play door open animation
     this.vehicleModel.animateDoor(2, true); // Left front door
+    
+    // Close it behind the driver (counted in simulation time)
+    this.doorCloseTimer = 2.0;
   }
   
   public exitVehicle(): void {
@@ -513,16 +647,21 @@ export class Vehicle {
     // Play door open animation
     this.vehicleModel.animateDoor(2, true); // Left front door
     
-    // Close the door after a delay
-    setTimeout(() => {
-      this.vehicleModel.animateDoor(2, false);
-    }, 2000);
+    // Close the door after a delay (counted in simulation time)
+    this.doorCloseTimer = 2.0;
   }
   
   public isPlayerInside(): boolean {
     return this.isOccupied;
   }
   
+  /**
+   * Where someone getting in or out of the driver's seat stands
+   */
+  public getDoorPosition(): THREE.Vector3 {
+    return new THREE.Vector3(2, 0, 0).applyEuler(this.rotation).add(this.position);
+  }
+  
   // AI control methods
   
   /**
@@ -554,11 +693,35 @@ export class Vehicle {
   }
   
   // Getters and setters
-  
+
+  /**
+   * Place the vehicle at rest at a new transform (used when loading a save)
+   */
+  public setTransform(position: THREE.Vector3, yaw: number): void {
+    this.position.copy(position);
+    this.rotation.set(0, yaw, 0);
+    this.velocity.set(0, 0, 0);
+    this.currentSpeed = 0;
+    this.dynamics.reset(this.handling);
+    this.renderTransform.snap(this.position, this.rotation);
+    this.vehicleModel.setPosition(this.position);
+    this.vehicleModel.setRotation(this.rotation);
+    this.updateCollider();
+  }
+
   public getPosition(): THREE.Vector3 {
     return this.position.clone();
   }
   
+  /**
+   * Shove the vehicle across the ground, e.g. out of another it has crashed into
+   */
+  public push(offset: THREE.Vector3): void {
+    this.position.x += offset.x;
+    this.position.z += offset.z;
+    this.updateCollider();
+  }
+  
   public getRotation(): THREE.Euler {
     return this.rotation.clone();
   }
@@ -571,6 +734,69 @@ export class Vehicle {
     return this.collider;
   }
   
+  public getOrientedBox(): OrientedBox {
+    return this.orientedBox;
+  }
+  
+  /**
+   * Velocity in m/s
+   */
+  public getVelocity(): THREE.Vector3 {
+    return this.velocity;
+  }
+  
+  /**
+   * How fast the vehicle is spinning, rad/s (positive turns left)
+   */
+  public getYawRate(): number {
+    return this.dynamicsActive ? this.dynamics.getYawRate() : 0;
+  }
+  
+  public getMass(): number {
+    return this.handling.mass;
+  }
+  
+  /**
+   * Resistance to being spun, kg·m²
+   */
+  public getYawInertia(): number {
+    return this.dynamics.getYawInertia(this.handling.mass);
+  }
+  
+  public getVehicleType(): VehicleType {
+    return this.vehicleType;
+  }
+  
+  /**
+   * Drive with different handling, e.g. after handling.cfg is reloaded
+   */
+  public applyHandling(profile: HandlingProfile): void {
+    this.handling = profile;
+  }
+  
+  public getHandling(): HandlingProfile {
+    return this.handling;
+  }
+  
+  /**
+   * How hard each tyre is sliding, 0-1 (front left, front right, rear left,
+   * rear right); empty while the vehicle is moved kinematically
+   */
+  public getWheelSlips(): number[] {
+    return this.dynamicsActive ? this.dynamics.getWheelSlips() : [];
+  }
+  
+  /**
+   * Where each tyre touches the ground, in getWheelSlips order
+   */
+  public getWheelContacts(): THREE.Vector3[] {
+    return this.dynamics.getWheelContacts();
+  }
+  
+  public isPolice(): boolean {
+    return this.vehicleType === VehicleType.POLICE;
+  }
+  
   /**
    * Get the current speed of the vehicle
    */
@@ -578,5 +804,19 @@ export class Vehicle {
     return this.currentSpeed;
   }
   
+  /**
+   * Remaining health, from VEHICLE_MAX_HEALTH down to 0 once it has exploded
+   */
+  public getHealth(): number {
+    return this.health;
+  }
+  
+  /**
+   * Whether the vehicle has exploded and is now a burnt-out wreck
+   */
+  public isWrecked(): boolean {
+    return this.wrecked;
+  }
+  
 
 }
\ No newline at end of file
@@ -3,14 +3,40 @@ import { Vehicle } from './Vehicle';
 import { Environment } from './Environment';
 import { Player } from './Player';
 import { VehicleType } from './models/VehicleModel';
+import { RandomStream } from './utils/Random';
+import { SpatialHash } from './physics/SpatialHash';
+import { Lane, TurnConnection, TurnDirection } from './city/RoadNetwork';
+import { SignalState } from './city/TrafficLights';
+import { PedestrianType, pickPedestrianType } from './PedestrianType';
+
+/**
+ * A police car's part in a pursuit
+ */
+interface PursuitState {
+  timeLost: number; // Seconds since this unit last saw the player
+  returning: boolean; // Gave up and driving back to the road network to patrol
+}
+
+/**
+ * Where a traffic car is in the road network
+ */
+interface TrafficState {
+  lane: Lane; // The lane it is on, or has just left to cross an intersection
+  next: TurnConnection | null; // The way it will take at the end of the lane; null at a dead end
+  turning: boolean; // Crossing the intersection at the end of the lane
+  path: THREE.Vector3[]; // The lane, or the way across the intersection
+  segment: number; // Index of the point at the start of the path segment it is on
+}
 
 /**
  * VehicleManager handles the creation, updating, and management of
  * AI-controlled vehicles in the game world. It spawns vehicles on roads
- * and ensures they follow traffic patterns.
+ * and ensures they follow traffic patterns. Every car has someone at the
+ * wheel, who gets out if it is stuck for long, or is pulled out if it is stolen.
  */
 export class VehicleManager {
   private vehicles: Vehicle[] = [];
+  private vehicleGrid: SpatialHash<Vehicle> = new SpatialHash(10); // The same vehicles, by where they are
 
   /**
    * Cleanup method to dispose of vehicle resources and clear arrays
@@ -23,6 +49,13 @@ export class VehicleManager {
     
     // Clear the vehicles array
     this.vehicles = [];
+    this.vehicleGrid.clear();
+    this.pursuers = [];
+    this.pursuitStates.clear();
+    this.trafficStates.clear();
+    this.drivers.clear();
+    this.stoppedTimes.clear();
+    this.abandoned = [];
     
     // Reset spawn timer
     this.timeSinceLastSpawn = 0;
@@ -30,14 +63,46 @@ export class VehicleManager {
   private maxVehicles = 10; // Maximum number of AI vehicles to spawn
   private spawnRadius = 60; // Radius around player to spawn vehicles
   private despawnRadius = 80; // Radius beyond which vehicles are removed
+  private wreckClearRadius = 40; // Radius beyond which wrecks are towed away at cleanup
   private minSpawnDistance = 20; // Minimum distance from player to spawn
   
   // Spawn timing
   private timeSinceLastSpawn = 0;
   private spawnInterval = 3; // Time between spawn attempts in seconds
   
-  // Road network (simplified for now)
-  private roadSegments: { start: THREE.Vector3, end: THREE.Vector3, width: number }[] = [];
+  // Traffic following the road network
+  private trafficStates: Map<Vehicle, TrafficState> = new Map();
+  private cruiseSpeed = 10; // m/s along a clear road
+  private turnSpeed = 5; // m/s round a corner
+  private comfortDeceleration = 3; // m/s² traffic slows at for corners
+  private laneTolerance = 8; // A car further than this from its lane finds its way again
+  private followRange = 25; // How far ahead traffic looks for a car to queue behind
+  private followTime = 1.2; // Seconds of gap kept to the car in front
+  private minGap = 2; // Metres left to the car in front when stopped
+  private vehicleLength = 5; // Rough centre-to-centre allowance for two cars' half-lengths
+  private yieldRange = 40; // Oncoming traffic this close to an intersection has right of way over a left turn
+  
+  // Drivers
+  private drivers: Map<Vehicle, PedestrianType> = new Map(); // Who is at the wheel, where known; anyone else is a local
+  private stoppedTimes: Map<Vehicle, number> = new Map(); // Seconds each car has been stopped, or crawling
+  private abandoned: { vehicle: Vehicle, driver: PedestrianType }[] = []; // Given up on, waiting for their drivers to get out
+  private abandonTime = 30; // Drivers stuck this long get out; longer than any red light
+  private crawlSpeed = 1; // m/s; slower than this counts as stopped, e.g. nudging a car that is in the way
+  
+  // Police pursuit
+  private maxPursuers = 0; // Police cars allowed to chase a wanted player, set by PoliceManager
+  private pursuers: Vehicle[] = []; // Police cars chasing the player this step
+  private pursuitStates: Map<Vehicle, PursuitState> = new Map();
+  private pursuitSpeed = 22; // Top speed of a pursuing unit
+  private pursuitStopDistance = 5; // Units stop this close to a player on foot or stopped
+  private pursuitSightRange = 60; // Units further away than this, or behind buildings, lose the player
+  private giveUpTime = 8; // Seconds without seeing the player before a unit gives up
+  private maxInterceptTime = 3; // Seconds ahead a unit predicts the player's car
+  private pitDistance = 8; // The lead unit tries a PIT manoeuvre this close behind the player
+  private pitWantedLevel = 2; // Units only try PIT manoeuvres from this many stars
+  private backupInterval = 6; // Seconds between calls for backup
+  private timeSinceBackup = 0;
+  private avoidanceMargin = 2; // Clearance kept from buildings while pursuing
   
   // Vehicle types with probabilities
   private vehicleTypes: { type: VehicleType, probability: number }[] = [
@@ -50,42 +115,18 @@ export class VehicleManager {
   
   constructor(
     private scene: THREE.Scene,
-    private environment: Environment
+    private environment: Environment,
+    private random: RandomStream // 'traffic' stream
   ) {}
   
   /**
    * Initialize the vehicle manager
    */
   public initialize(): void {
-    // Define road network (simplified for now)
-    this.defineRoadNetwork();
-    
     // Create initial vehicles
     this.spawnInitialVehicles();
   }
   
-  /**
-   * Define a simple road network for vehicles to follow
-   */
-  private defineRoadNetwork(): void {
-    // Simple cross-shaped road network
-    // East-West road
-    this.roadSegments.push({
-      start: new THREE.Vector3(-50, 0, 0),
-      end: new THREE.Vector3(50, 0, 0),
-      width: 10
-    });
-    
-    // North-South road
-    this.roadSegments.push({
-      start: new THREE.Vector3(0, 0, -50),
-      end: new THREE.Vector3(0, 0, 50),
-      width: 10
-    });
-    
-    // Additional roads could be added here
-  }
-  
   /**
    * Update all AI vehicles
    */
@@ -102,19 +143,37 @@ export class VehicleManager {
     // Get player position once for distance calculations
     const playerPosition = player.getPosition();
     
+    // Police cars nearest a wanted player give chase
+    this.timeSinceBackup += deltaTime;
+    this.pursuers = this.selectPursuers(player);
+    
     // Update existing vehicles with distance-based optimization
     for (let i = this.vehicles.length - 1; i >= 0; i--) {
       const vehicle = this.vehicles[i];
       const distanceToPlayer = vehicle.getPosition().distanceTo(playerPosition);
+      const pursuitSlot = this.pursuers.indexOf(vehicle);
       
       // Apply distance-based optimization
       if (distanceToPlayer > this.despawnRadius) {
         // Remove vehicle
         this.scene.remove(vehicle.getMesh());
-        this.vehicles.splice(i, 1);
+        this.removeVehicle(vehicle);
+        continue;
+      }
+      
+      if (vehicle.isWrecked()) {
+        // Burnt-out wrecks stay where they are until left behind
+        this.pursuitStates.delete(vehicle);
+        vehicle.update(deltaTime);
+      } else if (pursuitSlot >= 0) {
+        // Pursuing units always get a full update
+        this.updatePursuitAI(vehicle, deltaTime, player, pursuitSlot);
+      } else if (this.pursuitStates.has(vehicle)) {
+        // Units that gave up (or whose suspect is no longer wanted) head back to patrol
+        this.updateReturnToPatrol(vehicle, deltaTime);
       } else if (distanceToPlayer > 40) {
         // Very distant vehicles - minimal update
-        if (Math.random() < 0.3) { // Only update 30% of the time
+        if (this.random.chance(0.3)) { // Only update 30% of the time
           vehicle.updateSimple(deltaTime, 0.2);
         }
       } else if (distanceToPlayer > 25) {
@@ -122,284 +181,595 @@ export class VehicleManager {
         vehicle.updateSimple(deltaTime, 0.5);
       } else {
         // Nearby vehicles - full AI update
-        this.updateVehicleAI(vehicle, deltaTime);
+        this.updateVehicleAI(vehicle, deltaTime, player);
+        
+        // Drivers going nowhere give up, get out and leave their car where it is
+        const stopped = Math.abs(vehicle.getCurrentSpeed()) < this.crawlSpeed ? (this.stoppedTimes.get(vehicle) ?? 0) + deltaTime : 0;
+        this.stoppedTimes.set(vehicle, stopped);
+        if (stopped > this.abandonTime && !vehicle.isPolice()) {
+          this.abandoned.push({ vehicle, driver: this.releaseVehicle(vehicle) ?? PedestrianType.CIVILIAN_MALE });
+          continue;
+        }
       }
+      
+      this.vehicleGrid.insert(vehicle, vehicle.getCollider());
     }
   }
   
   /**
-   * Update AI behavior for a vehicle
+   * Move rendered vehicles between the last two simulation steps
    */
-  private updateVehicleAI(vehicle: Vehicle, deltaTime: number): void {
-    // Get current position and forward direction
+  public interpolate(alpha: number): void {
+    for (const vehicle of this.vehicles) {
+      vehicle.interpolate(alpha);
+    }
+  }
+  
+  /**
+   * Drive a traffic car along its lane, across intersections the way it has
+   * chosen, slowing for corners and queueing behind the car in front
+   */
+  private updateVehicleAI(vehicle: Vehicle, deltaTime: number, player: Player): void {
     const position = vehicle.getPosition();
     const rotation = vehicle.getRotation();
     const forward = new THREE.Vector3(0, 0, -1).applyEuler(rotation);
     
-    // Find the closest road segment
-    const closestRoad = this.findClosestRoadSegment(position);
-    if (!closestRoad) return;
-    
-    // Calculate direction along road
-    const roadDirection = new THREE.Vector3()
-      .subVectors(closestRoad.end, closestRoad.start)
-      .normalize();
-    
-    // Determine if vehicle is going the right way on the road
-    const dot = forward.dot(roadDirection);
-    const targetDirection = dot >= 0 ? roadDirection : roadDirection.clone().negate();
+    // Join the nearest lane going our way, or find one again after being knocked off course
+    let state = this.trafficStates.get(vehicle);
+    if (!state || this.distanceFromPath(state, position) > this.laneTolerance) {
+      state = this.joinLane(position, forward) ?? undefined;
+      if (!state) {
+        // Off the road, e.g. pulling out of a parking spot: merge into the nearest lane
+        this.trafficStates.delete(vehicle);
+        const nearest = this.environment.getRoadNetwork().findNearestLane(position, null, this.despawnRadius);
+        if (nearest) {
+          this.driveTowards(vehicle, nearest.point.addScaledVector(nearest.lane.direction, this.vehicleLength * 2), this.turnSpeed, deltaTime);
+        } else {
+          this.stopVehicle(vehicle, deltaTime);
+        }
+        return;
+      }
+      this.trafficStates.set(vehicle, state);
+    }
     
-    // Calculate target rotation to align with road
-    const targetRotation = Math.atan2(targetDirection.x, targetDirection.z);
+    // Head for a point a little way along the route
+    const lookAhead = Math.max(4, Math.abs(vehicle.getCurrentSpeed()) * 0.6);
+    const target = this.followPath(state, position, lookAhead);
+    if (!target) {
+      // Dead end
+      this.stopVehicle(vehicle, deltaTime);
+      return;
+    }
     
-    // Gradually steer towards road alignment
+    // Vehicles face -Z at zero rotation
     const currentRotation = rotation.y;
-    let rotationDiff = targetRotation - currentRotation;
-    
-    // Normalize rotation difference to [-PI, PI]
-    if (rotationDiff > Math.PI) rotationDiff -= Math.PI * 2;
-    if (rotationDiff < -Math.PI) rotationDiff += Math.PI * 2;
-    
-    // Apply steering
-    const steeringSpeed = 1.0;
-    const newRotation = currentRotation + Math.sign(rotationDiff) * 
-                        Math.min(Math.abs(rotationDiff), steeringSpeed * deltaTime);
-    
-    // Apply vehicle movement
-    const speed = 5.0; // Base speed
-    const moveDirection = new THREE.Vector3(0, 0, -1)
-      .applyEuler(new THREE.Euler(0, newRotation, 0));
-    
-    // Check for obstacles and adjust speed
-    const obstacleDistance = this.checkForObstacles(vehicle, moveDirection);
-    
-    // Adjust speed based on obstacles
-    let adjustedSpeed = speed;
-    if (obstacleDistance < 10) {
-      // Slow down when approaching obstacles
-      adjustedSpeed = speed * (obstacleDistance / 10);
+    let rotationDiff = Math.atan2(-(target.x - position.x), -(target.z - position.z)) - currentRotation;
+    rotationDiff = Math.atan2(Math.sin(rotationDiff), Math.cos(rotationDiff));
+    
+    // Cruise, slowing for a corner ahead or round one, and stopping at the line when we must
+    let speed = this.cruiseSpeed;
+    const cornering = state.next !== null && state.next.turn !== TurnDirection.STRAIGHT;
+    if (state.turning) {
+      if (cornering) speed = this.turnSpeed;
+    } else {
+      // Nose at the stop line
+      const toLine = Math.max(0, state.lane.end.distanceTo(position) - this.vehicleLength / 2);
+      if (this.mustStopAtLine(vehicle, state, toLine, player)) {
+        speed = Math.min(speed, Math.sqrt(2 * this.comfortDeceleration * toLine));
+      } else if (cornering) {
+        speed = Math.min(speed, Math.sqrt(this.turnSpeed * this.turnSpeed + 2 * this.comfortDeceleration * toLine));
+      }
     }
     
-    // Apply movement
-    const newPosition = position.clone().add(
-      moveDirection.multiplyScalar(adjustedSpeed * deltaTime)
-    );
-    
-    // Keep vehicle on the ground
-    newPosition.y = this.environment.getGroundHeight(newPosition.x, newPosition.z) + 0.5;
+    // Queue behind the car in front
+    const gap = this.distanceToLeader(vehicle, position, forward, player) - this.vehicleLength;
+    speed = Math.min(speed, Math.max(0, (gap - this.minGap) / this.followTime));
     
     // Update vehicle
     vehicle.setAIControlled(true);
-    vehicle.setAITargetPosition(newPosition);
-    vehicle.setAITargetRotation(newRotation);
-    vehicle.setAITargetSpeed(adjustedSpeed);
+    vehicle.setAITargetPosition(target);
+    vehicle.setAITargetRotation(currentRotation + rotationDiff);
+    vehicle.setAITargetSpeed(speed);
     
     // Let the vehicle's update method handle the actual movement
     vehicle.update(deltaTime);
   }
   
   /**
-   * Check for obstacles in front of the vehicle
+   * Whether a car must wait at the end of its lane: for a red light, a yellow it
+   * can stop for, oncoming traffic it would turn left across, or a dead end
+   * @param toLine Distance left to the stop line
    */
-  private checkForObstacles(vehicle: Vehicle, direction: THREE.Vector3): number {
-    const position = vehicle.getPosition();
-    
-    // Cast a ray forward to detect obstacles
+  private mustStopAtLine(vehicle: Vehicle, state: TrafficState, toLine: number, player: Player): boolean {
+    if (!state.next) return true;
+    
+    const signal = this.environment.getTrafficLights().getSignal(state.lane);
+    if (signal === SignalState.RED) return true;
+    if (signal === SignalState.YELLOW) {
+      // Too close to stop comfortably: carry on through
+      const speed = vehicle.getCurrentSpeed();
+      return toLine > speed * speed / (2 * this.comfortDeceleration);
+    }
     
-    // Check for other vehicles
-    for (const otherVehicle of this.vehicles) {
-      if (otherVehicle === vehicle) continue;
+    return state.next.turn === TurnDirection.LEFT && this.hasOncomingTraffic(vehicle, state.lane, player);
+  }
+  
+  /**
+   * Whether traffic coming the other way is about to cross the intersection at the end of a lane
+   */
+  private hasOncomingTraffic(vehicle: Vehicle, lane: Lane, player: Player): boolean {
+    const junction = this.environment.getRoadNetwork().getIntersection(lane.to).position;
+    const others = this.vehicleGrid.queryRadius(junction, this.yieldRange);
+    const playerVehicle = player.getCurrentVehicle();
+    if (player.isInsideVehicle() && playerVehicle) others.push(playerVehicle);
+    
+    for (const other of others) {
+      // Cars waiting to turn themselves don't hold us up
+      if (other === vehicle || other.getCurrentSpeed() < 1) continue;
       
-      const otherPosition = otherVehicle.getPosition();
-      const distance = position.distanceTo(otherPosition);
+      const heading = new THREE.Vector3(0, 0, -1).applyEuler(other.getRotation());
+      if (heading.dot(lane.direction) > -0.7) continue;
       
-      // Only check vehicles that are close and in front
-      if (distance < 20) {
-        const toOther = new THREE.Vector3().subVectors(otherPosition, position).normalize();
-        const dot = direction.dot(toOther);
-        
-        // If other vehicle is in front (within 45 degrees of forward direction)
-        if (dot > 0.7) {
-          return Math.min(distance, 20);
-        }
+      // Still short of the middle of the intersection
+      const toJunction = new THREE.Vector3().subVectors(junction, other.getPosition()).setY(0).dot(heading);
+      if (toJunction > 0 && toJunction < this.yieldRange) return true;
+    }
+    return false;
+  }
+  
+  /**
+   * Start following the nearest lane running the way a car is heading
+   */
+  private joinLane(position: THREE.Vector3, heading: THREE.Vector3): TrafficState | null {
+    const nearest = this.environment.getRoadNetwork().findNearestLane(position, heading, this.laneTolerance);
+    if (!nearest) return null;
+    return {
+      lane: nearest.lane,
+      next: this.chooseTurn(nearest.lane),
+      turning: false,
+      path: [nearest.point, nearest.lane.end.clone()],
+      segment: 0
+    };
+  }
+  
+  /**
+   * Pick which way to go at the end of a lane
+   */
+  private chooseTurn(lane: Lane): TurnConnection | null {
+    return lane.connections.length > 0 ? this.random.pick(lane.connections) : null;
+  }
+  
+  /**
+   * Move a car's progress along its route up to where it is now
+   * @returns A point lookAhead metres further along the route, or null at a dead end
+   */
+  private followPath(state: TrafficState, position: THREE.Vector3, lookAhead: number): THREE.Vector3 | null {
+    // Past the end of a segment: on to the next, the next path, or the next lane
+    for (;;) {
+      const from = state.path[state.segment];
+      const to = state.path[state.segment + 1];
+      const direction = new THREE.Vector3().subVectors(to, from).setY(0);
+      const length = direction.length();
+      const along = new THREE.Vector3().subVectors(position, from).setY(0).dot(direction) / (length || 1);
+      if (along < length - 0.5) break;
+      
+      if (state.segment + 2 < state.path.length) {
+        state.segment++;
+      } else if (!state.turning) {
+        if (!state.next) return null;
+        state.turning = true;
+        state.path = state.next.path;
+        state.segment = 0;
+      } else {
+        const lane = this.environment.getRoadNetwork().getLane(state.next?.to ?? state.lane.id);
+        state.lane = lane;
+        state.next = this.chooseTurn(lane);
+        state.turning = false;
+        state.path = [lane.start, lane.end];
+        state.segment = 0;
       }
     }
     
-    // Check for obstacles from environment
-    const obstacles = this.environment.getObstacles();
-    let minDistance = 20;
+    // The route ahead: the rest of this path, then the next one
+    const route = [this.closestPointOnSegment(state.path[state.segment], state.path[state.segment + 1], position)];
+    route.push(...state.path.slice(state.segment + 1));
+    if (!state.turning && state.next) {
+      route.push(...state.next.path.slice(1));
+    } else if (state.turning && state.next) {
+      route.push(this.environment.getRoadNetwork().getLane(state.next.to).end);
+    }
     
-    for (const obstacle of obstacles) {
-      // Simple distance check for now
-      const obstacleCenter = new THREE.Vector3();
-      obstacle.getCenter(obstacleCenter);
-      
-      const toObstacle = new THREE.Vector3().subVectors(obstacleCenter, position).normalize();
-      const dot = direction.dot(toObstacle);
-      
-      // If obstacle is in front
-      if (dot > 0.7) {
-        const distance = position.distanceTo(obstacleCenter);
-        minDistance = Math.min(minDistance, distance);
+    let remaining = lookAhead;
+    for (let i = 0; i + 1 < route.length; i++) {
+      const length = route[i].distanceTo(route[i + 1]);
+      if (length >= remaining) {
+        return route[i].clone().lerp(route[i + 1], remaining / length);
       }
+      remaining -= length;
+    }
+    return route[route.length - 1].clone();
+  }
+  
+  /**
+   * How far a car has strayed from the path segment it should be on
+   */
+  private distanceFromPath(state: TrafficState, position: THREE.Vector3): number {
+    const point = this.closestPointOnSegment(state.path[state.segment], state.path[state.segment + 1], position);
+    return Math.hypot(point.x - position.x, point.z - position.z);
+  }
+  
+  private closestPointOnSegment(start: THREE.Vector3, end: THREE.Vector3, point: THREE.Vector3): THREE.Vector3 {
+    return new THREE.Line3(start, end).closestPointToPoint(point, true, new THREE.Vector3());
+  }
+  
+  /**
+   * Distance to the nearest vehicle ahead in the same lane, the player's included
+   * @returns Centre to centre, or Infinity if the road ahead is clear
+   */
+  private distanceToLeader(vehicle: Vehicle, position: THREE.Vector3, forward: THREE.Vector3, player: Player): number {
+    const right = new THREE.Vector3(-forward.z, 0, forward.x);
+    const halfLane = this.environment.getCityLayout().roadWidth / 8 + 0.5; // Half a lane, plus a little
+    
+    const others = this.vehicleGrid.queryRadius(position, this.followRange);
+    const playerVehicle = player.getCurrentVehicle();
+    if (player.isInsideVehicle() && playerVehicle) others.push(playerVehicle);
+    
+    let nearest = Infinity;
+    for (const other of others) {
+      if (other === vehicle) continue;
+      const toOther = new THREE.Vector3().subVectors(other.getPosition(), position).setY(0);
+      const along = toOther.dot(forward);
+      if (along > 0 && along < nearest && Math.abs(toOther.dot(right)) < halfLane) {
+        nearest = along;
+      }
+    }
+    return nearest;
+  }
+  
+  /**
+   * Bring a car with nowhere to go to a halt
+   */
+  private stopVehicle(vehicle: Vehicle, deltaTime: number): void {
+    vehicle.setAIControlled(true);
+    vehicle.setAITargetPosition(vehicle.getPosition());
+    vehicle.setAITargetRotation(vehicle.getRotation().y);
+    vehicle.setAITargetSpeed(0);
+    vehicle.update(deltaTime);
+  }
+  
+  /**
+   * Pick the police cars that chase the player: the nearest ones, up to
+   * maxPursuers, leaving out units that gave up and are returning to patrol
+   */
+  private selectPursuers(player: Player): Vehicle[] {
+    if (player.getWantedLevel() === 0 || this.maxPursuers === 0) {
+      // Call off the chase
+      for (const state of this.pursuitStates.values()) {
+        state.returning = true;
+      }
+      return [];
     }
     
-    return minDistance;
+    const playerPosition = player.getPosition();
+    return this.vehicles
+      .filter(vehicle => vehicle.isPolice() && !vehicle.isWrecked() && !this.pursuitStates.get(vehicle)?.returning)
+      .filter(vehicle => vehicle.getPosition().distanceTo(playerPosition) <= this.despawnRadius)
+      .sort((a, b) => a.getPosition().distanceTo(playerPosition) - b.getPosition().distanceTo(playerPosition))
+      .slice(0, this.maxPursuers);
   }
   
   /**
-   * Find the closest road segment to a position
+   * Drive a police car after the player. The lead unit heads for where the
+   * player's car will be and tries to spin it out from behind; the others aim
+   * beside and ahead of it to box it in. Once the player is on foot or stopped
+   * units pull up next to them. A unit that loses sight of the player for too
+   * long gives up and returns to patrol.
+   * @param slot Index among the pursuing units (0 leads)
    */
-  private findClosestRoadSegment(position: THREE.Vector3): { start: THREE.Vector3, end: THREE.Vector3, width: number } | null {
-    if (this.roadSegments.length === 0) return null;
+  private updatePursuitAI(vehicle: Vehicle, deltaTime: number, player: Player, slot: number): void {
+    const position = vehicle.getPosition();
+    const playerPosition = player.getPosition();
+    const playerVehicle = player.isInsideVehicle() ? player.getCurrentVehicle() : null;
+    const playerSpeed = playerVehicle ? Math.abs(playerVehicle.getCurrentSpeed()) : 0;
+    
+    // Keep track of whether this unit can still see the player
+    let state = this.pursuitStates.get(vehicle);
+    if (!state) {
+      state = { timeLost: 0, returning: false };
+      this.pursuitStates.set(vehicle, state);
+    }
+    const canSee = position.distanceTo(playerPosition) <= this.pursuitSightRange &&
+      this.environment.hasLineOfSight(position, playerPosition);
+    state.timeLost = canSee ? 0 : state.timeLost + deltaTime;
+    
+    if (state.timeLost > this.giveUpTime) {
+      state.returning = true;
+      this.updateReturnToPatrol(vehicle, deltaTime);
+      return;
+    }
+    
+    if (canSee) {
+      this.callForBackup(player);
+    }
     
-    let closestRoad = this.roadSegments[0];
-    let closestDistance = this.distanceToRoadSegment(position, closestRoad);
+    let target = playerPosition.clone();
+    let speed = this.pursuitSpeed;
     
-    for (let i = 1; i < this.roadSegments.length; i++) {
-      const road = this.roadSegments[i];
-      const distance = this.distanceToRoadSegment(position, road);
+    if (playerVehicle && playerSpeed > 3) {
+      const heading = playerVehicle.getRotation();
+      const forward = new THREE.Vector3(0, 0, -1).applyEuler(heading);
+      const right = new THREE.Vector3(1, 0, 0).applyEuler(heading);
+      const toUnit = new THREE.Vector3().subVectors(position, playerPosition);
+      const side = toUnit.dot(right) >= 0 ? 1 : -1;
       
-      if (distance < closestDistance) {
-        closestDistance = distance;
-        closestRoad = road;
+      if (slot === 0 && player.getWantedLevel() >= this.pitWantedLevel &&
+          toUnit.length() < this.pitDistance && toUnit.dot(forward) < 0) {
+        // PIT manoeuvre: nudge the rear corner on our side so the car spins out
+        target = playerPosition.clone().addScaledVector(forward, -1.5).addScaledVector(right, side * 1.2);
+        speed = playerSpeed + 4;
+        this.tryPit(vehicle, playerVehicle, side);
+      } else {
+        target = this.predictIntercept(position, playerVehicle);
+        if (slot > 0) {
+          // Alternate units take the left and right side, later ones further ahead
+          target.addScaledVector(forward, 3 * Math.floor((slot - 1) / 2));
+          target.addScaledVector(right, slot % 2 === 1 ? 3 : -3);
+        }
+        speed = Math.min(this.pursuitSpeed, Math.max(playerSpeed + 5, target.distanceTo(position) * 1.5));
       }
+    } else {
+      // Slow down to pull up beside a player who is on foot or stopped
+      speed = Math.min(this.pursuitSpeed, Math.max(0, position.distanceTo(playerPosition) - this.pursuitStopDistance) * 1.2);
     }
     
-    return closestRoad;
+    this.driveTowards(vehicle, target, speed, deltaTime);
+    
+    // A unit bumping the player's car caused the contact, so PoliceManager
+    // must not book it as the player ramming a police car
+    if (playerVehicle && vehicle.getOrientedBox().intersectsBox(playerVehicle.getOrientedBox())) {
+      vehicle.registerImpact();
+    }
   }
   
   /**
-   * Calculate the distance from a point to a road segment
+   * Predict where the player's car will be when this unit can reach it,
+   * assuming it keeps its speed and heading
    */
-  private distanceToRoadSegment(point: THREE.Vector3, road: { start: THREE.Vector3, end: THREE.Vector3, width: number }): number {
-    const start = road.start;
-    const end = road.end;
+  private predictIntercept(position: THREE.Vector3, playerVehicle: Vehicle): THREE.Vector3 {
+    const playerPosition = playerVehicle.getPosition();
+    const velocity = new THREE.Vector3(0, 0, -1)
+      .applyEuler(playerVehicle.getRotation())
+      .multiplyScalar(playerVehicle.getCurrentSpeed());
+    
+    // Refine the time to intercept a couple of times; it converges quickly
+    let time = position.distanceTo(playerPosition) / this.pursuitSpeed;
+    const intercept = playerPosition.clone();
+    for (let i = 0; i < 2; i++) {
+      time = Math.min(time, this.maxInterceptTime);
+      intercept.copy(playerPosition).addScaledVector(velocity, time);
+      time = position.distanceTo(intercept) / this.pursuitSpeed;
+    }
     
-    // Vector from start to end
-    const roadVector = new THREE.Vector3().subVectors(end, start);
-    const roadLength = roadVector.length();
-    roadVector.normalize();
+    return intercept;
+  }
+  
+  /**
+   * Spin the player's car out when the lead unit makes contact with its rear corner
+   * @param side Which side of the player's car the unit is on (1 right, -1 left)
+   */
+  private tryPit(vehicle: Vehicle, playerVehicle: Vehicle, side: number): void {
+    if (playerVehicle.hasCollidedRecently || !vehicle.getOrientedBox().intersectsBox(playerVehicle.getOrientedBox())) {
+      return;
+    }
     
-    // Vector from start to point
-    const pointVector = new THREE.Vector3().subVectors(point, start);
+    // Pushing the right rear corner swings the nose right (negative yaw), and vice versa
+    playerVehicle.knock(-side * 0.8, 0.5);
+  }
+  
+  /**
+   * Spawn another police car to join the chase, at most every backupInterval seconds
+   */
+  private callForBackup(player: Player): void {
+    if (this.timeSinceBackup < this.backupInterval || this.pursuers.length >= this.maxPursuers) {
+      return;
+    }
     
-    // Project point onto road line
-    const projection = pointVector.dot(roadVector);
+    this.timeSinceBackup = 0;
+    this.trySpawnVehicle(player, VehicleType.POLICE);
+  }
+  
+  /**
+   * Drive a unit that gave up back onto the nearest lane, where it rejoins traffic
+   */
+  private updateReturnToPatrol(vehicle: Vehicle, deltaTime: number): void {
+    const position = vehicle.getPosition();
+    const nearest = this.environment.getRoadNetwork().findNearestLane(position, null, this.despawnRadius);
+    if (!nearest || Math.hypot(nearest.point.x - position.x, nearest.point.z - position.z) < this.laneTolerance / 4) {
+      // Back on patrol; regular traffic AI takes over
+      this.pursuitStates.delete(vehicle);
+      this.trafficStates.delete(vehicle);
+      return;
+    }
     
-    // Clamp projection to road segment
-    const clampedProjection = Math.max(0, Math.min(roadLength, projection));
+    this.driveTowards(vehicle, nearest.point, 8, deltaTime);
+  }
+  
+  /**
+   * Steer a unit towards a target at a speed, going around buildings in the way
+   */
+  private driveTowards(vehicle: Vehicle, target: THREE.Vector3, speed: number, deltaTime: number): void {
+    const position = vehicle.getPosition();
+    const toTarget = new THREE.Vector3().subVectors(target, position);
+    toTarget.y = 0;
+    
+    // Look further ahead the faster we go
+    const lookAhead = Math.min(toTarget.length(), Math.max(8, Math.abs(vehicle.getCurrentSpeed()) * 1.5));
+    const direction = this.findClearDirection(position, toTarget, lookAhead);
+    if (!direction) {
+      // Boxed in by buildings: back off and let the next steps find a way
+      speed = -3;
+    }
+    const heading = direction ?? toTarget;
     
-    // Calculate closest point on road
-    const closestPoint = start.clone().add(
-      roadVector.clone().multiplyScalar(clampedProjection)
-    );
+    // Vehicles face -Z at zero rotation
+    const currentRotation = vehicle.getRotation().y;
+    let rotationDiff = Math.atan2(-heading.x, -heading.z) - currentRotation;
+    rotationDiff = Math.atan2(Math.sin(rotationDiff), Math.cos(rotationDiff));
     
-    // Return distance to closest point
-    return point.distanceTo(closestPoint);
+    // Slow for sharp turns so units don't overshoot corners
+    if (speed > 0 && Math.abs(rotationDiff) > Math.PI / 3) {
+      speed = Math.min(speed, 8);
+    }
+    
+    vehicle.setAIControlled(true);
+    vehicle.setAITargetPosition(target);
+    vehicle.setAITargetRotation(currentRotation + rotationDiff);
+    vehicle.setAITargetSpeed(speed);
+    vehicle.update(deltaTime);
+  }
+  
+  /**
+   * Find a direction close to the desired one that is clear of buildings for lookAhead metres
+   * @returns The direction, or null if every direction tried is blocked
+   */
+  private findClearDirection(position: THREE.Vector3, desired: THREE.Vector3, lookAhead: number): THREE.Vector3 | null {
+    if (desired.lengthSq() === 0) return desired;
+    
+    // Try the desired direction first, then fan out to either side
+    const up = new THREE.Vector3(0, 1, 0);
+    for (const angle of [0, 0.35, -0.35, 0.7, -0.7, 1.05, -1.05, 1.4, -1.4, 1.75, -1.75]) {
+      const direction = desired.clone().applyAxisAngle(up, angle);
+      if (this.environment.raycastObstacles(position, direction, lookAhead, this.avoidanceMargin) === Infinity) {
+        return direction;
+      }
+    }
+    
+    return null;
   }
   
   /**
    * Spawn initial vehicles on the road network
    */
   private spawnInitialVehicles(): void {
-    // Spawn a few vehicles on the roads
+    // Spawn a few vehicles on the roads around the start
     for (let i = 0; i < 5; i++) {
-      const roadIndex = Math.floor(Math.random() * this.roadSegments.length);
-      const road = this.roadSegments[roadIndex];
-      
-      // Random position along the road
-      const t = Math.random();
-      const position = new THREE.Vector3().lerpVectors(road.start, road.end, t);
-      
-      // Offset from center of road
-      const roadDirection = new THREE.Vector3().subVectors(road.end, road.start).normalize();
-      const perpendicular = new THREE.Vector3(-roadDirection.z, 0, roadDirection.x);
-      position.add(perpendicular.multiplyScalar((Math.random() - 0.5) * road.width * 0.8));
-      
-      // Set height
-      position.y = this.environment.getGroundHeight(position.x, position.z) + 0.5;
-      
-      // Determine rotation (along road direction)
-      const rotation = Math.atan2(roadDirection.x, roadDirection.z);
-      
-      // Randomly flip direction
-      const flipDirection = Math.random() > 0.5;
-      const finalRotation = flipDirection ? rotation + Math.PI : rotation;
-      
-      // Create vehicle
-    //   @ts-ignore
-      const vehicleType = this.selectRandomVehicleType();
-      const vehicle = new Vehicle(this.scene, this.environment, position, finalRotation);
-      
-      // Add to list
-      this.vehicles.push(vehicle);
+      const spawnPoint = this.findSpawnPoint(new THREE.Vector3(), 0);
+      if (spawnPoint) {
+        this.spawnOnLane(spawnPoint.lane, spawnPoint.position, this.selectRandomVehicleType());
+      }
     }
   }
   
   /**
    * Try to spawn a new vehicle if conditions are right
+   * @param vehicleType Type to spawn (a dispatched unit, not counted against maxVehicles); random traffic if left out
+   * @returns The new vehicle, or null if none could be placed
    */
-  private trySpawnVehicle(player: Player): void {
-    // Don't spawn if we've reached the maximum
-    if (this.vehicles.length >= this.maxVehicles) {
-      return;
+  private trySpawnVehicle(player: Player, vehicleType?: VehicleType): Vehicle | null {
+    // Don't spawn traffic if we've reached the maximum
+    if (!vehicleType && this.vehicles.length >= this.maxVehicles) {
+      return null;
     }
     
-    // Get player position
-    const playerPos = player.getPosition();
-    
-    // Find a road segment for spawning
-    const spawnRoad = this.findSpawnRoad(playerPos);
-    if (!spawnRoad) return;
-    
-    // Random position along the road
-    const t = Math.random();
-    const position = new THREE.Vector3().lerpVectors(spawnRoad.start, spawnRoad.end, t);
-    
-    // Offset from center of road
-    const roadDirection = new THREE.Vector3().subVectors(spawnRoad.end, spawnRoad.start).normalize();
-    const perpendicular = new THREE.Vector3(-roadDirection.z, 0, roadDirection.x);
-    position.add(perpendicular.multiplyScalar((Math.random() - 0.5) * spawnRoad.width * 0.8));
+    // Find a point on a lane for spawning
+    const spawnPoint = this.findSpawnPoint(player.getPosition(), this.minSpawnDistance);
+    if (!spawnPoint) return null;
     
+    return this.spawnOnLane(spawnPoint.lane, spawnPoint.position, vehicleType ?? this.selectRandomVehicleType());
+  }
+  
+  /**
+   * Place a vehicle on a lane, facing along it, if there is room
+   * @returns The new vehicle, or null if the spot is taken
+   */
+  private spawnOnLane(lane: Lane, position: THREE.Vector3, vehicleType: VehicleType): Vehicle | null {
     // Set height
     position.y = this.environment.getGroundHeight(position.x, position.z) + 0.5;
     
     // Check if position is valid
     if (!this.isValidSpawnPosition(position)) {
-      return;
+      return null;
     }
     
-    // Determine rotation (along road direction)
-    const rotation = Math.atan2(roadDirection.x, roadDirection.z);
-    
-    // Randomly flip direction
-    const flipDirection = Math.random() > 0.5;
-    const finalRotation = flipDirection ? rotation + Math.PI : rotation;
+    // Create vehicle, facing along the lane (vehicles face -Z at zero rotation)
+    const rotation = Math.atan2(-lane.direction.x, -lane.direction.z);
+    const vehicle = new Vehicle(this.scene, this.environment, position, rotation, vehicleType);
     
-    // Create vehicle
-    const vehicle = new Vehicle(this.scene, this.environment, position, finalRotation);
-    
-    // Add to list
+    // Police cars are driven by cops; who drives the rest is settled when they get out
+    this.addTraffic(vehicle, vehicleType === VehicleType.POLICE ? PedestrianType.COP : null);
+    return vehicle;
+  }
+  
+  /**
+   * Put a car into the traffic, e.g. one a pedestrian got into where it was parked
+   * @param driver Who is at the wheel, or null for a local
+   */
+  public addTraffic(vehicle: Vehicle, driver: PedestrianType | null): void {
+    vehicle.isOccupied = true;
+    if (driver) this.drivers.set(vehicle, driver);
     this.vehicles.push(vehicle);
+    this.vehicleGrid.insert(vehicle, vehicle.getCollider());
   }
   
   /**
-   * Find a road segment suitable for spawning
+   * Take a car out of the traffic, e.g. when it is stolen
+   * @returns Who was at the wheel, or null if it was not in the traffic
    */
-  private findSpawnRoad(playerPos: THREE.Vector3): { start: THREE.Vector3, end: THREE.Vector3, width: number } | null {
-    // Filter roads by distance
-    const candidateRoads = this.roadSegments.filter(road => {
-      const roadCenter = new THREE.Vector3().lerpVectors(road.start, road.end, 0.5);
-      const distance = roadCenter.distanceTo(playerPos);
-      return distance > this.minSpawnDistance && distance < this.spawnRadius;
-    });
+  public releaseVehicle(vehicle: Vehicle): PedestrianType | null {
+    if (!this.vehicles.includes(vehicle)) return null;
     
-    if (candidateRoads.length === 0) return null;
+    const driver = this.drivers.get(vehicle) ?? pickPedestrianType(this.environment.getDistrictAt(vehicle.getPosition()), this.random);
+    this.removeVehicle(vehicle);
+    return driver;
+  }
+  
+  private removeVehicle(vehicle: Vehicle): void {
+    const index = this.vehicles.indexOf(vehicle);
+    if (index < 0) return;
+    
+    this.vehicles.splice(index, 1);
+    this.vehicleGrid.remove(vehicle);
+    this.pursuers = this.pursuers.filter(pursuer => pursuer !== vehicle);
+    this.pursuitStates.delete(vehicle);
+    this.trafficStates.delete(vehicle);
+    this.stoppedTimes.delete(vehicle);
+    this.drivers.delete(vehicle);
+  }
+  
+  /**
+   * Take the cars given up on since last asked, with their drivers, to park them and let the drivers out
+   */
+  public collectAbandoned(): { vehicle: Vehicle, driver: PedestrianType }[] {
+    const abandoned = this.abandoned;
+    this.abandoned = [];
+    return abandoned;
+  }
+  
+  /**
+   * Spawn a police car on a road out of the player's immediate view (used by PoliceManager to dispatch units)
+   */
+  public spawnPoliceVehicle(player: Player): Vehicle | null {
+    return this.trySpawnVehicle(player, VehicleType.POLICE);
+  }
+  
+  /**
+   * Find a point on a lane between minDistance and spawnRadius from a position
+   */
+  private findSpawnPoint(center: THREE.Vector3, minDistance: number): { lane: Lane, position: THREE.Vector3 } | null {
+    const lanes = this.environment.getRoadNetwork().getLanesNear(center, this.spawnRadius);
+    if (lanes.length === 0) return null;
+    
+    // Try several random points along the lanes
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const lane = this.random.pick(lanes);
+      const position = lane.start.clone().addScaledVector(lane.direction, this.random.next() * lane.length);
+      const distance = position.distanceTo(center);
+      if (distance >= minDistance && distance < this.spawnRadius) {
+        return { lane, position };
+      }
+    }
     
-    // Pick a random road from candidates
-    const randomIndex = Math.floor(Math.random() * candidateRoads.length);
-    return candidateRoads[randomIndex];
+    return null;
   }
   
   /**
@@ -413,7 +783,7 @@ export class VehicleManager {
     );
     
     // Check against obstacles
-    const obstacles = this.environment.getObstacles();
+    const obstacles = this.environment.queryObstacles(tempBox);
     for (const obstacle of obstacles) {
       if (tempBox.intersectsBox(obstacle)) {
         return false;
@@ -421,7 +791,7 @@ export class VehicleManager {
     }
     
     // Check against other vehicles to avoid overlap
-    for (const vehicle of this.vehicles) {
+    for (const vehicle of this.vehicleGrid.queryRadius(position, 5)) {
       const distance = position.distanceTo(vehicle.getPosition());
       if (distance < 5) { // Minimum distance between vehicles
         return false;
@@ -435,7 +805,7 @@ export class VehicleManager {
    * Select a random vehicle type based on probabilities
    */
   private selectRandomVehicleType(): VehicleType {
-    const rand = Math.random();
+    const rand = this.random.next();
     let cumulativeProbability = 0;
     
     for (const vehicleType of this.vehicleTypes) {
@@ -456,6 +826,27 @@ export class VehicleManager {
     return this.vehicles;
   }
   
+  /**
+   * Get the working police cars in traffic (including pursuing units)
+   */
+  public getPoliceVehicles(): Vehicle[] {
+    return this.vehicles.filter(vehicle => vehicle.isPolice() && !vehicle.isWrecked());
+  }
+  
+  /**
+   * Get the police cars chasing the player this step
+   */
+  public getPursuers(): Vehicle[] {
+    return this.pursuers;
+  }
+  
+  /**
+   * Set how many police cars may chase a wanted player at once
+   */
+  public setMaxPursuers(max: number): void {
+    this.maxPursuers = max;
+  }
+  
   /**
    * Set the maximum number of vehicles
    */
@@ -463,6 +854,18 @@ export class VehicleManager {
     this.maxVehicles = max;
   }
   
+  /**
+   * Tow away wrecks the player has left behind
+   */
+  public removeExpired(playerPosition: THREE.Vector3): void {
+    for (const vehicle of this.vehicles.filter(vehicle => vehicle.isWrecked())) {
+      if (vehicle.getPosition().distanceTo(playerPosition) > this.wreckClearRadius) {
+        this.scene.remove(vehicle.getMesh());
+        this.removeVehicle(vehicle);
+      }
+    }
+  }
+  
   /**
    * Clean up resources
    */
@@ -471,5 +874,12 @@ export class VehicleManager {
       this.scene.remove(vehicle.getMesh());
     }
     this.vehicles = [];
+    this.vehicleGrid.clear();
+    this.pursuers = [];
+    this.pursuitStates.clear();
+    this.trafficStates.clear();
+    this.drivers.clear();
+    this.stoppedTimes.clear();
+    this.abandoned = [];
   }
 }
\ No newline at end of file
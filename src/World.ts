@@ -0,0 +1,421 @@
+import * as THREE from 'three';
+import { Player } from './Player';
+import { Environment } from './Environment';
+import { InputManager } from './InputManager';
+import { Vehicle } from './Vehicle';
+import { MissionManager } from './missions/MissionManager';
+import { MissionUI } from './missions/MissionUI';
+import { PedestrianManager } from './PedestrianManager';
+import { VehicleManager } from './VehicleManager';
+import { PoliceManager } from './police/PoliceManager';
+import { RespawnManager } from './RespawnManager';
+import { WeaponManager } from './weapons/WeaponManager';
+import { ExplosionManager } from './weapons/ExplosionManager';
+import { SkidMarkManager } from './effects/SkidMarkManager';
+import { CollisionManager } from './physics/CollisionManager';
+import { SpatialHash } from './physics/SpatialHash';
+import { RandomService } from './utils/Random';
+import { HandlingManager } from './handling/HandlingManager';
+
+/**
+ * Options for constructing a World
+ */
+export interface WorldOptions {
+  // Mission HUD and dialogs; leave out to run missions without a DOM
+  missionUI?: MissionUI | null;
+
+  // World seed; the same seed always builds the same city and traffic (random if left out)
+  seed?: number;
+}
+
+/**
+ * World owns the simulated game state - scene graph, environment, player,
+ * vehicles, pedestrians, traffic and missions - and advances it one fixed
+ * step at a time. It never touches the renderer or the DOM, so it can be
+ * driven by Game in the browser or by HeadlessSimulation in Node.
+ */
+export class World {
+  private scene: THREE.Scene;
+  private random: RandomService;
+  private environment: Environment;
+  private player: Player;
+  private vehicles: Vehicle[] = []; // Player-accessible vehicles
+  private vehicleGrid: SpatialHash<Vehicle> = new SpatialHash(10); // Every vehicle, traffic and police included, by where it is
+  private missionManager: MissionManager;
+  private pedestrianManager: PedestrianManager;
+  private vehicleManager: VehicleManager; // AI traffic vehicles
+  private policeManager: PoliceManager; // Wanted level and police response
+  private respawnManager: RespawnManager; // Wasted and Busted
+  private weaponManager: WeaponManager; // Player's weapons, shots and pickups
+  private explosionManager: ExplosionManager; // Rocket and vehicle explosions
+  private skidMarkManager: SkidMarkManager; // Skid marks and tyre screech
+  private collisionManager: CollisionManager; // Crashes between vehicles and with pedestrians
+  private initialized = false;
+  private elapsedTime = 0;
+
+  constructor(
+    private inputManager: InputManager,
+    options: WorldOptions = {}
+  ) {
+    // Initialize Three.js scene
+    this.scene = new THREE.Scene();
+
+    // Seeded random streams for world generation and AI
+    this.random = new RandomService(options.seed);
+
+    // Initialize environment (terrain, buildings, etc.)
+    this.environment = new Environment(this.scene, this.random.getStream('world'));
+
+    // Initialize player
+    this.player = new Player(this.scene, this.inputManager, this.environment);
+
+    // Create vehicles
+    this.createVehicles();
+
+    // Initialize mission manager
+    this.missionManager = new MissionManager(
+      this.scene,
+      this.player,
+      this.inputManager,
+      this.environment,
+      this.random.getStream('missions'),
+      options.missionUI ?? null
+    );
+
+    // Initialize pedestrian manager
+    this.pedestrianManager = new PedestrianManager(
+      this.scene,
+      this.environment,
+      this.random.getStream('peds')
+    );
+
+    // Initialize vehicle manager for AI traffic
+    this.vehicleManager = new VehicleManager(
+      this.scene,
+      this.environment,
+      this.random.getStream('traffic')
+    );
+
+    // Initialize police response to the player's crimes
+    this.policeManager = new PoliceManager(
+      this.scene,
+      this.environment,
+      this.vehicleManager,
+      this.random.getStream('police')
+    );
+
+    // Initialize explosions, weapons and pickups
+    this.explosionManager = new ExplosionManager(this.scene, this.policeManager);
+    this.weaponManager = new WeaponManager(
+      this.scene,
+      this.environment,
+      this.inputManager,
+      this.policeManager,
+      this.explosionManager,
+      this.random.getStream('weapons')
+    );
+
+    // Resolve crashes, reporting the player's to the police
+    this.collisionManager = new CollisionManager(this.policeManager);
+
+    // Lay skid marks under sliding tyres
+    this.skidMarkManager = new SkidMarkManager(this.scene);
+
+    // Respawn the player at a hospital or police station when killed or arrested
+    this.respawnManager = new RespawnManager(this.player, this.missionManager, this.policeManager);
+
+    // Vehicles already on the road pick up handling.cfg when it is (re)loaded
+    HandlingManager.getInstance().setReloadCallback(() => this.applyHandling());
+  }
+
+  /**
+   * Give every vehicle the current handling profile for its type
+   */
+  private applyHandling(): void {
+    const handling = HandlingManager.getInstance();
+    for (const vehicle of [...this.vehicles, ...this.vehicleManager.getVehicles(), ...this.policeManager.getVehicles()]) {
+      vehicle.applyHandling(handling.getProfile(vehicle.getVehicleType()));
+    }
+  }
+
+  /**
+   * Spawn the initial pedestrians and traffic (only once, even across pause/resume)
+   */
+  public initialize(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    this.pedestrianManager.initialize();
+    this.vehicleManager.initialize();
+  }
+
+  private createVehicles(): void {
+    // Create a few vehicles around the map
+    const vehiclePositions = [
+      new THREE.Vector3(15, 0, 15),
+      new THREE.Vector3(-20, 0, 5),
+      new THREE.Vector3(5, 0, -25)
+    ];
+
+    const vehicleRotations = [
+      Math.PI / 4,  // 45 degrees
+      Math.PI,      // 180 degrees
+      -Math.PI / 2  // -90 degrees
+    ];
+
+    for (let i = 0; i < vehiclePositions.length; i++) {
+      const vehicle = new Vehicle(
+        this.scene,
+        this.environment,
+        vehiclePositions[i],
+        vehicleRotations[i]
+      );
+
+      this.vehicles.push(vehicle);
+    }
+
+    // Register enterable vehicles with the scene so the player can find them
+    this.scene.userData.vehicles = this.vehicles;
+
+    // Set the first vehicle as the player's current vehicle (for interaction)
+    if (this.vehicles.length > 0) {
+      this.player.setCurrentVehicle(this.vehicles[0]);
+    }
+  }
+
+  /**
+   * Pedestrians who got into parked cars drive off with the traffic; traffic
+   * drivers who gave up on their cars get out and leave them parked
+   */
+  private handOverVehicles(): void {
+    for (const { vehicle, driver } of this.pedestrianManager.collectDrivers()) {
+      // Unless the car was taken away meanwhile, e.g. by loading a save
+      const parked = this.vehicles.indexOf(vehicle);
+      if (parked < 0) continue;
+      this.vehicles.splice(parked, 1);
+      this.vehicleManager.addTraffic(vehicle, driver);
+    }
+
+    for (const { vehicle, driver } of this.vehicleManager.collectAbandoned()) {
+      vehicle.exitVehicle();
+      vehicle.setAIControlled(false);
+      this.vehicles.push(vehicle);
+      this.pedestrianManager.addDriver(vehicle, driver, null);
+    }
+  }
+
+  /**
+   * Take a car the player is carjacking out of the traffic, leave it for the
+   * player to get into, and throw its driver out onto the street
+   */
+  private handOverCarjackedVehicle(): void {
+    const vehicle = this.player.collectCarjackedVehicle();
+    if (!vehicle) return;
+
+    const driver = this.vehicleManager.releaseVehicle(vehicle);
+    vehicle.exitVehicle();
+    vehicle.setAIControlled(false);
+    this.vehicles.push(vehicle);
+    if (driver) this.pedestrianManager.addDriver(vehicle, driver, this.player);
+    this.policeManager.reportCarjack(this.player, vehicle);
+  }
+
+  /**
+   * Advance all game logic by one fixed simulation step
+   */
+  public step(deltaTime: number): void {
+    this.elapsedTime += deltaTime;
+
+    // Change the traffic lights
+    this.environment.getTrafficLights().update(deltaTime);
+
+    // Update player (and the vehicle they are driving); they have no control while Wasted or Busted
+    if (!this.respawnManager.isActive()) {
+      this.player.update(deltaTime, this.vehicleManager.getVehicles());
+      this.handOverCarjackedVehicle();
+    }
+
+    // Get player position for distance calculations
+    const playerPosition = this.player.getPosition();
+
+    // Update player-accessible vehicles with distance-based optimization
+    for (const vehicle of this.vehicles) {
+      if (!vehicle.isPlayerInside()) {
+        const distanceToPlayer = vehicle.getPosition().distanceTo(playerPosition);
+
+        // Use simplified physics for distant vehicles
+        if (distanceToPlayer > 30) {
+          vehicle.updateSimple(deltaTime, 0.3); // Very simplified update
+        } else if (distanceToPlayer > 15) {
+          vehicle.updateSimple(deltaTime, 0.7); // Somewhat simplified update
+        } else {
+          vehicle.update(deltaTime); // Full physics update for nearby vehicles
+        }
+      }
+    }
+
+    // Update pedestrians with optimized processing
+    const allVehicles = [...this.vehicles, ...this.vehicleManager.getVehicles(), ...this.policeManager.getVehicles()];
+    this.indexVehicles(allVehicles);
+    this.pedestrianManager.update(deltaTime, this.player, this.vehicleGrid);
+
+    // Update AI traffic vehicles
+    this.vehicleManager.update(deltaTime, this.player);
+
+    // Cars changing hands between the pedestrians and the traffic
+    this.handOverVehicles();
+
+    // Crashes between vehicles, and vehicles running people down
+    this.indexVehicles(allVehicles);
+    this.collisionManager.update(
+      this.player,
+      allVehicles,
+      this.vehicleGrid,
+      [...this.pedestrianManager.getPedestrians(), ...this.policeManager.getOfficers()]
+    );
+
+    // Moving vehicles hurt the player on foot
+    this.player.checkVehicleHits(allVehicles);
+
+    // Check for crimes and update the wanted level and police response
+    this.policeManager.update(deltaTime, this.player, this.vehicleGrid);
+
+    // Fire the player's weapon and fly rockets
+    const targets = [...this.pedestrianManager.getPedestrians(), ...this.policeManager.getOfficers()];
+    this.weaponManager.update(deltaTime, this.player, targets, allVehicles, !this.respawnManager.isActive());
+
+    // Blow up vehicles that have burnt down
+    this.explosionManager.update(deltaTime, this.player, targets, allVehicles);
+
+    // Mark the road under sliding tyres
+    this.skidMarkManager.update(allVehicles, this.player.getPosition());
+
+    // Update mission manager; contacts can't be picked up while Wasted or Busted
+    if (!this.respawnManager.isActive()) {
+      this.missionManager.update(deltaTime);
+    }
+
+    // Check whether the player has been wasted or busted
+    this.respawnManager.update(deltaTime);
+  }
+
+  /**
+   * File every vehicle in the grid at where it is now
+   */
+  private indexVehicles(vehicles: Vehicle[]): void {
+    this.vehicleGrid.clear();
+    for (const vehicle of vehicles) {
+      this.vehicleGrid.insert(vehicle, vehicle.getCollider());
+    }
+  }
+
+  /**
+   * Move rendered entities between the last two simulation steps
+   * @param alpha Blend factor between the previous (0) and current (1) step
+   */
+  public interpolate(alpha: number): void {
+    this.player.interpolate(alpha);
+    for (const vehicle of this.vehicles) {
+      vehicle.interpolate(alpha);
+    }
+    this.pedestrianManager.interpolate(alpha);
+    this.vehicleManager.interpolate(alpha);
+    this.policeManager.interpolate(alpha);
+  }
+
+  /**
+   * Remove expired pedestrians and traffic: the dead and the wrecked the player
+   * has left behind. Everyone else, pursuing police included, carries on.
+   */
+  public cleanup(): void {
+    const playerPosition = this.player.getPosition();
+    this.pedestrianManager.removeExpired(playerPosition);
+    this.vehicleManager.removeExpired(playerPosition);
+  }
+
+  // Getters
+
+  public getScene(): THREE.Scene {
+    return this.scene;
+  }
+
+  public getRandom(): RandomService {
+    return this.random;
+  }
+
+  /**
+   * Seed this world was generated from
+   */
+  public getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  public getEnvironment(): Environment {
+    return this.environment;
+  }
+
+  public getPlayer(): Player {
+    return this.player;
+  }
+
+  public getVehicles(): Vehicle[] {
+    return this.vehicles;
+  }
+
+  /**
+   * Park a vehicle where the player can find it (e.g. when loading a save)
+   */
+  public addVehicle(vehicle: Vehicle): void {
+    this.vehicles.push(vehicle);
+  }
+
+  /**
+   * Take a parked vehicle out of the world (e.g. when loading a save that doesn't have it)
+   */
+  public removeVehicle(vehicle: Vehicle): void {
+    const index = this.vehicles.indexOf(vehicle);
+    if (index < 0) return;
+
+    this.vehicles.splice(index, 1);
+    this.scene.remove(vehicle.getMesh());
+  }
+
+  public getMissionManager(): MissionManager {
+    return this.missionManager;
+  }
+
+  public getPedestrianManager(): PedestrianManager {
+    return this.pedestrianManager;
+  }
+
+  public getVehicleManager(): VehicleManager {
+    return this.vehicleManager;
+  }
+
+  public getPoliceManager(): PoliceManager {
+    return this.policeManager;
+  }
+
+  public getWeaponManager(): WeaponManager {
+    return this.weaponManager;
+  }
+
+  public getExplosionManager(): ExplosionManager {
+    return this.explosionManager;
+  }
+
+  public getSkidMarkManager(): SkidMarkManager {
+    return this.skidMarkManager;
+  }
+
+  public getRespawnManager(): RespawnManager {
+    return this.respawnManager;
+  }
+
+  /**
+   * Total simulated time in seconds
+   */
+  public getElapsedTime(): number {
+    return this.elapsedTime;
+  }
+}
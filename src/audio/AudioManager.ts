@@ -0,0 +1,143 @@
+import { AssetLoader } from '../utils/AssetLoader';
+
+/**
+ * Sounds that play continuously while something keeps them going
+ */
+export enum LoopSound {
+  TYRE_SCREECH = 'tyre_screech'
+}
+
+interface Loop {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+/**
+ * AudioManager plays sound effects through the Web Audio API. Looping sounds
+ * belong to an owner (e.g. a vehicle): each owner has its own copy, faded in
+ * and out with setLoopVolume. Sounds missing from the AssetLoader are
+ * synthesised. Without Web Audio (headless runs) every call does nothing.
+ */
+export class AudioManager {
+  private static instance: AudioManager;
+
+  private context: AudioContext | null = null;
+  private buffers: Map<LoopSound, AudioBuffer> = new Map();
+  private loops: Map<LoopSound, Map<object, Loop>> = new Map();
+
+  // Tuning
+  private fadeTime = 0.05; // Seconds for a loop to reach a new volume
+
+  private constructor() {
+    // The AudioContext is created on first use
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): AudioManager {
+    if (!AudioManager.instance) {
+      AudioManager.instance = new AudioManager();
+    }
+    return AudioManager.instance;
+  }
+
+  /**
+   * Start, fade or (at volume 0) stop an owner's copy of a looping sound
+   * @param volume 0-1
+   */
+  public setLoopVolume(owner: object, sound: LoopSound, volume: number): void {
+    let loops = this.loops.get(sound);
+    let loop = loops?.get(owner);
+
+    if (volume <= 0) {
+      if (loop) {
+        loop.source.stop();
+        loops?.delete(owner);
+      }
+      return;
+    }
+
+    const context = this.getContext();
+    if (!context) return;
+
+    if (!loop) {
+      const source = context.createBufferSource();
+      source.buffer = this.getBuffer(context, sound);
+      source.loop = true;
+      const gain = context.createGain();
+      gain.gain.value = 0;
+      source.connect(gain).connect(context.destination);
+      source.start();
+
+      loop = { source, gain };
+      if (!loops) {
+        loops = new Map();
+        this.loops.set(sound, loops);
+      }
+      loops.set(owner, loop);
+    }
+    loop.gain.gain.setTargetAtTime(Math.min(1, volume), context.currentTime, this.fadeTime);
+  }
+
+  /**
+   * Stop every looping sound (when the game stops)
+   */
+  public stopAll(): void {
+    for (const loops of this.loops.values()) {
+      for (const loop of loops.values()) {
+        loop.source.stop();
+      }
+    }
+    this.loops.clear();
+  }
+
+  /**
+   * The AudioContext, created on first use; null without Web Audio
+   */
+  private getContext(): AudioContext | null {
+    if (!this.context) {
+      if (typeof AudioContext === 'undefined') return null;
+      this.context = new AudioContext();
+    }
+
+    // Browsers start audio suspended until the player has interacted with the page
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {
+        // Still waiting for a user gesture; try again next time
+      });
+    }
+    return this.context;
+  }
+
+  private getBuffer(context: AudioContext, sound: LoopSound): AudioBuffer {
+    let buffer = this.buffers.get(sound) ?? AssetLoader.getInstance().getAudio(sound);
+    if (!buffer) {
+      buffer = this.synthesise(context, sound);
+    }
+    this.buffers.set(sound, buffer);
+    return buffer;
+  }
+
+  /**
+   * Make a stand-in for a sound with no audio file: one second that loops seamlessly
+   */
+  private synthesise(context: AudioContext, sound: LoopSound): AudioBuffer {
+    const sampleRate = context.sampleRate;
+    const buffer = context.createBuffer(1, sampleRate, sampleRate);
+    const samples = buffer.getChannelData(0);
+
+    switch (sound) {
+      case LoopSound.TYRE_SCREECH:
+        // A wavering squeal over rubbery hiss
+        for (let i = 0; i < samples.length; i++) {
+          const t = i / sampleRate;
+          const squeal = Math.sin(2 * Math.PI * 1800 * t + 3 * Math.sin(2 * Math.PI * 6 * t));
+          const hiss = Math.random() * 2 - 1;
+          samples[i] = 0.3 * squeal + 0.1 * hiss;
+        }
+        break;
+    }
+    return buffer;
+  }
+}
@@ -0,0 +1,196 @@
+import * as THREE from 'three';
+import { RandomStream } from '../utils/Random';
+import { BuildingLot, CityBlock, CityLayout, District, RoadEdge, RoadNode, SidewalkPath } from './CityLayout';
+
+/**
+ * CityGenerator lays out the city from the world seed: a grid of roads
+ * meeting at intersections, the blocks between them with a sidewalk round
+ * the edge, and buildings of varied footprints and heights on the blocks.
+ * Buildings stand inside the sidewalks, so they never reach a road. The
+ * blocks around the origin, where the player starts and the missions
+ * play out, are left open as plazas. Downtown is ringed by the gangs'
+ * districts, each taking a third of the city around it.
+ */
+export class CityGenerator {
+  // Tuning
+  private roadSpacing = 80; // Between the centre lines of neighbouring roads
+  private roadsEachWay = 13; // Roads in each direction, centred on the origin
+  private roadWidth = 14; // Two lanes each way
+  private sidewalkWidth = 3;
+  private curbHeight = 0.15;
+  private parkChance = 0.1; // Chance a block is left open
+  private openRadius = 50; // Blocks reaching this close to the origin are left open
+  private emptyLotChance = 0.15; // Chance a lot is a yard or car park instead of a building
+  private minHeight = 8;
+  private maxHeight = 60; // Downtown; buildings get lower towards the edge of the city
+  private downtownRadius = 450; // Distance from the origin at which buildings are at their lowest
+  private downtownDistrictSize = 150; // Blocks whose centres are closer than this along both axes are downtown
+
+  constructor(private random: RandomStream) {}
+
+  /**
+   * Lay out the city
+   * @param groundHeight Height of the road surface
+   */
+  public generate(groundHeight: number): CityLayout {
+    // Road centre lines, the same along both axes
+    const lines: number[] = [];
+    for (let i = 0; i < this.roadsEachWay; i++) {
+      lines.push((i - (this.roadsEachWay - 1) / 2) * this.roadSpacing);
+    }
+
+    const { nodes, edges } = this.layRoads(lines, groundHeight);
+    const blocks: CityBlock[] = [];
+    const sidewalks: SidewalkPath[] = [];
+    const buildings: BuildingLot[] = [];
+
+    const halfRoad = this.roadWidth / 2;
+    const curbTop = groundHeight + this.curbHeight;
+    for (let i = 0; i < lines.length - 1; i++) {
+      for (let j = 0; j < lines.length - 1; j++) {
+        const min = new THREE.Vector3(lines[i] + halfRoad, groundHeight, lines[j] + halfRoad);
+        const max = new THREE.Vector3(lines[i + 1] - halfRoad, curbTop, lines[j + 1] - halfRoad);
+        const bounds = new THREE.Box3(min, max);
+
+        const nearOrigin = bounds.distanceToPoint(new THREE.Vector3(0, groundHeight, 0)) < this.openRadius;
+        const block: CityBlock = {
+          id: blocks.length,
+          polygon: this.rectangle(min.x, min.z, max.x, max.z, curbTop),
+          bounds,
+          park: nearOrigin || this.random.chance(this.parkChance),
+          district: this.districtAt(bounds.getCenter(new THREE.Vector3()))
+        };
+        blocks.push(block);
+
+        // Along the middle of the sidewalk
+        const inset = this.sidewalkWidth / 2;
+        sidewalks.push({
+          block: block.id,
+          points: this.rectangle(min.x + inset, min.z + inset, max.x - inset, max.z - inset, curbTop)
+        });
+
+        if (!block.park) {
+          buildings.push(...this.fillBlock(block));
+        }
+      }
+    }
+
+    const extent = lines[lines.length - 1] + halfRoad;
+    return {
+      nodes,
+      edges,
+      blocks,
+      sidewalks,
+      buildings,
+      bounds: new THREE.Box3(new THREE.Vector3(-extent, groundHeight, -extent), new THREE.Vector3(extent, curbTop, extent)),
+      roadWidth: this.roadWidth,
+      sidewalkWidth: this.sidewalkWidth,
+      curbHeight: this.curbHeight
+    };
+  }
+
+  /**
+   * Downtown in the middle, then Little Italy, Chinatown and Hepburn Heights round it
+   */
+  private districtAt(center: THREE.Vector3): District {
+    if (Math.abs(center.x) < this.downtownDistrictSize && Math.abs(center.z) < this.downtownDistrictSize) {
+      return District.DOWNTOWN;
+    }
+    const angle = Math.atan2(center.z, center.x) + Math.PI; // 0 to 2π
+    const sectors = [District.LITTLE_ITALY, District.CHINATOWN, District.HEPBURN_HEIGHTS];
+    return sectors[Math.min(Math.floor(angle / (Math.PI * 2 / 3)), 2)];
+  }
+
+  /**
+   * An intersection wherever two road centre lines cross, joined to its neighbours
+   */
+  private layRoads(lines: number[], groundHeight: number): { nodes: RoadNode[], edges: RoadEdge[] } {
+    const nodes: RoadNode[] = [];
+    const edges: RoadEdge[] = [];
+    const nodeAt = (i: number, j: number): RoadNode => nodes[i * lines.length + j];
+
+    for (const x of lines) {
+      for (const z of lines) {
+        nodes.push({ id: nodes.length, position: new THREE.Vector3(x, groundHeight, z), edges: [] });
+      }
+    }
+
+    const connect = (from: RoadNode, to: RoadNode): void => {
+      const edge: RoadEdge = { id: edges.length, from: from.id, to: to.id, width: this.roadWidth };
+      edges.push(edge);
+      from.edges.push(edge.id);
+      to.edges.push(edge.id);
+    };
+    for (let i = 0; i < lines.length; i++) {
+      for (let j = 0; j < lines.length; j++) {
+        if (i + 1 < lines.length) connect(nodeAt(i, j), nodeAt(i + 1, j));
+        if (j + 1 < lines.length) connect(nodeAt(i, j), nodeAt(i, j + 1));
+      }
+    }
+
+    return { nodes, edges };
+  }
+
+  /**
+   * Divide the land inside a block's sidewalk into a few lots, most with a building on
+   */
+  private fillBlock(block: CityBlock): BuildingLot[] {
+    const { min, max } = block.bounds;
+    const xs = this.split(min.x + this.sidewalkWidth, max.x - this.sidewalkWidth, this.random.int(2, 4));
+    const zs = this.split(min.z + this.sidewalkWidth, max.z - this.sidewalkWidth, this.random.int(2, 4));
+
+    // Taller towards the middle of the city
+    const downtown = Math.max(0, 1 - Math.hypot((min.x + max.x) / 2, (min.z + max.z) / 2) / this.downtownRadius);
+    const tallest = this.minHeight + (this.maxHeight - this.minHeight) * (0.3 + 0.7 * downtown);
+
+    const lots: BuildingLot[] = [];
+    for (let i = 0; i < xs.length - 1; i++) {
+      for (let j = 0; j < zs.length - 1; j++) {
+        if (this.random.chance(this.emptyLotChance)) continue;
+
+        // Fill most of the lot, leaving a gap to the neighbours
+        const lotWidth = xs[i + 1] - xs[i];
+        const lotDepth = zs[j + 1] - zs[j];
+        const width = lotWidth * this.random.range(0.6, 0.9);
+        const depth = lotDepth * this.random.range(0.6, 0.9);
+        const x = xs[i] + width / 2 + this.random.next() * (lotWidth - width);
+        const z = zs[j] + depth / 2 + this.random.next() * (lotDepth - depth);
+
+        lots.push({
+          block: block.id,
+          center: new THREE.Vector3(x, max.y, z),
+          width,
+          depth,
+          height: this.random.range(this.minHeight, tallest)
+        });
+      }
+    }
+    return lots;
+  }
+
+  /**
+   * Cut a span into roughly equal parts
+   * @returns The cuts, both ends included
+   */
+  private split(from: number, to: number, parts: number): number[] {
+    const size = (to - from) / parts;
+    const cuts = [from];
+    for (let i = 1; i < parts; i++) {
+      cuts.push(from + size * (i + this.random.range(-0.15, 0.15)));
+    }
+    cuts.push(to);
+    return cuts;
+  }
+
+  /**
+   * Corners of an axis-aligned rectangle, counter-clockwise seen from above
+   */
+  private rectangle(minX: number, minZ: number, maxX: number, maxZ: number, y: number): THREE.Vector3[] {
+    return [
+      new THREE.Vector3(minX, y, maxZ),
+      new THREE.Vector3(maxX, y, maxZ),
+      new THREE.Vector3(maxX, y, minZ),
+      new THREE.Vector3(minX, y, minZ)
+    ];
+  }
+}
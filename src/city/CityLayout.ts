@@ -0,0 +1,76 @@
+import * as THREE from 'three';
+
+/**
+ * An intersection in the road grid
+ */
+export interface RoadNode {
+  id: number;
+  position: THREE.Vector3; // Centre of the junction, at road level
+  edges: number[]; // Ids of the roads that meet here
+}
+
+/**
+ * A stretch of road between two intersections
+ */
+export interface RoadEdge {
+  id: number;
+  from: number; // Node ids
+  to: number;
+  width: number; // Carriageway, curb to curb
+}
+
+/**
+ * Parts of the city with their own character, and their own people on the streets
+ */
+export enum District {
+  DOWNTOWN = 'downtown',
+  LITTLE_ITALY = 'little_italy', // Mafia turf
+  CHINATOWN = 'chinatown', // Triad turf
+  HEPBURN_HEIGHTS = 'hepburn_heights' // Diablo turf
+}
+
+/**
+ * The land between four roads, raised to sidewalk height
+ */
+export interface CityBlock {
+  id: number;
+  polygon: THREE.Vector3[]; // Curb line, counter-clockwise seen from above
+  bounds: THREE.Box3; // Footprint, from the road surface to the top of the curb
+  park: boolean; // Left open: grass or a plaza, no buildings
+  district: District;
+}
+
+/**
+ * A walkway along the middle of a block's sidewalk, all the way round
+ */
+export interface SidewalkPath {
+  block: number; // Id of the block it goes round
+  points: THREE.Vector3[]; // Corners, in order; the path is closed
+}
+
+/**
+ * A building the generator placed, standing on a block
+ */
+export interface BuildingLot {
+  block: number;
+  center: THREE.Vector3; // Centre of the footprint, at the foot of the building
+  width: number; // Along X
+  depth: number; // Along Z
+  height: number;
+}
+
+/**
+ * Everything CityGenerator lays out, for building the scene and for AI and
+ * the minimap to find their way around
+ */
+export interface CityLayout {
+  nodes: RoadNode[];
+  edges: RoadEdge[];
+  blocks: CityBlock[];
+  sidewalks: SidewalkPath[];
+  buildings: BuildingLot[];
+  bounds: THREE.Box3; // The whole road grid
+  roadWidth: number;
+  sidewalkWidth: number;
+  curbHeight: number; // How far blocks stand above the road
+}
@@ -0,0 +1,254 @@
+import * as THREE from 'three';
+import { SpatialHash } from '../physics/SpatialHash';
+import { CityLayout, RoadEdge, RoadNode } from './CityLayout';
+
+export enum TurnDirection {
+  STRAIGHT = 'straight',
+  LEFT = 'left',
+  RIGHT = 'right'
+}
+
+/**
+ * One lane of a road, running one way from the far side of one
+ * intersection's crosswalk to the stop line of the next
+ */
+export interface Lane {
+  id: number;
+  edge: number; // Id of the road it belongs to
+  from: number; // Node it leaves
+  to: number; // Node it leads to
+  index: number; // 0 next to the centre line, counting outwards
+  start: THREE.Vector3;
+  end: THREE.Vector3; // At the stop line
+  direction: THREE.Vector3; // Unit, from start to end
+  length: number;
+  connections: TurnConnection[]; // Where it may go at the intersection it leads to
+}
+
+/**
+ * A way across an intersection from the end of one lane to the start of another
+ */
+export interface TurnConnection {
+  from: number; // Lane ids
+  to: number;
+  turn: TurnDirection;
+  path: THREE.Vector3[]; // From the end of one lane to the start of the other
+}
+
+/**
+ * Where roads meet, and every way of crossing it
+ */
+export interface Intersection {
+  node: number;
+  position: THREE.Vector3;
+  incoming: number[]; // Lanes that end here
+  outgoing: number[]; // Lanes that start here
+  connections: TurnConnection[];
+}
+
+/**
+ * A point on a lane
+ */
+export interface LanePosition {
+  lane: Lane;
+  point: THREE.Vector3;
+  distance: number; // From the start of the lane to the point
+}
+
+/**
+ * RoadNetwork is the drivable side of the city's road graph: each road split
+ * into directed lanes, traffic keeping to the right, and intersections whose
+ * turn connections say which lanes lead where. Traffic may go straight on
+ * into either lane, but turns left only from the inner lane and right only
+ * from the outer one.
+ */
+export class RoadNetwork {
+  private lanes: Lane[] = [];
+  private intersections: Intersection[] = [];
+  private laneGrid: SpatialHash<Lane> = new SpatialHash(40);
+  private nodes: RoadNode[];
+  private edges: RoadEdge[];
+  private crosswalkWidth: number; // Across each end of a road, as wide as the sidewalks it joins
+
+  // Tuning
+  private lanesEachWay = 2;
+  private turnSteps = 6; // Points along the curve of a turn
+
+  constructor(layout: CityLayout) {
+    this.nodes = layout.nodes;
+    this.edges = layout.edges;
+    this.crosswalkWidth = layout.sidewalkWidth;
+
+    this.intersections = layout.nodes.map(node => ({
+      node: node.id,
+      position: node.position.clone(),
+      incoming: [],
+      outgoing: [],
+      connections: []
+    }));
+
+    for (const edge of layout.edges) {
+      this.addLanes(edge, edge.from, edge.to);
+      this.addLanes(edge, edge.to, edge.from);
+    }
+
+    for (const intersection of this.intersections) {
+      this.connectLanes(intersection);
+    }
+  }
+
+  /**
+   * Lanes running one way along a road
+   */
+  private addLanes(edge: RoadEdge, from: number, to: number): void {
+    const fromPosition = this.nodes[from].position;
+    const toPosition = this.nodes[to].position;
+    const direction = new THREE.Vector3().subVectors(toPosition, fromPosition).normalize();
+    const right = new THREE.Vector3(-direction.z, 0, direction.x);
+    const laneWidth = edge.width / 2 / this.lanesEachWay;
+    const setback = edge.width / 2 + this.crosswalkWidth;
+
+    for (let index = 0; index < this.lanesEachWay; index++) {
+      // Keep right, clear of the crossing road and the crosswalks at both ends
+      const offset = right.clone().multiplyScalar(laneWidth * (index + 0.5));
+      const start = fromPosition.clone().add(offset).addScaledVector(direction, setback);
+      const end = toPosition.clone().add(offset).addScaledVector(direction, -setback);
+
+      const lane: Lane = {
+        id: this.lanes.length,
+        edge: edge.id,
+        from,
+        to,
+        index,
+        start,
+        end,
+        direction: direction.clone(),
+        length: start.distanceTo(end),
+        connections: []
+      };
+      this.lanes.push(lane);
+      this.intersections[from].outgoing.push(lane.id);
+      this.intersections[to].incoming.push(lane.id);
+      this.laneGrid.insert(lane, new THREE.Box3().setFromPoints([start, end]));
+    }
+  }
+
+  /**
+   * Join each lane arriving at an intersection to the lanes it may turn into
+   */
+  private connectLanes(intersection: Intersection): void {
+    for (const inId of intersection.incoming) {
+      const incoming = this.lanes[inId];
+      for (const outId of intersection.outgoing) {
+        const outgoing = this.lanes[outId];
+        if (outgoing.edge === incoming.edge) continue; // No U-turns
+
+        // Straight on into either lane; turns from the lane on that side into the same
+        const turn = this.classifyTurn(incoming.direction, outgoing.direction);
+        const allowed = turn === TurnDirection.STRAIGHT
+          || (outgoing.index === incoming.index && incoming.index === (turn === TurnDirection.LEFT ? 0 : this.lanesEachWay - 1));
+        if (!allowed) continue;
+
+        const connection: TurnConnection = {
+          from: incoming.id,
+          to: outgoing.id,
+          turn,
+          path: this.turnPath(incoming, outgoing, turn)
+        };
+        incoming.connections.push(connection);
+        intersection.connections.push(connection);
+      }
+    }
+  }
+
+  private classifyTurn(from: THREE.Vector3, to: THREE.Vector3): TurnDirection {
+    if (from.dot(to) > 0.7) return TurnDirection.STRAIGHT;
+    // Positive when the new direction is to the right of the old
+    return from.x * to.z - from.z * to.x > 0 ? TurnDirection.RIGHT : TurnDirection.LEFT;
+  }
+
+  /**
+   * A straight line across, or a curve round the corner where the two lanes' lines meet
+   */
+  private turnPath(incoming: Lane, outgoing: Lane, turn: TurnDirection): THREE.Vector3[] {
+    if (turn === TurnDirection.STRAIGHT) {
+      return [incoming.end.clone(), outgoing.start.clone()];
+    }
+
+    // The lanes are at right angles: each one's line passes through the other's end
+    const corner = new THREE.Vector3(
+      Math.abs(incoming.direction.x) > 0.5 ? outgoing.start.x : incoming.end.x,
+      incoming.end.y,
+      Math.abs(incoming.direction.z) > 0.5 ? outgoing.start.z : incoming.end.z
+    );
+    const curve = new THREE.QuadraticBezierCurve3(incoming.end, corner, outgoing.start);
+    return curve.getPoints(this.turnSteps);
+  }
+
+  public getLanes(): readonly Lane[] {
+    return this.lanes;
+  }
+
+  public getLane(id: number): Lane {
+    return this.lanes[id];
+  }
+
+  public getIntersections(): readonly Intersection[] {
+    return this.intersections;
+  }
+
+  public getIntersection(node: number): Intersection {
+    return this.intersections[node];
+  }
+
+  public getCrosswalkWidth(): number {
+    return this.crosswalkWidth;
+  }
+
+  /**
+   * The lane nearest a position, preferring lanes running the way given
+   * @param heading Direction of travel, if any; lanes running against it are left out
+   * @param maxDistance How far from the lane's line the position may be
+   */
+  public findNearestLane(position: THREE.Vector3, heading: THREE.Vector3 | null, maxDistance = 20): LanePosition | null {
+    let best: LanePosition | null = null;
+    let bestDistance = maxDistance;
+
+    for (const lane of this.laneGrid.queryRadius(position, maxDistance)) {
+      if (heading && lane.direction.dot(heading) < 0.5) continue;
+
+      const along = THREE.MathUtils.clamp(new THREE.Vector3().subVectors(position, lane.start).dot(lane.direction), 0, lane.length);
+      const point = lane.start.clone().addScaledVector(lane.direction, along);
+      const distance = Math.hypot(point.x - position.x, point.z - position.z);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = { lane, point, distance: along };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Lanes passing within a distance of a position
+   */
+  public getLanesNear(position: THREE.Vector3, radius: number): Lane[] {
+    return this.laneGrid.queryRadius(position, radius);
+  }
+
+  /**
+   * The nearest point on a road's centre line, if the position is on its carriageway
+   * @returns The point and the road's direction, or null if the position is off-road
+   */
+  public findRoadAt(position: THREE.Vector3): { position: THREE.Vector3, direction: THREE.Vector3 } | null {
+    const nearest = this.findNearestLane(position, null, this.edges[0]?.width ?? 0);
+    if (!nearest) return null;
+
+    const edge = this.edges[nearest.lane.edge];
+    const line = new THREE.Line3(this.nodes[edge.from].position, this.nodes[edge.to].position);
+    const point = line.closestPointToPoint(position, true, new THREE.Vector3());
+    if (Math.hypot(point.x - position.x, point.z - position.z) > edge.width / 2) return null;
+
+    return { position: point, direction: line.delta(new THREE.Vector3()).normalize() };
+  }
+}
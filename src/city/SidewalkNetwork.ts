@@ -0,0 +1,180 @@
+import * as THREE from 'three';
+import { RandomStream } from '../utils/Random';
+import { SpatialHash } from '../physics/SpatialHash';
+import { CityLayout } from './CityLayout';
+
+/**
+ * A corner of a block's sidewalk, where walkways turn and crosswalks start
+ */
+interface WalkNode {
+  id: number;
+  position: THREE.Vector3;
+  links: WalkLink[];
+}
+
+/**
+ * A way between two corners: along a sidewalk, or over a crosswalk
+ */
+interface WalkLink {
+  to: number;
+  length: number;
+  crossing: boolean;
+}
+
+/**
+ * One side of a block's sidewalk, between two of its corners
+ */
+interface SidewalkSide {
+  from: number; // Node ids
+  to: number;
+}
+
+/**
+ * A point on a sidewalk and the side it is on
+ */
+interface SidewalkPoint {
+  side: SidewalkSide;
+  point: THREE.Vector3;
+}
+
+/**
+ * SidewalkNetwork is the walkable side of the city: the walkway round each
+ * block's sidewalk, joined to the blocks across the road by the crosswalks at
+ * each intersection. Pedestrians plan routes over it with A*, so they keep
+ * to the sidewalks and only cross roads at crosswalks.
+ */
+export class SidewalkNetwork {
+  private nodes: WalkNode[] = [];
+  private sideGrid: SpatialHash<SidewalkSide> = new SpatialHash(40);
+
+  // Tuning
+  private crossingCost = 10; // Extra metres a crossing counts for, so routes don't zig-zag over roads
+
+  constructor(layout: CityLayout) {
+    // Corners by where they are, to find the ones facing each other across a road
+    const corners: Map<string, WalkNode> = new Map();
+    const key = (position: THREE.Vector3): string => `${Math.round(position.x * 10)},${Math.round(position.z * 10)}`;
+
+    for (const sidewalk of layout.sidewalks) {
+      const ring = sidewalk.points.map(point => {
+        const node: WalkNode = { id: this.nodes.length, position: point.clone(), links: [] };
+        this.nodes.push(node);
+        corners.set(key(point), node);
+        return node;
+      });
+
+      // All the way round the block
+      ring.forEach((node, i) => {
+        const next = ring[(i + 1) % ring.length];
+        this.link(node, next, false);
+        const side = { from: node.id, to: next.id };
+        this.sideGrid.insert(side, new THREE.Box3().setFromPoints([node.position, next.position]));
+      });
+    }
+
+    // At each intersection, the corners of neighbouring blocks face each other across the road
+    const offset = layout.roadWidth / 2 + layout.sidewalkWidth / 2;
+    for (const roadNode of layout.nodes) {
+      const at = (dx: number, dz: number): WalkNode | undefined =>
+        corners.get(key(roadNode.position.clone().add(new THREE.Vector3(dx * offset, 0, dz * offset))));
+      for (const [a, b] of [[at(1, 1), at(-1, 1)], [at(1, -1), at(-1, -1)], [at(1, 1), at(1, -1)], [at(-1, 1), at(-1, -1)]]) {
+        if (a && b) this.link(a, b, true);
+      }
+    }
+  }
+
+  private link(a: WalkNode, b: WalkNode, crossing: boolean): void {
+    const length = a.position.distanceTo(b.position);
+    a.links.push({ to: b.id, length, crossing });
+    b.links.push({ to: a.id, length, crossing });
+  }
+
+  /**
+   * Plan a route along the sidewalks and over crosswalks
+   * @returns Waypoints from the nearest sidewalk point to the start, to the nearest to the end; null if either is off the network
+   */
+  public findPath(from: THREE.Vector3, to: THREE.Vector3, maxDistance = 20): THREE.Vector3[] | null {
+    const start = this.findNearestPoint(from, maxDistance);
+    const goal = this.findNearestPoint(to, maxDistance);
+    if (!start || !goal) return null;
+
+    // Along the same side: straight there
+    if (start.side === goal.side) return [start.point, goal.point];
+
+    // A* from both ends of the start side, finishing from either end of the goal side
+    const cost: Map<number, number> = new Map();
+    const previous: Map<number, number> = new Map();
+    const open: Set<number> = new Set();
+    const estimate = (id: number): number => (cost.get(id) ?? Infinity) + this.nodes[id].position.distanceTo(goal.point);
+    for (const id of [start.side.from, start.side.to]) {
+      cost.set(id, this.nodes[id].position.distanceTo(start.point));
+      open.add(id);
+    }
+    const goalCost = (id: number): number =>
+      id === goal.side.from || id === goal.side.to ? this.nodes[id].position.distanceTo(goal.point) : Infinity;
+
+    let best = -1;
+    let bestCost = Infinity;
+    while (open.size > 0) {
+      let current = -1;
+      for (const id of open) {
+        if (current < 0 || estimate(id) < estimate(current)) current = id;
+      }
+      if (estimate(current) >= bestCost) break; // Nothing left can beat the route found
+      open.delete(current);
+      const currentCost = cost.get(current) ?? Infinity;
+
+      if (currentCost + goalCost(current) < bestCost) {
+        best = current;
+        bestCost = currentCost + goalCost(current);
+      }
+
+      for (const link of this.nodes[current].links) {
+        const linkCost = currentCost + link.length + (link.crossing ? this.crossingCost : 0);
+        if (linkCost < (cost.get(link.to) ?? Infinity)) {
+          cost.set(link.to, linkCost);
+          previous.set(link.to, current);
+          open.add(link.to);
+        }
+      }
+    }
+    if (best < 0) return null;
+
+    const corners: THREE.Vector3[] = [];
+    for (let id: number | undefined = best; id !== undefined; id = previous.get(id)) {
+      corners.unshift(this.nodes[id].position.clone());
+    }
+    return [start.point, ...corners, goal.point];
+  }
+
+  /**
+   * The nearest point on any sidewalk's walkway
+   */
+  public findNearestPoint(position: THREE.Vector3, maxDistance: number): SidewalkPoint | null {
+    let best: SidewalkPoint | null = null;
+    let bestDistance = maxDistance;
+
+    for (const side of this.sideGrid.queryRadius(position, maxDistance)) {
+      const line = new THREE.Line3(this.nodes[side.from].position, this.nodes[side.to].position);
+      const point = line.closestPointToPoint(position, true, new THREE.Vector3());
+      const distance = Math.hypot(point.x - position.x, point.z - position.z);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = { side, point };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * A random point on a sidewalk passing within a distance of a position
+   */
+  public getRandomPoint(center: THREE.Vector3, radius: number, random: RandomStream): THREE.Vector3 | null {
+    const sides = this.sideGrid.queryRadius(center, radius);
+    if (sides.length === 0) return null;
+
+    const side = random.pick(sides);
+    return this.nodes[side.from].position.clone().lerp(this.nodes[side.to].position, random.next());
+  }
+}
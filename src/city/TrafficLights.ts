@@ -0,0 +1,254 @@
+import * as THREE from 'three';
+import { RandomStream } from '../utils/Random';
+import { SpatialHash } from '../physics/SpatialHash';
+import { CityLayout } from './CityLayout';
+import { Intersection, Lane, RoadNetwork } from './RoadNetwork';
+
+export enum SignalState {
+  GREEN = 'green',
+  YELLOW = 'yellow',
+  RED = 'red'
+}
+
+/**
+ * The lights at one intersection. Traffic along X and traffic along Z take
+ * turns: green, yellow, then a moment of red both ways before the other
+ * road gets its green.
+ */
+interface SignalController {
+  intersection: Intersection;
+  offset: number; // Seconds into the cycle at time zero, so neighbouring lights don't all change together
+  heads: SignalHead[];
+  states: SignalState[]; // Last shown, along X then along Z
+}
+
+/**
+ * A pole at the near right corner of an approach, facing the traffic it stops
+ */
+interface SignalHead {
+  alongX: boolean; // Shows the signal for traffic along X, or along Z
+  lamp: number; // Instance index of its red lamp; yellow and green follow
+}
+
+const LAMP_ORDER = [SignalState.RED, SignalState.YELLOW, SignalState.GREEN]; // Top to bottom
+const LIT_COLORS: Record<SignalState, number> = {
+  [SignalState.RED]: 0xff2200,
+  [SignalState.YELLOW]: 0xffaa00,
+  [SignalState.GREEN]: 0x22ff44
+};
+const UNLIT_COLORS: Record<SignalState, number> = {
+  [SignalState.RED]: 0x330800,
+  [SignalState.YELLOW]: 0x332200,
+  [SignalState.GREEN]: 0x06330c
+};
+
+/**
+ * TrafficLights runs the signals at every intersection where three or more
+ * roads meet: timed phases that traffic stops for, walk signals for the
+ * crosswalks, and the poles, lamps and zebra crossings that show them.
+ * Pedestrians may cross alongside traffic with a green, for the first part
+ * of it, so they are across before the other road gets its green.
+ */
+export class TrafficLights {
+  private controllers: Map<number, SignalController> = new Map(); // By node id
+  private controllerGrid: SpatialHash<SignalController> = new SpatialHash(80);
+  private lamps: THREE.InstancedMesh;
+  private time = 0;
+  private roadWidth: number;
+  private crosswalkWidth: number;
+
+  // Tuning
+  private greenTime = 15;
+  private yellowTime = 3;
+  private allRedTime = 1.5;
+  private walkTime = 7; // Pedestrians may start crossing this long into the parallel green
+  private poleHeight = 3.5;
+  private poleInset = 1; // From each curb at the corner
+
+  constructor(
+    scene: THREE.Scene,
+    private network: RoadNetwork,
+    layout: CityLayout,
+    random: RandomStream // 'world' stream
+  ) {
+    this.roadWidth = layout.roadWidth;
+    this.crosswalkWidth = network.getCrosswalkWidth();
+
+    let lampCount = 0;
+    for (const intersection of network.getIntersections()) {
+      // Corners where two roads meet are just bends
+      const approaches = this.getApproaches(intersection);
+      if (approaches.length < 3) continue;
+
+      const controller: SignalController = {
+        intersection,
+        offset: random.range(0, this.getCycleTime()),
+        heads: approaches.map(lane => {
+          const head = { alongX: Math.abs(lane.direction.x) > 0.5, lamp: lampCount };
+          lampCount += LAMP_ORDER.length;
+          return head;
+        }),
+        states: []
+      };
+      this.controllers.set(intersection.node, controller);
+      this.controllerGrid.insertPoint(controller, intersection.position);
+    }
+
+    this.lamps = new THREE.InstancedMesh(
+      new THREE.SphereGeometry(0.13, 8, 6),
+      new THREE.MeshBasicMaterial(),
+      lampCount
+    );
+    this.createProps(scene);
+    this.update(0);
+  }
+
+  /**
+   * One lane arriving from each road that meets at an intersection
+   */
+  private getApproaches(intersection: Intersection): Lane[] {
+    const approaches: Lane[] = [];
+    for (const id of intersection.incoming) {
+      const lane = this.network.getLane(id);
+      if (!approaches.some(other => other.edge === lane.edge)) approaches.push(lane);
+    }
+    return approaches;
+  }
+
+  /**
+   * Poles with their lamps at each signalled intersection, and zebra crossings across each road
+   */
+  private createProps(scene: THREE.Scene): void {
+    const poles: THREE.Matrix4[] = [];
+    const housings: THREE.Matrix4[] = [];
+    const stripes: THREE.Matrix4[] = [];
+    const lampMatrices: THREE.Matrix4[] = [];
+    const corner = this.roadWidth / 2 + this.poleInset;
+    const stripeWidth = 0.5;
+    const stripeSpacing = 1;
+
+    for (const controller of this.controllers.values()) {
+      const center = controller.intersection.position;
+      for (const lane of this.getApproaches(controller.intersection)) {
+        const direction = lane.direction;
+        const right = new THREE.Vector3(-direction.z, 0, direction.x);
+        const facing = Math.atan2(-direction.x, -direction.z) + Math.PI; // Towards oncoming traffic
+        const rotation = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), facing);
+
+        // Pole on the sidewalk corner to the approach's right
+        const foot = center.clone().addScaledVector(direction, -corner).addScaledVector(right, corner);
+        poles.push(new THREE.Matrix4().makeTranslation(foot.x, foot.y + this.poleHeight / 2, foot.z));
+        const housing = foot.clone().setY(foot.y + this.poleHeight + 0.4);
+        housings.push(new THREE.Matrix4().compose(housing, rotation, new THREE.Vector3(1, 1, 1)));
+        LAMP_ORDER.forEach((_state, i) => {
+          const lamp = housing.clone().addScaledVector(direction, -0.2).setY(housing.y + 0.35 - i * 0.35);
+          lampMatrices.push(new THREE.Matrix4().makeTranslation(lamp.x, lamp.y, lamp.z));
+        });
+
+        // Zebra crossing across the road the approach comes along, stripes running with the traffic
+        const crossing = center.clone().addScaledVector(direction, -(this.roadWidth / 2 + this.crosswalkWidth / 2));
+        const stripeRotation = new THREE.Quaternion().setFromEuler(new THREE.Euler(-Math.PI / 2, Math.atan2(-direction.x, -direction.z), 0, 'YXZ'));
+        for (let across = -this.roadWidth / 2 + stripeSpacing / 2; across < this.roadWidth / 2; across += stripeSpacing) {
+          const position = crossing.clone().addScaledVector(right, across).setY(center.y + 0.02);
+          stripes.push(new THREE.Matrix4().compose(position, stripeRotation, new THREE.Vector3(1, 1, 1)));
+        }
+      }
+    }
+
+    const poleMaterial = new THREE.MeshStandardMaterial({ color: 0x3a3a3a, roughness: 0.6, metalness: 0.5 });
+    const poleMesh = new THREE.InstancedMesh(new THREE.CylinderGeometry(0.08, 0.1, this.poleHeight, 6), poleMaterial, poles.length);
+    poles.forEach((matrix, i) => poleMesh.setMatrixAt(i, matrix));
+    scene.add(poleMesh);
+
+    const housingMesh = new THREE.InstancedMesh(new THREE.BoxGeometry(0.4, 1.1, 0.3), poleMaterial, housings.length);
+    housings.forEach((matrix, i) => housingMesh.setMatrixAt(i, matrix));
+    scene.add(housingMesh);
+
+    lampMatrices.forEach((matrix, i) => this.lamps.setMatrixAt(i, matrix));
+    scene.add(this.lamps);
+
+    const stripeMesh = new THREE.InstancedMesh(
+      new THREE.PlaneGeometry(stripeWidth, this.crosswalkWidth * 0.8),
+      new THREE.MeshStandardMaterial({ color: 0xffffff }),
+      stripes.length
+    );
+    stripes.forEach((matrix, i) => stripeMesh.setMatrixAt(i, matrix));
+    scene.add(stripeMesh);
+  }
+
+  /**
+   * Advance the signal clock and relight lamps whose signal changed
+   */
+  public update(deltaTime: number): void {
+    this.time += deltaTime;
+
+    let changed = false;
+    for (const controller of this.controllers.values()) {
+      const states = [this.getState(controller, true), this.getState(controller, false)];
+      if (states[0] === controller.states[0] && states[1] === controller.states[1]) continue;
+      controller.states = states;
+      changed = true;
+
+      for (const head of controller.heads) {
+        const state = states[head.alongX ? 0 : 1];
+        LAMP_ORDER.forEach((lampState, i) => {
+          const color = lampState === state ? LIT_COLORS[lampState] : UNLIT_COLORS[lampState];
+          this.lamps.setColorAt(head.lamp + i, new THREE.Color(color));
+        });
+      }
+    }
+    if (changed && this.lamps.instanceColor) {
+      this.lamps.instanceColor.needsUpdate = true;
+    }
+  }
+
+  /**
+   * The signal facing traffic at the end of a lane; roads without lights are always green
+   */
+  public getSignal(lane: Lane): SignalState {
+    const controller = this.controllers.get(lane.to);
+    if (!controller) return SignalState.GREEN;
+    return this.getState(controller, Math.abs(lane.direction.x) > 0.5);
+  }
+
+  /**
+   * Whether a pedestrian at the curb may start across a road at a crosswalk
+   * @param direction The way they are walking
+   * @returns Whether the walk signal is showing, or null if they are not at a signalled crosswalk
+   */
+  public canWalk(position: THREE.Vector3, direction: THREE.Vector3): boolean | null {
+    const reach = this.roadWidth / 2 + this.crosswalkWidth + 0.5;
+    for (const controller of this.controllerGrid.queryRadius(position, reach * Math.SQRT2)) {
+      const center = controller.intersection.position;
+      if (Math.abs(position.x - center.x) > reach || Math.abs(position.z - center.z) > reach) continue;
+
+      // Walking alongside traffic on the parallel road, across the road that has a red
+      const alongX = Math.abs(direction.x) > Math.abs(direction.z);
+      return this.getPhaseTime(controller, alongX) < this.walkTime;
+    }
+    return null;
+  }
+
+  /**
+   * Seconds into one road's share of the cycle: green, then yellow, then red
+   */
+  private getPhaseTime(controller: SignalController, alongX: boolean): number {
+    const cycle = this.getCycleTime();
+    const time = (this.time + controller.offset) % cycle;
+    return alongX ? time : (time + cycle / 2) % cycle;
+  }
+
+  private getState(controller: SignalController, alongX: boolean): SignalState {
+    const time = this.getPhaseTime(controller, alongX);
+    if (time < this.greenTime) return SignalState.GREEN;
+    if (time < this.greenTime + this.yellowTime) return SignalState.YELLOW;
+    return SignalState.RED;
+  }
+
+  /**
+   * Both roads' green, yellow and all-red
+   */
+  private getCycleTime(): number {
+    return 2 * (this.greenTime + this.yellowTime + this.allRedTime);
+  }
+}
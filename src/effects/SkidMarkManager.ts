@@ -0,0 +1,140 @@
+import * as THREE from 'three';
+import { Vehicle } from '../Vehicle';
+import { AudioManager, LoopSound } from '../audio/AudioManager';
+
+/**
+ * SkidMarkManager lays rubber on the road under sliding tyres and makes them
+ * screech. Marks are drawn from a fixed pool of strips in a single mesh;
+ * once the pool is full the oldest marks are recycled, so they stay on the
+ * road until enough new ones have been laid.
+ */
+export class SkidMarkManager {
+  private mesh: THREE.Mesh;
+  private positions: Float32Array;
+  private nextMark = 0; // Pool slot to (re)use next
+  private markCount = 0;
+
+  // Where each wheel of a skidding vehicle last laid a mark; null while not skidding
+  private trails: Map<Vehicle, (THREE.Vector3 | null)[]> = new Map();
+  private screeching: Set<Vehicle> = new Set();
+
+  // Tuning
+  private maxMarks = 600;
+  private markWidth = 0.25;
+  private markLength = 0.4; // A wheel lays a new strip each time it has slid this far
+  private markHeight = 0.03; // Above the ground, clear of the road surface and markings
+  private skidSlip = 0.3; // Tyre slip (0-1) at which marks are laid
+  private screechSlip = 0.5; // Tyre slip at which tyres screech
+  private screechRange = 60; // Distance from the player at which a screech has faded out
+
+  constructor(scene: THREE.Scene) {
+    // Four vertices and two triangles per strip; unused strips collapse to a point
+    this.positions = new Float32Array(this.maxMarks * 4 * 3);
+    const indices: number[] = [];
+    for (let mark = 0; mark < this.maxMarks; mark++) {
+      const first = mark * 4;
+      indices.push(first, first + 1, first + 2, first + 2, first + 1, first + 3);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(this.positions, 3));
+    geometry.setIndex(indices);
+
+    this.mesh = new THREE.Mesh(
+      geometry,
+      new THREE.MeshBasicMaterial({ color: 0x111111, transparent: true, opacity: 0.6, depthWrite: false, side: THREE.DoubleSide })
+    );
+    this.mesh.frustumCulled = false; // Marks are scattered all over the city
+    scene.add(this.mesh);
+  }
+
+  /**
+   * Lay marks under, and screech the tyres of, every vehicle that is sliding
+   * @param listener Where the player hears from
+   */
+  public update(vehicles: Vehicle[], listener: THREE.Vector3): void {
+    const audio = AudioManager.getInstance();
+    const present = new Set(vehicles);
+
+    for (const vehicle of vehicles) {
+      const slips = vehicle.getWheelSlips();
+      const contacts = vehicle.getWheelContacts();
+      let trail = this.trails.get(vehicle);
+      let maxSlip = 0;
+
+      for (let wheel = 0; wheel < slips.length; wheel++) {
+        maxSlip = Math.max(maxSlip, slips[wheel]);
+        if (slips[wheel] < this.skidSlip) {
+          if (trail) trail[wheel] = null;
+          continue;
+        }
+
+        if (!trail) {
+          trail = slips.map(() => null);
+          this.trails.set(vehicle, trail);
+        }
+        const contact = contacts[wheel];
+        const last = trail[wheel];
+        if (!last || last.distanceTo(contact) > this.markLength * 4) {
+          // Start a new trail (or restart one after a jump or teleport)
+          trail[wheel] = contact.clone();
+        } else if (last.distanceTo(contact) >= this.markLength) {
+          this.addMark(last, contact);
+          last.copy(contact);
+        }
+      }
+
+      // Screech, fading with distance from the player
+      const distanceFactor = Math.max(0, 1 - vehicle.getPosition().distanceTo(listener) / this.screechRange);
+      const volume = maxSlip >= this.screechSlip ? maxSlip * distanceFactor : 0;
+      audio.setLoopVolume(vehicle, LoopSound.TYRE_SCREECH, volume);
+      if (volume > 0) {
+        this.screeching.add(vehicle);
+      } else {
+        this.screeching.delete(vehicle);
+      }
+    }
+
+    // Forget vehicles that have left the road
+    for (const vehicle of this.trails.keys()) {
+      if (!present.has(vehicle)) this.trails.delete(vehicle);
+    }
+    for (const vehicle of this.screeching) {
+      if (!present.has(vehicle)) {
+        audio.setLoopVolume(vehicle, LoopSound.TYRE_SCREECH, 0);
+        this.screeching.delete(vehicle);
+      }
+    }
+  }
+
+  /**
+   * Lay one strip of rubber between two points, recycling the oldest if the pool is full
+   */
+  private addMark(from: THREE.Vector3, to: THREE.Vector3): void {
+    const side = new THREE.Vector3(to.z - from.z, 0, from.x - to.x).setLength(this.markWidth / 2);
+    const corners = [
+      from.clone().add(side),
+      from.clone().sub(side),
+      to.clone().add(side),
+      to.clone().sub(side)
+    ];
+
+    const offset = this.nextMark * 4 * 3;
+    corners.forEach((corner, i) => {
+      this.positions[offset + i * 3] = corner.x;
+      this.positions[offset + i * 3 + 1] = corner.y + this.markHeight;
+      this.positions[offset + i * 3 + 2] = corner.z;
+    });
+    this.mesh.geometry.getAttribute('position').needsUpdate = true;
+
+    this.nextMark = (this.nextMark + 1) % this.maxMarks;
+    this.markCount = Math.min(this.markCount + 1, this.maxMarks);
+  }
+
+  /**
+   * How many marks are on the road
+   */
+  public getMarkCount(): number {
+    return this.markCount;
+  }
+}
@@ -0,0 +1,98 @@
+import { VehicleType } from '../models/VehicleModel';
+import { DEFAULT_HANDLING, HandlingProfile } from './HandlingProfile';
+
+/**
+ * Parser for handling.cfg, laid out like GTA3's: one line per vehicle type,
+ * its identifier followed by whitespace-separated values in a fixed column
+ * order, with ';' starting a comment, e.g.
+ *
+ *   ; type    fMass fDragMult ...
+ *   SEDAN     1000  0.3       ...
+ *
+ * Identifiers are VehicleType names in any case. Types left out of the file
+ * drive with DEFAULT_HANDLING.
+ */
+
+/**
+ * A parse error pointing at the offending line
+ */
+export class HandlingParseError extends Error {
+  constructor(file: string, line: number, message: string) {
+    super(`${file}:${line}: ${message}`);
+    this.name = 'HandlingParseError';
+  }
+}
+
+interface HandlingColumn {
+  field: keyof HandlingProfile;
+  name: string; // As written in the file's header comment
+  toProfile?: (value: number) => number; // Unit conversion, if the file uses different units
+}
+
+/**
+ * The value columns after the identifier, in file order
+ */
+export const HANDLING_COLUMNS: HandlingColumn[] = [
+  { field: 'mass', name: 'fMass' },
+  { field: 'dragCoefficient', name: 'fDragMult' },
+  { field: 'rollingResistance', name: 'fRollingResistance' },
+  { field: 'acceleration', name: 'fEngineAcceleration' },
+  { field: 'deceleration', name: 'fEngineDeceleration' },
+  { field: 'tractionMultiplier', name: 'fTractionMultiplier' },
+  { field: 'maxSpeed', name: 'fMaxVelocity' },
+  { field: 'brakingForce', name: 'fBrakeDeceleration' },
+  { field: 'maxSteeringAngle', name: 'fSteeringLock', toProfile: degrees => degrees * Math.PI / 180 },
+  { field: 'steeringSpeed', name: 'fSteeringSpeed' },
+  { field: 'steeringReturn', name: 'fSteeringReturn' },
+  { field: 'corneringStiffness', name: 'fCorneringStiffness' },
+  { field: 'suspensionStiffness', name: 'fSuspensionForceLevel' },
+  { field: 'suspensionDamping', name: 'fSuspensionDampingLevel' },
+  { field: 'suspensionTravel', name: 'fSuspensionTravel' }
+];
+
+/**
+ * Parse handling.cfg text into a profile per vehicle type
+ * @param file File name used in error messages
+ * @throws HandlingParseError on the first line that is not a valid profile
+ */
+export function parseHandlingConfig(text: string, file = 'handling.cfg'): Map<VehicleType, HandlingProfile> {
+  const profiles = new Map<VehicleType, HandlingProfile>();
+  const definedOn = new Map<VehicleType, number>();
+  const types = Object.values(VehicleType);
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = i + 1;
+    const content = lines[i].replace(/;.*$/, '').trim();
+    if (content === '') continue;
+
+    const [identifier, ...values] = content.split(/\s+/);
+    const type = types.find(candidate => candidate === identifier.toLowerCase());
+    if (!type) {
+      const known = types.map(candidate => candidate.toUpperCase()).join(', ');
+      throw new HandlingParseError(file, line, `unknown vehicle type "${identifier}" (expected one of ${known})`);
+    }
+    const previous = definedOn.get(type);
+    if (previous !== undefined) {
+      throw new HandlingParseError(file, line, `${identifier} is already defined on line ${previous}`);
+    }
+    if (values.length !== HANDLING_COLUMNS.length) {
+      throw new HandlingParseError(file, line, `${identifier} needs ${HANDLING_COLUMNS.length} values, got ${values.length}`);
+    }
+
+    const profile: HandlingProfile = { ...DEFAULT_HANDLING };
+    for (let column = 0; column < HANDLING_COLUMNS.length; column++) {
+      const { field, name, toProfile } = HANDLING_COLUMNS[column];
+      const value = Number(values[column]);
+      if (!Number.isFinite(value) || value <= 0) {
+        throw new HandlingParseError(file, line, `${name} must be a positive number, got "${values[column]}"`);
+      }
+      profile[field] = toProfile ? toProfile(value) : value;
+    }
+
+    profiles.set(type, profile);
+    definedOn.set(type, line);
+  }
+
+  return profiles;
+}
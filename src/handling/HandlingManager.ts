@@ -0,0 +1,81 @@
+import { VehicleType } from '../models/VehicleModel';
+import { HandlingParseError, parseHandlingConfig } from './HandlingConfig';
+import { DEFAULT_HANDLING, HandlingProfile } from './HandlingProfile';
+
+/**
+ * HandlingManager holds the handling profile of every vehicle type. Vehicles
+ * take their profile when constructed; whenever handling.cfg is (re)loaded,
+ * the reload callback lets the world re-apply it to the vehicles already on
+ * the road, so handling can be tuned live.
+ */
+export class HandlingManager {
+  private static instance: HandlingManager;
+
+  private profiles: Map<VehicleType, HandlingProfile> = new Map();
+  private onReloadCallback: (() => void) | null = null;
+
+  private constructor() {
+    // Every type drives with DEFAULT_HANDLING until load() is called
+  }
+
+  /**
+   * Get the singleton instance
+   */
+  public static getInstance(): HandlingManager {
+    if (!HandlingManager.instance) {
+      HandlingManager.instance = new HandlingManager();
+    }
+    return HandlingManager.instance;
+  }
+
+  /**
+   * Handling for a vehicle type; DEFAULT_HANDLING if it has no profile
+   */
+  public getProfile(type: VehicleType): HandlingProfile {
+    return this.profiles.get(type) ?? DEFAULT_HANDLING;
+  }
+
+  /**
+   * Replace every profile with those in handling.cfg text. A file with an
+   * error is rejected as a whole, keeping the current profiles.
+   * @param file File name used in error messages
+   * @returns Whether the file was valid and applied
+   */
+  public load(text: string, file = 'handling.cfg'): boolean {
+    try {
+      this.profiles = parseHandlingConfig(text, file);
+    } catch (error) {
+      if (!(error instanceof HandlingParseError)) throw error;
+      console.error(`Handling not loaded: ${error.message}`);
+      return false;
+    }
+
+    this.onReloadCallback?.();
+    return true;
+  }
+
+  /**
+   * Fetch and load handling.cfg
+   * @returns Whether it was fetched, valid and applied
+   */
+  public async loadFromUrl(url: string): Promise<boolean> {
+    try {
+      const response = await fetch(url, { cache: 'no-cache' }); // Always the latest edit when tuning live
+      if (!response.ok) {
+        console.warn(`Failed to load ${url} (${response.status})`);
+        return false;
+      }
+      return this.load(await response.text(), url);
+    } catch (error) {
+      console.warn(`Failed to load ${url}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Set the function called after new profiles have been loaded
+   */
+  public setReloadCallback(callback: (() => void) | null): void {
+    this.onReloadCallback = callback;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * How a vehicle drives: the tuning values that set a truck apart from a
+ * sports car. One profile per VehicleType, read from handling.cfg.
+ */
+export interface HandlingProfile {
+  mass: number; // kg; heavier vehicles are knocked about less
+  dragCoefficient: number; // Air resistance, grows with speed squared
+  rollingResistance: number; // Rolling resistance, as a multiple of the load on each tyre
+  acceleration: number; // m/s² the engine can give from a standstill
+  deceleration: number; // m/s² of engine braking off the throttle
+  tractionMultiplier: number; // Tyre grip: the most force a tyre can take, as a multiple of its load
+  maxSpeed: number; // m/s
+  brakingForce: number; // m/s² under full braking, grip permitting
+  maxSteeringAngle: number; // Radians (degrees in handling.cfg)
+  steeringSpeed: number; // Radians per second the wheel turns
+  steeringReturn: number; // Radians per second the wheel centres
+  corneringStiffness: number; // Tyre side force per radian of slip angle, as a multiple of its load
+  suspensionStiffness: number; // Body bounce frequency, rad/s
+  suspensionDamping: number; // Fraction of critical damping
+  suspensionTravel: number; // m
+}
+
+/**
+ * Handling for a vehicle type with no profile of its own (or before
+ * handling.cfg has loaded): a middle-of-the-road sedan
+ */
+export const DEFAULT_HANDLING: HandlingProfile = {
+  mass: 1000,
+  dragCoefficient: 0.3,
+  rollingResistance: 0.03,
+  acceleration: 25,
+  deceleration: 3,
+  tractionMultiplier: 1.3,
+  maxSpeed: 30,
+  brakingForce: 9,
+  maxSteeringAngle: Math.PI / 4,
+  steeringSpeed: 3,
+  steeringReturn: 8,
+  corneringStiffness: 7,
+  suspensionStiffness: 12,
+  suspensionDamping: 0.9,
+  suspensionTravel: 0.25
+};
@@ -45,6 +45,10 @@ export class ChaseDownMission extends Mission {
     
     // Set reward
     this.reward = '$2000';
+    this.moneyReward = 2000;
+    
+    // Contact waits beside the parked car near the mission start
+    this.contactPosition.set(12, 0, 9);
     
     // Unlock the next mission
     this.unlocksMissions = ['heist1'];
@@ -60,7 +64,8 @@ export class ChaseDownMission extends Mission {
     this.isFailed = false;
     this.targetCaught = false;
     this.currentObjectiveIndex = 0;
-    this.missionStartTime = Date.now();
+    this.elapsedTime = 0;
+    this.missionStartTime = this.elapsedTime;
     
     // Reset player position
     this.player.setPosition(this.startPosition);
@@ -99,8 +104,8 @@ export class ChaseDownMission extends Mission {
     
     // Check for mission failure (time limit)
     if (this.timeLimit > 0) {
-      const elapsedTime = (Date.now() - this.missionStartTime) / 1000;
-      if (elapsedTime > this.timeLimit) {
+      const timeSinceStart = this.elapsedTime - this.missionStartTime;
+      if (timeSinceStart > this.timeLimit) {
         this.failMission('You ran out of time! The target escaped.');
         return;
       }
@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import { Mission } from './Mission';
 import { Player } from '../Player';
 import { InputManager } from '../InputManager';
+import { Vehicle } from '../Vehicle';
 
 /**
  * DeliveryMission is a classic GTA3-style mission where the player
@@ -17,6 +18,11 @@ export class DeliveryMission extends Mission {
   private hasPackage = false;
   private packagePickedUpTime = 0;
   
+  // Vehicle carrying the package, and its health when the package went in
+  private packageVehicle: Vehicle | null = null;
+  private packageVehicleHealth = 0;
+  private crashDamageLimit = 100; // Vehicle damage the package survives
+  
   // Mission markers
   private pickupMarker: THREE.Mesh | null = null;
   private deliveryMarker: THREE.Mesh | null = null;
@@ -44,6 +50,10 @@ export class DeliveryMission extends Mission {
     
     // Set reward
     this.reward = '$1000';
+    this.moneyReward = 1000;
+    
+    // Contact waits where the mission starts
+    this.contactPosition.copy(this.startPosition);
     
     // Unlock the next mission
     this.unlocksMissions = ['chasedown1'];
@@ -58,7 +68,9 @@ export class DeliveryMission extends Mission {
     this.isComplete = false;
     this.isFailed = false;
     this.hasPackage = false;
+    this.packageVehicle = null;
     this.currentObjectiveIndex = 0;
+    this.elapsedTime = 0;
     
     // Reset player position
     this.player.setPosition(this.startPosition);
@@ -97,9 +109,9 @@ export class DeliveryMission extends Mission {
     if (!this.isActive || this.isComplete || this.isFailed) return;
     
     // Check for mission failure (time limit)
-    if (this.timeLimit > 0 && this.packagePickedUpTime > 0) {
-      const elapsedTime = (Date.now() - this.packagePickedUpTime) / 1000;
-      if (elapsedTime > this.timeLimit) {
+    if (this.timeLimit > 0 && this.hasPackage) {
+      const timeSincePickup = this.elapsedTime - this.packagePickedUpTime;
+      if (timeSincePickup > this.timeLimit) {
         this.failMission('You ran out of time!');
         return;
       }
@@ -121,7 +133,26 @@ export class DeliveryMission extends Mission {
     }
     
     // Check for vehicle crashes when carrying package
-    if (this.hasPackage && this.player.isInsideVehicle() && this.player.hasCollidedRecently()) {
+    if (this.hasPackage && this.player.isInsideVehicle()) {
+      this.checkPackageDamage();
+    }
+  }
+  
+  /**
+   * Fail the mission once the vehicle carrying the package has been damaged too much
+   */
+  private checkPackageDamage(): void {
+    const vehicle = this.player.getCurrentVehicle();
+    if (!vehicle) return;
+    
+    if (vehicle !== this.packageVehicle) {
+      // Package just loaded into this vehicle
+      this.packageVehicle = vehicle;
+      this.packageVehicleHealth = vehicle.getHealth();
+      return;
+    }
+    
+    if (this.packageVehicleHealth - vehicle.getHealth() > this.crashDamageLimit) {
       this.failMission('You damaged the package in a crash!');
     }
   }
@@ -131,7 +162,7 @@ export class DeliveryMission extends Mission {
    */
   private pickupPackage(): void {
     this.hasPackage = true;
-    this.packagePickedUpTime = Date.now();
+    this.packagePickedUpTime = this.elapsedTime;
     
     // Hide pickup marker
     if (this.pickupMarker) {
@@ -23,15 +23,21 @@ export abstract class Mission {
   
   // Mission rewards
   protected reward = '';
+  protected moneyReward = 0; // Paid to the player on completion
   protected unlocksMissions: string[] = [];
   
   // Mission timer
   protected timeLimit = 0; // in seconds, 0 means no time limit
+  protected elapsedTime = 0; // simulation seconds since the mission was started
   
   // Mission markers and checkpoints
   protected markers: THREE.Mesh[] = [];
   protected checkpoints: THREE.Mesh[] = [];
   
+  // Contact point where the player picks up the mission
+  protected contactPosition = new THREE.Vector3();
+  private contactMarker: THREE.Mesh | null = null;
+  
   constructor(
     protected scene: THREE.Scene,
     protected player: Player,
@@ -48,6 +54,24 @@ export abstract class Mission {
    */
   public abstract update(deltaTime: number): void;
   
+  /**
+   * Advance shared mission state by one simulation step: elapsed time and
+   * marker/checkpoint animations. Called by MissionManager before update().
+   */
+  public advance(deltaTime: number): void {
+    this.elapsedTime += deltaTime;
+    
+    // Pulse and spin markers
+    for (const marker of this.markers) {
+      Mission.animateMarker(marker, this.elapsedTime, deltaTime);
+    }
+    
+    // Spin checkpoints
+    for (const checkpoint of this.checkpoints) {
+      checkpoint.rotation.z += 0.6 * deltaTime;
+    }
+  }
+  
   /**
    * Clean up mission resources
    */
@@ -60,10 +84,70 @@ export abstract class Mission {
     this.checkpoints = [];
   }
   
+  /**
+   * Show the contact marker where the player can pick up this mission
+   */
+  public showContactMarker(): void {
+    if (this.contactMarker) return;
+    
+    // Not tracked in markers, so cleanup() at the end of the mission leaves it alone
+    this.contactMarker = this.buildMarker(this.contactPosition, 0xff66cc);
+  }
+  
+  /**
+   * Remove the contact marker
+   */
+  public hideContactMarker(): void {
+    if (!this.contactMarker) return;
+    
+    this.scene.remove(this.contactMarker);
+    this.contactMarker = null;
+  }
+  
+  /**
+   * Pulse and spin the contact marker while the mission is waiting to be picked up
+   * @param time Simulated time driving the pulse
+   */
+  public animateContactMarker(time: number, deltaTime: number): void {
+    if (this.contactMarker) {
+      Mission.animateMarker(this.contactMarker, time, deltaTime);
+    }
+  }
+  
+  public isContactMarkerVisible(): boolean {
+    return this.contactMarker !== null;
+  }
+  
+  public getContactPosition(): THREE.Vector3 {
+    return this.contactPosition.clone();
+  }
+  
+  /**
+   * Pulse a marker's width and spin it around its axis
+   */
+  private static animateMarker(marker: THREE.Mesh, time: number, deltaTime: number): void {
+    const pulse = 1 + Math.sin(time * 3) * 0.2;
+    marker.scale.x = pulse;
+    marker.scale.z = pulse;
+    marker.rotation.y += 0.6 * deltaTime;
+  }
+  
   /**
    * Create a mission marker at the specified position
    */
   protected createMarker(position: THREE.Vector3, color = 0xffff00): THREE.Mesh {
+    const marker = this.buildMarker(position, color);
+    
+    // Pulsing animation is driven by advance()
+    this.markers.push(marker);
+    
+    return marker;
+  }
+  
+  /**
+   * Build a marker cylinder and add it to the scene
+   */
+  private buildMarker(position: THREE.Vector3, color: number): THREE.Mesh {
     // Create a cylinder for the marker
     const geometry = new THREE.CylinderGeometry(0.5, 0.5, 2, 16);
     const material = new THREE.MeshBasicMaterial({
@@ -76,18 +160,7 @@ export abstract class Mission {
     marker.position.copy(position);
     marker.position.y += 1; // Raise marker above ground
     
-    // Add pulsing animation
-    const pulseAnimation = () => {
-      marker.scale.x = 1 + Math.sin(Date.now() * 0.003) * 0.2;
-      marker.scale.z = marker.scale.x;
-      marker.rotation.y += 0.01;
-      
-      requestAnimationFrame(pulseAnimation);
-    };
-    pulseAnimation();
-    
     this.scene.add(marker);
-    this.markers.push(marker);
     
     return marker;
   }
@@ -109,13 +182,7 @@ export abstract class Mission {
     checkpoint.position.y += 0.3; // Slightly above ground
     checkpoint.rotation.x = Math.PI / 2; // Lay flat
     
-    // Add rotating animation
-    const rotateAnimation = () => {
-      checkpoint.rotation.z += 0.01;
-      requestAnimationFrame(rotateAnimation);
-    };
-    rotateAnimation();
-    
+    // Rotating animation is driven by advance()
     this.scene.add(checkpoint);
     this.checkpoints.push(checkpoint);
     
@@ -176,6 +243,10 @@ export abstract class Mission {
     return this.reward;
   }
   
+  public getMoneyReward(): number {
+    return this.moneyReward;
+  }
+  
   public getUnlocksMissions(): string[] {
     return this.unlocksMissions;
   }
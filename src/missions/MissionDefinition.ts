@@ -0,0 +1,221 @@
+import { loadIndexedJson } from '../utils/JsonLoader';
+
+/**
+ * Declarative mission format loaded from public/assets/missions/*.json.
+ * The JSON schema in public/assets/missions/mission.schema.json mirrors these types.
+ */
+
+// World position as [x, y, z]
+export type MissionVector = [number, number, number];
+
+interface MissionStepBase {
+  objective: string; // Shown in the mission HUD while the step is active
+  timeout?: number; // Seconds to finish the step before the mission fails
+  wantedLevel?: number; // Set the player's wanted level (0-6) when the step starts
+}
+
+// Reach a location, optionally on foot or in a vehicle
+export interface GoToStep extends MissionStepBase {
+  type: 'go_to';
+  position: MissionVector;
+  radius?: number;
+  requireVehicle?: boolean; // true: must be driving, false: must be on foot
+}
+
+// Get into any vehicle, optionally marking where one is parked
+export interface EnterVehicleStep extends MissionStepBase {
+  type: 'enter_vehicle';
+  position?: MissionVector;
+}
+
+// Walk up to an item and pick it up
+export interface PickUpItemStep extends MissionStepBase {
+  type: 'pick_up';
+  item: string;
+  position: MissionVector;
+  radius?: number;
+}
+
+// Bring a picked-up item to a drop-off
+export interface DeliverStep extends MissionStepBase {
+  type: 'deliver';
+  item: string;
+  position: MissionVector;
+  radius?: number;
+}
+
+// Catch a target that flees from start to end
+export interface ChaseTargetStep extends MissionStepBase {
+  type: 'chase_target';
+  start: MissionVector;
+  end: MissionVector;
+  speed: number;
+  catchDistance?: number;
+  escapeDistance?: number; // Fail when the target gets this far away
+}
+
+// Stay alive (and within the fail conditions) for a while
+export interface SurviveStep extends MissionStepBase {
+  type: 'survive';
+  duration: number;
+}
+
+// Shake off the police until the wanted level drops to zero
+export interface LoseWantedStep extends MissionStepBase {
+  type: 'lose_wanted';
+}
+
+export type MissionStep =
+  | GoToStep
+  | EnterVehicleStep
+  | PickUpItemStep
+  | DeliverStep
+  | ChaseTargetStep
+  | SurviveStep
+  | LoseWantedStep;
+
+// Fail as soon as the player gets out of a vehicle they entered during the mission
+export interface LeaveVehicleFailCondition {
+  type: 'leave_vehicle';
+  reason?: string;
+}
+
+// Fail when the player strays too far from an area
+export interface LeaveAreaFailCondition {
+  type: 'leave_area';
+  position: MissionVector;
+  radius: number;
+  reason?: string;
+}
+
+export type MissionFailCondition = LeaveVehicleFailCondition | LeaveAreaFailCondition;
+
+export interface MissionDefinition {
+  id: string;
+  title: string;
+  description: string;
+  contact: MissionVector; // Where the player picks up the mission
+  start?: MissionVector; // Where the player is placed when it starts
+  timeLimit?: number; // Seconds for the whole mission, 0 or absent for none
+  reward: {
+    money: number;
+    text?: string; // Shown on the completion screen, defaults to "$<money>"
+  };
+  unlocks?: string[];
+  steps: MissionStep[];
+  failConditions?: MissionFailCondition[];
+}
+
+function isVector(value: unknown): value is MissionVector {
+  return Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number');
+}
+
+function isOptional(value: unknown, type: 'number' | 'boolean' | 'string'): boolean {
+  return value === undefined || typeof value === type;
+}
+
+/**
+ * Check a single step, returning a description of the problem or null if it is valid
+ */
+function validateStep(step: Record<string, unknown>): string | null {
+  if (typeof step.objective !== 'string') return 'missing objective';
+  if (!isOptional(step.timeout, 'number')) return 'timeout must be a number';
+  if (!isOptional(step.wantedLevel, 'number')) return 'wantedLevel must be a number';
+
+  switch (step.type) {
+    case 'go_to':
+      if (!isVector(step.position)) return 'go_to needs a position';
+      if (!isOptional(step.radius, 'number') || !isOptional(step.requireVehicle, 'boolean')) return 'invalid go_to options';
+      return null;
+    case 'enter_vehicle':
+      return step.position === undefined || isVector(step.position) ? null : 'invalid enter_vehicle position';
+    case 'pick_up':
+    case 'deliver':
+      if (typeof step.item !== 'string') return `${step.type} needs an item`;
+      if (!isVector(step.position)) return `${step.type} needs a position`;
+      return isOptional(step.radius, 'number') ? null : 'radius must be a number';
+    case 'chase_target':
+      if (!isVector(step.start) || !isVector(step.end)) return 'chase_target needs start and end';
+      if (typeof step.speed !== 'number') return 'chase_target needs a speed';
+      if (!isOptional(step.catchDistance, 'number') || !isOptional(step.escapeDistance, 'number')) return 'invalid chase_target distances';
+      return null;
+    case 'survive':
+      return typeof step.duration === 'number' ? null : 'survive needs a duration';
+    case 'lose_wanted':
+      return null;
+    default:
+      return `unknown step type "${String(step.type)}"`;
+  }
+}
+
+/**
+ * Check a fail condition, returning a description of the problem or null if it is valid
+ */
+function validateFailCondition(condition: Record<string, unknown>): string | null {
+  if (!isOptional(condition.reason, 'string')) return 'reason must be a string';
+
+  switch (condition.type) {
+    case 'leave_vehicle':
+      return null;
+    case 'leave_area':
+      return isVector(condition.position) && typeof condition.radius === 'number' ? null : 'leave_area needs a position and radius';
+    default:
+      return `unknown fail condition "${String(condition.type)}"`;
+  }
+}
+
+/**
+ * Validate parsed JSON against the mission format
+ * @param source File name used in warnings
+ * @returns The definition, or null (with a console warning) if it is invalid
+ */
+export function parseMissionDefinition(raw: unknown, source: string): MissionDefinition | null {
+  const fail = (problem: string): null => {
+    console.warn(`Invalid mission definition ${source}: ${problem}`);
+    return null;
+  };
+
+  if (!raw || typeof raw !== 'object') return fail('not an object');
+  const data = raw as Record<string, unknown>;
+
+  if (typeof data.id !== 'string' || data.id === '') return fail('missing id');
+  if (typeof data.title !== 'string' || typeof data.description !== 'string') return fail('missing title or description');
+  if (!isVector(data.contact)) return fail('contact must be [x, y, z]');
+  if (data.start !== undefined && !isVector(data.start)) return fail('start must be [x, y, z]');
+  if (!isOptional(data.timeLimit, 'number')) return fail('timeLimit must be a number');
+
+  const reward = data.reward as Record<string, unknown> | undefined;
+  if (!reward || typeof reward.money !== 'number' || !isOptional(reward.text, 'string')) return fail('reward needs money');
+
+  if (data.unlocks !== undefined && !(Array.isArray(data.unlocks) && data.unlocks.every(id => typeof id === 'string'))) {
+    return fail('unlocks must be a list of mission ids');
+  }
+
+  if (!Array.isArray(data.steps) || data.steps.length === 0) return fail('needs at least one step');
+  for (let i = 0; i < data.steps.length; i++) {
+    const step = data.steps[i] as unknown;
+    const problem = step && typeof step === 'object' ? validateStep(step as Record<string, unknown>) : 'not an object';
+    if (problem) return fail(`step ${i + 1}: ${problem}`);
+  }
+
+  if (data.failConditions !== undefined) {
+    if (!Array.isArray(data.failConditions)) return fail('failConditions must be a list');
+    for (const condition of data.failConditions as unknown[]) {
+      const problem = condition && typeof condition === 'object' ? validateFailCondition(condition as Record<string, unknown>) : 'not an object';
+      if (problem) return fail(`fail condition: ${problem}`);
+    }
+  }
+
+  return data as unknown as MissionDefinition;
+}
+
+/**
+ * Fetch every mission listed in <baseUrl>index.json
+ * @returns The valid definitions; invalid or missing files are skipped with a warning
+ */
+export async function loadMissionDefinitions(baseUrl: string): Promise<MissionDefinition[]> {
+  const files = await loadIndexedJson(baseUrl, 'missions');
+  return files
+    .map(({ file, data }) => parseMissionDefinition(data, file))
+    .filter((definition): definition is MissionDefinition => definition !== null);
+}
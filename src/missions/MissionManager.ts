@@ -1,10 +1,17 @@
 import * as THREE from 'three';
 import { Player } from '../Player';
 import { InputManager } from '../InputManager';
+import { Environment } from '../Environment';
+import { RandomStream } from '../utils/Random';
 import { Mission } from './Mission';
 import { TutorialMission } from './TutorialMission';
 import { DeliveryMission } from './DeliveryMission';
 import { ChaseDownMission } from './ChaseDownMission';
+import { MissionUI } from './MissionUI';
+import { ScriptedMission } from './ScriptedMission';
+import { MissionDefinition, loadMissionDefinitions } from './MissionDefinition';
+import { ScriptMission } from './ScriptMission';
+import { ScriptProgram, loadScriptPrograms } from '../scripting/ScriptProgram';
 
 /**
  * MissionManager handles the game's mission system, including:
@@ -27,24 +34,28 @@ export class MissionManager {
   private completedMissions: string[] = [];
   private unlockedMissions: string[] = [];
   
-  // UI elements
-  private missionUI: HTMLElement | null = null;
-  private missionTitle: HTMLElement | null = null;
-  private missionObjective: HTMLElement | null = null;
-  private missionTimer: HTMLElement | null = null;
+  // Mission contacts the player can walk into to be offered a mission
+  private contactRadius = 1.5;
+  private contactInRange: Mission | null = null; // Contact the player is standing in
+  private offeredMission: Mission | null = null; // Mission whose briefing is waiting for an answer
+  private contactTime = 0; // Drives the contact marker animation
   
-  // Timer for timed missions
-  private timerInterval: number | null = null;
+  // Timer for timed missions, counted down in simulation time
+  private timerActive = false;
   private timeRemaining = 0;
   
+  // Notified after a mission has been completed or failed (e.g. to autosave)
+  private onMissionCompleteCallback: ((mission: Mission) => void) | null = null;
+  private onMissionFailedCallback: ((mission: Mission, reason: string) => void) | null = null;
+  
   constructor(
     private scene: THREE.Scene,
     private player: Player,
-    private inputManager: InputManager
+    private inputManager: InputManager,
+    private environment: Environment,
+    private random: RandomStream, // 'missions' stream, used by mission scripts
+    private ui: MissionUI | null = null // HUD and dialogs; null when running headless
   ) {
-    // Initialize mission UI
-    this.setupMissionUI();
-    
     // Register missions
     this.registerMissions();
     
@@ -53,39 +64,14 @@ export class MissionManager {
   }
   
   /**
-   * Initialize the mission UI elements
+   * Set callbacks for mission completion and failure
    */
-  private setupMissionUI(): void {
-    // Create mission UI container
-    this.missionUI = document.createElement('div');
-    this.missionUI.className = 'mission-ui';
-    this.missionUI.style.position = 'absolute';
-    this.missionUI.style.top = '20px';
-    this.missionUI.style.left = '20px';
-    this.missionUI.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
-    this.missionUI.style.color = 'white';
-    this.missionUI.style.padding = '10px';
-    this.missionUI.style.borderRadius = '5px';
-    this.missionUI.style.fontFamily = 'Arial, sans-serif';
-    this.missionUI.style.display = 'none';
-    document.body.appendChild(this.missionUI);
-    
-    // Create mission title element
-    this.missionTitle = document.createElement('h3');
-    this.missionTitle.style.margin = '0 0 5px 0';
-    this.missionTitle.style.color = '#ffcc00';
-    this.missionUI.appendChild(this.missionTitle);
-    
-    // Create mission objective element
-    this.missionObjective = document.createElement('p');
-    this.missionObjective.style.margin = '0 0 5px 0';
-    this.missionUI.appendChild(this.missionObjective);
-    
-    // Create mission timer element
-    this.missionTimer = document.createElement('p');
-    this.missionTimer.style.margin = '0';
-    this.missionTimer.style.color = '#ff6666';
-    this.missionUI.appendChild(this.missionTimer);
+  public setCallbacks(
+    onMissionComplete: (mission: Mission) => void,
+    onMissionFailed: ((mission: Mission, reason: string) => void) | null = null
+  ): void {
+    this.onMissionCompleteCallback = onMissionComplete;
+    this.onMissionFailedCallback = onMissionFailed;
   }
   
   /**
@@ -100,12 +86,80 @@ export class MissionManager {
     
     // Add chase down mission
     this.missions.push(new ChaseDownMission(this.scene, this.player, this.inputManager));
+    
+    // Add data-driven and scripted missions; they are served over HTTP, so headless
+    // runs register them with registerDefinition() and registerScript() instead
+    if (typeof window !== 'undefined') {
+      void this.loadDefinitions('/assets/missions/');
+      void this.loadScripts('/assets/scripts/');
+    }
+  }
+  
+  /**
+   * Load the compiled mission scripts listed in <baseUrl>index.json
+   * @returns Number of missions registered
+   */
+  public async loadScripts(baseUrl: string): Promise<number> {
+    const programs = await loadScriptPrograms(baseUrl);
+    return programs.filter(program => this.registerScript(program)).length;
+  }
+  
+  /**
+   * Register a compiled mission script
+   * @returns Whether it was registered (false without a mission header or if the id is taken)
+   */
+  public registerScript(program: ScriptProgram): boolean {
+    if (!program.mission) {
+      console.warn('Only scripts with a mission header can be registered as missions');
+      return false;
+    }
+    
+    const missionId = program.mission.id;
+    if (this.missions.some(m => m.getId() === missionId)) {
+      console.warn(`Mission ${missionId} is already registered`);
+      return false;
+    }
+    
+    this.missions.push(new ScriptMission(
+      this.scene,
+      this.player,
+      this.inputManager,
+      program,
+      program.mission,
+      this.environment,
+      this.random
+    ));
+    return true;
+  }
+  
+  /**
+   * Load the mission definitions listed in <baseUrl>index.json
+   * @returns Number of missions registered
+   */
+  public async loadDefinitions(baseUrl: string): Promise<number> {
+    const definitions = await loadMissionDefinitions(baseUrl);
+    return definitions.filter(definition => this.registerDefinition(definition)).length;
+  }
+  
+  /**
+   * Register a mission described by a definition
+   * @returns Whether it was registered (false if the id is already taken)
+   */
+  public registerDefinition(definition: MissionDefinition): boolean {
+    if (this.missions.some(m => m.getId() === definition.id)) {
+      console.warn(`Mission ${definition.id} is already registered`);
+      return false;
+    }
+    
+    this.missions.push(new ScriptedMission(this.scene, this.player, this.inputManager, definition));
+    return true;
   }
   
   /**
    * Start a mission by ID
+   * @param showBriefing Show the briefing dialog (already seen when accepted at a contact)
    */
-  public startMission(missionId: string): boolean {
+  public startMission(missionId: string, showBriefing = true): boolean {
     // Check if mission is unlocked
     if (!this.unlockedMissions.includes(missionId)) {
       console.warn(`Mission ${missionId} is not unlocked yet`);
@@ -129,81 +183,32 @@ export class MissionManager {
     // Start the mission
     this.currentMission = mission;
     this.missionActive = true;
-    // Reset mission state
-    this.missionActive = true;
+    this.offeredMission = null;
+    
+    // Contacts are hidden while a mission is running
+    this.hideContacts();
     
     // Initialize mission
     mission.initialize();
     
-    // Update UI
-    this.updateMissionUI();
+    // Show mission UI
+    if (this.ui) {
+      this.ui.showMission(mission);
+    }
     
     // Start timer if mission has a time limit
     if (mission.getTimeLimit() > 0) {
       this.startTimer(mission.getTimeLimit());
     }
     
-    // Show mission UI
-    if (this.missionUI) {
-      this.missionUI.style.display = 'block';
-    }
-    
     // Show mission briefing
-    this.showMissionBriefing(mission);
+    if (this.ui && showBriefing) {
+      this.ui.showBriefing(mission);
+    }
     
     return true;
   }
   
-  /**
-   * Show mission briefing dialog
-   */
-  private showMissionBriefing(mission: Mission): void {
-    // Create briefing dialog
-    const briefingDialog = document.createElement('div');
-    briefingDialog.className = 'mission-briefing';
-    briefingDialog.style.position = 'absolute';
-    briefingDialog.style.top = '50%';
-    briefingDialog.style.left = '50%';
-    briefingDialog.style.transform = 'translate(-50%, -50%)';
-    briefingDialog.style.backgroundColor = 'rgba(0, 0, 0, 0.9)';
-    briefingDialog.style.color = 'white';
-    briefingDialog.style.padding = '20px';
-    briefingDialog.style.borderRadius = '5px';
-    briefingDialog.style.fontFamily = 'Arial, sans-serif';
-    briefingDialog.style.maxWidth = '500px';
-    briefingDialog.style.zIndex = '1000';
-    
-    // Add mission title
-    const title = document.createElement('h2');
-    title.textContent = mission.getTitle();
-    title.style.color = '#ffcc00';
-    title.style.marginTop = '0';
-    briefingDialog.appendChild(title);
-    
-    // Add mission description
-    const description = document.createElement('p');
-    description.textContent = mission.getDescription();
-    briefingDialog.appendChild(description);
-    
-    // Add start button
-    const startButton = document.createElement('button');
-    startButton.textContent = 'Start Mission';
-    startButton.style.backgroundColor = '#ffcc00';
-    startButton.style.color = 'black';
-    startButton.style.border = 'none';
-    startButton.style.padding = '10px 20px';
-    startButton.style.marginTop = '15px';
-    startButton.style.cursor = 'pointer';
-    startButton.style.fontWeight = 'bold';
-    startButton.onclick = () => {
-      document.body.removeChild(briefingDialog);
-    };
-    briefingDialog.appendChild(startButton);
-    
-    // Add to document
-    document.body.appendChild(briefingDialog);
-  }
-  
   /**
    * Complete the current mission
    */
@@ -212,7 +217,7 @@ export class MissionManager {
     
     // Mark mission as completed
     this.missionActive = false;
-    this.completedMissions.push(this.currentMission.getId());
+    const mission = this.currentMission;
     
     // Add to completed missions if not already completed
     const missionId = this.currentMission.getId();
@@ -228,21 +233,29 @@ export class MissionManager {
       }
     }
     
+    // Pay the reward and update the player's stats
+    const stats = this.player.getStats();
+    stats.addMoney(mission.getMoneyReward());
+    stats.recordMissionCompleted();
+    
     // Stop timer if active
     this.stopTimer();
     
-    // Show mission complete message
-    this.showMissionComplete(this.currentMission);
+    // Show mission complete message and hide mission UI after a delay
+    if (this.ui) {
+      this.ui.showComplete(mission);
+      this.ui.hideAfter(3000);
+    }
+    
+    // Remove the mission's markers and props
+    mission.cleanup();
     
     // Reset current mission
     this.currentMission = null;
     
-    // Hide mission UI after a delay
-    setTimeout(() => {
-      if (this.missionUI) {
-        this.missionUI.style.display = 'none';
-      }
-    }, 3000);
+    if (this.onMissionCompleteCallback) {
+      this.onMissionCompleteCallback(mission);
+    }
   }
   
   /**
@@ -253,143 +266,27 @@ export class MissionManager {
     
     // Mark mission as failed
     this.missionActive = false;
-    this.showMissionFailed(reason);
+    const mission = this.currentMission;
+    this.player.getStats().recordMissionFailed();
     
     // Stop timer if active
     this.stopTimer();
     
-    // Show mission failed message
-    this.showMissionFailed(reason);
+    // Show mission failed message and hide mission UI after a delay
+    if (this.ui) {
+      this.ui.showFailed(reason);
+      this.ui.hideAfter(3000);
+    }
+    
+    // Remove the mission's markers and props
+    mission.cleanup();
     
     // Reset current mission
     this.currentMission = null;
     
-    // Hide mission UI after a delay
-    setTimeout(() => {
-      if (this.missionUI) {
-        this.missionUI.style.display = 'none';
-      }
-    }, 3000);
-  }
-  
-  /**
-   * Show mission complete dialog
-   */
-  private showMissionComplete(mission: Mission): void {
-    // Create completion dialog
-    const completeDialog = document.createElement('div');
-    completeDialog.className = 'mission-complete';
-    completeDialog.style.position = 'absolute';
-    completeDialog.style.top = '50%';
-    completeDialog.style.left = '50%';
-    completeDialog.style.transform = 'translate(-50%, -50%)';
-    completeDialog.style.backgroundColor = 'rgba(0, 0, 0, 0.9)';
-    completeDialog.style.color = 'white';
-    completeDialog.style.padding = '20px';
-    completeDialog.style.borderRadius = '5px';
-    completeDialog.style.fontFamily = 'Arial, sans-serif';
-    completeDialog.style.maxWidth = '500px';
-    completeDialog.style.zIndex = '1000';
-    
-    // Add completion title
-    const title = document.createElement('h2');
-    title.textContent = 'Mission Complete!';
-    title.style.color = '#00cc00';
-    title.style.marginTop = '0';
-    completeDialog.appendChild(title);
-    
-    // Add mission title
-    const missionTitle = document.createElement('h3');
-    missionTitle.textContent = mission.getTitle();
-    missionTitle.style.color = '#ffcc00';
-    completeDialog.appendChild(missionTitle);
-    
-    // Add reward info
-    const reward = document.createElement('p');
-    reward.textContent = `Reward: ${mission.getReward()}`;
-    completeDialog.appendChild(reward);
-    
-    // Add close button
-    const closeButton = document.createElement('button');
-    closeButton.textContent = 'Continue';
-    closeButton.style.backgroundColor = '#00cc00';
-    closeButton.style.color = 'black';
-    closeButton.style.border = 'none';
-    closeButton.style.padding = '10px 20px';
-    closeButton.style.marginTop = '15px';
-    closeButton.style.cursor = 'pointer';
-    closeButton.style.fontWeight = 'bold';
-    closeButton.onclick = () => {
-      document.body.removeChild(completeDialog);
-    };
-    completeDialog.appendChild(closeButton);
-    
-    // Add to document
-    document.body.appendChild(completeDialog);
-    
-    // Auto-close after 5 seconds
-    setTimeout(() => {
-      if (document.body.contains(completeDialog)) {
-        document.body.removeChild(completeDialog);
-      }
-    }, 5000);
-  }
-  
-  /**
-   * Show mission failed dialog
-   */
-  private showMissionFailed(reason: string): void {
-    // Create failed dialog
-    const failedDialog = document.createElement('div');
-    failedDialog.className = 'mission-failed';
-    failedDialog.style.position = 'absolute';
-    failedDialog.style.top = '50%';
-    failedDialog.style.left = '50%';
-    failedDialog.style.transform = 'translate(-50%, -50%)';
-    failedDialog.style.backgroundColor = 'rgba(0, 0, 0, 0.9)';
-    failedDialog.style.color = 'white';
-    failedDialog.style.padding = '20px';
-    failedDialog.style.borderRadius = '5px';
-    failedDialog.style.fontFamily = 'Arial, sans-serif';
-    failedDialog.style.maxWidth = '500px';
-    failedDialog.style.zIndex = '1000';
-    
-    // Add failed title
-    const title = document.createElement('h2');
-    title.textContent = 'Mission Failed';
-    title.style.color = '#ff3333';
-    title.style.marginTop = '0';
-    failedDialog.appendChild(title);
-    
-    // Add reason
-    const reasonElement = document.createElement('p');
-    reasonElement.textContent = reason;
-    failedDialog.appendChild(reasonElement);
-    
-    // Add close button
-    const closeButton = document.createElement('button');
-    closeButton.textContent = 'Continue';
-    closeButton.style.backgroundColor = '#ff3333';
-    closeButton.style.color = 'white';
-    closeButton.style.border = 'none';
-    closeButton.style.padding = '10px 20px';
-    closeButton.style.marginTop = '15px';
-    closeButton.style.cursor = 'pointer';
-    closeButton.style.fontWeight = 'bold';
-    closeButton.onclick = () => {
-      document.body.removeChild(failedDialog);
-    };
-    failedDialog.appendChild(closeButton);
-    
-    // Add to document
-    document.body.appendChild(failedDialog);
-    
-    // Auto-close after 5 seconds
-    setTimeout(() => {
-      if (document.body.contains(failedDialog)) {
-        document.body.removeChild(failedDialog);
-      }
-    }, 5000);
+    if (this.onMissionFailedCallback) {
+      this.onMissionFailedCallback(mission, reason);
+    }
   }
   
   /**
@@ -401,83 +298,58 @@ export class MissionManager {
     
     // Set time remaining
     this.timeRemaining = seconds;
+    this.timerActive = true;
     
     // Update timer display
-    this.updateTimerDisplay();
-    
-    // Start interval
-    this.timerInterval = window.setInterval(() => {
-      this.timeRemaining--;
-      
-      // Update timer display
-      this.updateTimerDisplay();
-      
-      // Check if time is up
-      if (this.timeRemaining <= 0) {
-        this.stopTimer();
-        this.failMission('Time\'s up!');
-      }
-    }, 1000);
-  }
-  
-  /**
-   * Stop the active timer
-   */
-  private stopTimer(): void {
-    if (this.timerInterval !== null) {
-      clearInterval(this.timerInterval);
-      this.timerInterval = null;
+    if (this.ui) {
+      this.ui.setTimer(this.timeRemaining);
     }
   }
   
   /**
-   * Update the timer display
+   * Count the mission timer down by one simulation step
    */
-  private updateTimerDisplay(): void {
-    if (this.missionTimer) {
-      // Format time as MM:SS
-      const minutes = Math.floor(this.timeRemaining / 60);
-      const seconds = this.timeRemaining % 60;
-      const formattedTime = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
-      
-      this.missionTimer.textContent = `Time: ${formattedTime}`;
-      
-      // Change color when time is running low
-      if (this.timeRemaining <= 10) {
-        this.missionTimer.style.color = '#ff0000';
-      } else {
-        this.missionTimer.style.color = '#ff6666';
-      }
+  private updateTimer(deltaTime: number): void {
+    if (!this.timerActive) return;
+    
+    this.timeRemaining = Math.max(0, this.timeRemaining - deltaTime);
+    
+    // Update timer display
+    if (this.ui) {
+      this.ui.setTimer(this.timeRemaining);
+    }
+    
+    // Check if time is up
+    if (this.timeRemaining <= 0) {
+      this.stopTimer();
+      this.failMission('Time\'s up!');
     }
   }
   
   /**
-   * Update mission UI with current mission info
+   * Stop the active timer
    */
-  private updateMissionUI(): void {
-    if (!this.currentMission) return;
-    
-    if (this.missionTitle) {
-      this.missionTitle.textContent = this.currentMission.getTitle();
-    }
-    
-    if (this.missionObjective) {
-      this.missionObjective.textContent = this.currentMission.getCurrentObjective();
-    }
+  private stopTimer(): void {
+    this.timerActive = false;
   }
   
   /**
    * Update mission state and check for completion
    */
   public update(deltaTime: number): void {
-    if (!this.missionActive || !this.currentMission) return;
+    if (!this.missionActive || !this.currentMission) {
+      // Between missions the player picks up new ones at contacts
+      this.updateContacts(deltaTime);
+      return;
+    }
     
     // Update current mission
+    this.currentMission.advance(deltaTime);
     this.currentMission.update(deltaTime);
     
     // Update mission UI with current objective
-    if (this.missionObjective) {
-      this.missionObjective.textContent = this.currentMission.getCurrentObjective();
+    if (this.ui) {
+      this.ui.setObjective(this.currentMission.getCurrentObjective());
     }
     
     // Check if mission is completed
@@ -486,9 +358,83 @@ export class MissionManager {
     }
     
     // Check if mission is failed
-    if (this.currentMission.hasFailed()) {
+    if (this.currentMission && this.currentMission.hasFailed()) {
       this.failMission(this.currentMission.getFailReason());
     }
+    
+    // Count down the mission timer
+    if (this.missionActive) {
+      this.updateTimer(deltaTime);
+    }
+  }
+  
+  /**
+   * Show markers for available missions and offer a mission when the player walks into its contact
+   */
+  private updateContacts(deltaTime: number): void {
+    this.contactTime += deltaTime;
+    
+    const playerPosition = this.player.getPosition();
+    let inRange: Mission | null = null;
+    
+    for (const mission of this.missions) {
+      // Unlocked missions that have not been completed yet have a contact
+      const available = this.unlockedMissions.includes(mission.getId()) &&
+        !this.completedMissions.includes(mission.getId());
+      
+      if (!available) {
+        mission.hideContactMarker();
+        continue;
+      }
+      
+      mission.showContactMarker();
+      mission.animateContactMarker(this.contactTime, deltaTime);
+      
+      // Contacts are picked up on foot, measured on the ground plane
+      const contact = mission.getContactPosition();
+      const distance = Math.hypot(playerPosition.x - contact.x, playerPosition.z - contact.z);
+      if (!this.player.isInsideVehicle() && distance <= this.contactRadius) {
+        inRange = mission;
+      }
+    }
+    
+    // Only offer when the player steps into a contact, not on every step while standing in it
+    if (inRange && inRange !== this.contactInRange && !this.offeredMission) {
+      this.offerMission(inRange);
+    }
+    this.contactInRange = inRange;
+  }
+  
+  /**
+   * Show a mission's briefing and start it if the player accepts
+   */
+  private offerMission(mission: Mission): void {
+    // Without a UI (headless runs) there is nobody to ask, so accept straight away
+    if (!this.ui) {
+      this.startMission(mission.getId(), false);
+      return;
+    }
+    
+    this.offeredMission = mission;
+    this.ui.showBriefing(
+      mission,
+      () => {
+        this.offeredMission = null;
+        this.startMission(mission.getId(), false);
+      },
+      () => {
+        this.offeredMission = null;
+      }
+    );
+  }
+  
+  /**
+   * Remove all contact markers from the world
+   */
+  private hideContacts(): void {
+    for (const mission of this.missions) {
+      mission.hideContactMarker();
+    }
   }
   
   /**
@@ -519,6 +465,28 @@ export class MissionManager {
     return [...this.unlockedMissions];
   }
   
+  /**
+   * Unlock a mission without completing its prerequisites
+   */
+  public unlockMission(missionId: string): void {
+    if (!this.unlockedMissions.includes(missionId)) {
+      this.unlockedMissions.push(missionId);
+    }
+  }
+  
+  /**
+   * Replace mission progress with progress loaded from a save
+   */
+  public restoreProgress(completedMissions: string[], unlockedMissions: string[]): void {
+    this.completedMissions = [...completedMissions];
+    this.unlockedMissions = [...unlockedMissions];
+    
+    // The tutorial is always available
+    if (!this.unlockedMissions.includes('tutorial')) {
+      this.unlockedMissions.push('tutorial');
+    }
+  }
+  
   /**
    * Check if a mission is completed
    */
@@ -0,0 +1,306 @@
+import { Mission } from './Mission';
+
+/**
+ * MissionUI owns the DOM side of the mission system: the objective HUD and
+ * the briefing, completion and failure dialogs. MissionManager runs without
+ * it when there is no document (headless simulation).
+ */
+export class MissionUI {
+  // HUD elements
+  private container: HTMLElement;
+  private titleElement: HTMLElement;
+  private objectiveElement: HTMLElement;
+  private timerElement: HTMLElement;
+  private hideTimer: ReturnType<typeof setTimeout> | null = null; // Pending hideAfter(), cancelled when the HUD is shown again
+  
+  /**
+   * Create the mission HUD elements (hidden until a mission starts)
+   */
+  constructor() {
+    // Create mission UI container
+    this.container = document.createElement('div');
+    this.container.className = 'mission-ui';
+    this.container.style.position = 'absolute';
+    this.container.style.top = '20px';
+    this.container.style.left = '20px';
+    this.container.style.backgroundColor = 'rgba(0, 0, 0, 0.7)';
+    this.container.style.color = 'white';
+    this.container.style.padding = '10px';
+    this.container.style.borderRadius = '5px';
+    this.container.style.fontFamily = 'Arial, sans-serif';
+    this.container.style.display = 'none';
+    document.body.appendChild(this.container);
+    
+    // Create mission title element
+    this.titleElement = document.createElement('h3');
+    this.titleElement.style.margin = '0 0 5px 0';
+    this.titleElement.style.color = '#ffcc00';
+    this.container.appendChild(this.titleElement);
+    
+    // Create mission objective element
+    this.objectiveElement = document.createElement('p');
+    this.objectiveElement.style.margin = '0 0 5px 0';
+    this.container.appendChild(this.objectiveElement);
+    
+    // Create mission timer element
+    this.timerElement = document.createElement('p');
+    this.timerElement.style.margin = '0';
+    this.timerElement.style.color = '#ff6666';
+    this.container.appendChild(this.timerElement);
+  }
+  
+  /**
+   * Show the HUD for a newly started mission
+   */
+  public showMission(mission: Mission): void {
+    // Don't let the last mission's result hide this one
+    this.cancelHide();
+    
+    this.titleElement.textContent = mission.getTitle();
+    this.objectiveElement.textContent = mission.getCurrentObjective();
+    this.timerElement.textContent = '';
+    this.container.style.display = 'block';
+  }
+  
+  /**
+   * Update the current objective text
+   */
+  public setObjective(objective: string): void {
+    this.objectiveElement.textContent = objective;
+  }
+  
+  /**
+   * Hide the HUD after a delay so the final state stays readable
+   */
+  public hideAfter(delayMs: number): void {
+    this.cancelHide();
+    this.hideTimer = setTimeout(() => {
+      this.hideTimer = null;
+      this.container.style.display = 'none';
+    }, delayMs);
+  }
+  
+  private cancelHide(): void {
+    if (this.hideTimer !== null) {
+      clearTimeout(this.hideTimer);
+      this.hideTimer = null;
+    }
+  }
+  
+  /**
+   * Update the timer display with the seconds remaining
+   */
+  public setTimer(timeRemaining: number): void {
+    if (this.timerElement) {
+      // Format time as MM:SS, rounding partial seconds up
+      const wholeSeconds = Math.ceil(timeRemaining);
+      const minutes = Math.floor(wholeSeconds / 60);
+      const seconds = wholeSeconds % 60;
+      const formattedTime = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+      
+      this.timerElement.textContent = `Time: ${formattedTime}`;
+      
+      // Change color when time is running low
+      if (timeRemaining <= 10) {
+        this.timerElement.style.color = '#ff0000';
+      } else {
+        this.timerElement.style.color = '#ff6666';
+      }
+    }
+  }
+  
+  /**
+   * Show mission briefing dialog
+   * @param onAccept When given, the dialog offers the mission with Accept/Decline buttons
+   * @param onDecline Called when the offer is declined
+   */
+  public showBriefing(
+    mission: Mission,
+    onAccept: (() => void) | null = null,
+    onDecline: (() => void) | null = null
+  ): void {
+    // Create briefing dialog
+    const briefingDialog = document.createElement('div');
+    briefingDialog.className = 'mission-briefing';
+    briefingDialog.style.position = 'absolute';
+    briefingDialog.style.top = '50%';
+    briefingDialog.style.left = '50%';
+    briefingDialog.style.transform = 'translate(-50%, -50%)';
+    briefingDialog.style.backgroundColor = 'rgba(0, 0, 0, 0.9)';
+    briefingDialog.style.color = 'white';
+    briefingDialog.style.padding = '20px';
+    briefingDialog.style.borderRadius = '5px';
+    briefingDialog.style.fontFamily = 'Arial, sans-serif';
+    briefingDialog.style.maxWidth = '500px';
+    briefingDialog.style.zIndex = '1000';
+    
+    // Add mission title
+    const title = document.createElement('h2');
+    title.textContent = mission.getTitle();
+    title.style.color = '#ffcc00';
+    title.style.marginTop = '0';
+    briefingDialog.appendChild(title);
+    
+    // Add mission description
+    const description = document.createElement('p');
+    description.textContent = mission.getDescription();
+    briefingDialog.appendChild(description);
+    
+    // Add start (or accept) button
+    const startButton = document.createElement('button');
+    startButton.textContent = onAccept ? 'Accept' : 'Start Mission';
+    startButton.style.backgroundColor = '#ffcc00';
+    startButton.style.color = 'black';
+    startButton.style.border = 'none';
+    startButton.style.padding = '10px 20px';
+    startButton.style.marginTop = '15px';
+    startButton.style.cursor = 'pointer';
+    startButton.style.fontWeight = 'bold';
+    startButton.onclick = (): void => {
+      document.body.removeChild(briefingDialog);
+      if (onAccept) onAccept();
+    };
+    briefingDialog.appendChild(startButton);
+    
+    // Add decline button for mission offers
+    if (onAccept) {
+      const declineButton = document.createElement('button');
+      declineButton.textContent = 'Decline';
+      declineButton.style.backgroundColor = '#555555';
+      declineButton.style.color = 'white';
+      declineButton.style.border = 'none';
+      declineButton.style.padding = '10px 20px';
+      declineButton.style.marginTop = '15px';
+      declineButton.style.marginLeft = '10px';
+      declineButton.style.cursor = 'pointer';
+      declineButton.onclick = (): void => {
+        document.body.removeChild(briefingDialog);
+        if (onDecline) onDecline();
+      };
+      briefingDialog.appendChild(declineButton);
+    }
+    
+    // Add to document
+    document.body.appendChild(briefingDialog);
+  }
+  
+  /**
+   * Show mission complete dialog
+   */
+  public showComplete(mission: Mission): void {
+    // Create completion dialog
+    const completeDialog = document.createElement('div');
+    completeDialog.className = 'mission-complete';
+    completeDialog.style.position = 'absolute';
+    completeDialog.style.top = '50%';
+    completeDialog.style.left = '50%';
+    completeDialog.style.transform = 'translate(-50%, -50%)';
+    completeDialog.style.backgroundColor = 'rgba(0, 0, 0, 0.9)';
+    completeDialog.style.color = 'white';
+    completeDialog.style.padding = '20px';
+    completeDialog.style.borderRadius = '5px';
+    completeDialog.style.fontFamily = 'Arial, sans-serif';
+    completeDialog.style.maxWidth = '500px';
+    completeDialog.style.zIndex = '1000';
+    
+    // Add completion title
+    const title = document.createElement('h2');
+    title.textContent = 'Mission Complete!';
+    title.style.color = '#00cc00';
+    title.style.marginTop = '0';
+    completeDialog.appendChild(title);
+    
+    // Add mission title
+    const missionTitle = document.createElement('h3');
+    missionTitle.textContent = mission.getTitle();
+    missionTitle.style.color = '#ffcc00';
+    completeDialog.appendChild(missionTitle);
+    
+    // Add reward info
+    const reward = document.createElement('p');
+    reward.textContent = `Reward: ${mission.getReward()}`;
+    completeDialog.appendChild(reward);
+    
+    // Add close button
+    const closeButton = document.createElement('button');
+    closeButton.textContent = 'Continue';
+    closeButton.style.backgroundColor = '#00cc00';
+    closeButton.style.color = 'black';
+    closeButton.style.border = 'none';
+    closeButton.style.padding = '10px 20px';
+    closeButton.style.marginTop = '15px';
+    closeButton.style.cursor = 'pointer';
+    closeButton.style.fontWeight = 'bold';
+    closeButton.onclick = (): void => {
+      document.body.removeChild(completeDialog);
+    };
+    completeDialog.appendChild(closeButton);
+    
+    // Add to document
+    document.body.appendChild(completeDialog);
+    
+    // Auto-close after 5 seconds
+    setTimeout(() => {
+      if (document.body.contains(completeDialog)) {
+        document.body.removeChild(completeDialog);
+      }
+    }, 5000);
+  }
+  
+  /**
+   * Show mission failed dialog
+   */
+  public showFailed(reason: string): void {
+    // Create failed dialog
+    const failedDialog = document.createElement('div');
+    failedDialog.className = 'mission-failed';
+    failedDialog.style.position = 'absolute';
+    failedDialog.style.top = '50%';
+    failedDialog.style.left = '50%';
+    failedDialog.style.transform = 'translate(-50%, -50%)';
+    failedDialog.style.backgroundColor = 'rgba(0, 0, 0, 0.9)';
+    failedDialog.style.color = 'white';
+    failedDialog.style.padding = '20px';
+    failedDialog.style.borderRadius = '5px';
+    failedDialog.style.fontFamily = 'Arial, sans-serif';
+    failedDialog.style.maxWidth = '500px';
+    failedDialog.style.zIndex = '1000';
+    
+    // Add failed title
+    const title = document.createElement('h2');
+    title.textContent = 'Mission Failed';
+    title.style.color = '#ff3333';
+    title.style.marginTop = '0';
+    failedDialog.appendChild(title);
+    
+    // Add reason
+    const reasonElement = document.createElement('p');
+    reasonElement.textContent = reason;
+    failedDialog.appendChild(reasonElement);
+    
+    // Add close button
+    const closeButton = document.createElement('button');
+    closeButton.textContent = 'Continue';
+    closeButton.style.backgroundColor = '#ff3333';
+    closeButton.style.color = 'white';
+    closeButton.style.border = 'none';
+    closeButton.style.padding = '10px 20px';
+    closeButton.style.marginTop = '15px';
+    closeButton.style.cursor = 'pointer';
+    closeButton.style.fontWeight = 'bold';
+    closeButton.onclick = (): void => {
+      document.body.removeChild(failedDialog);
+    };
+    failedDialog.appendChild(closeButton);
+    
+    // Add to document
+    document.body.appendChild(failedDialog);
+    
+    // Auto-close after 5 seconds
+    setTimeout(() => {
+      if (document.body.contains(failedDialog)) {
+        document.body.removeChild(failedDialog);
+      }
+    }, 5000);
+  }
+}
@@ -0,0 +1,224 @@
+import * as THREE from 'three';
+import { Mission } from './Mission';
+import { Player } from '../Player';
+import { InputManager } from '../InputManager';
+import { Environment } from '../Environment';
+import { Vehicle } from '../Vehicle';
+import { Pedestrian } from '../Pedestrian';
+import { RandomStream } from '../utils/Random';
+import { SpatialHash } from '../physics/SpatialHash';
+import { ScriptVM, ScriptHost } from '../scripting/ScriptVM';
+import { ScriptMissionInfo, ScriptProgram } from '../scripting/ScriptProgram';
+
+/**
+ * ScriptMission runs a compiled mission script in a ScriptVM and carries out
+ * its commands: spawning vehicles and pedestrians, placing markers and
+ * checkpoints, setting the wanted level and passing or failing the mission.
+ */
+export class ScriptMission extends Mission implements ScriptHost {
+  private vm: ScriptVM;
+
+  // Entities created by the script, by handle
+  private nextHandle = 1;
+  private vehicles: Map<number, Vehicle> = new Map();
+  private vehicleGrid: SpatialHash<Vehicle> = new SpatialHash(10); // The same vehicles, for the script's pedestrians to react to
+  private pedestrians: Map<number, Pedestrian> = new Map();
+  private objects: Map<number, THREE.Mesh> = new Map(); // Markers and checkpoints
+
+  constructor(
+    scene: THREE.Scene,
+    player: Player,
+    inputManager: InputManager,
+    program: ScriptProgram,
+    info: ScriptMissionInfo,
+    private environment: Environment,
+    private random: RandomStream // 'missions' stream
+  ) {
+    super(scene, player, inputManager);
+
+    // Set mission properties from the script header
+    this.id = info.id;
+    this.title = info.title;
+    this.description = info.description;
+    this.timeLimit = info.timeLimit;
+    this.reward = `$${info.reward}`;
+    this.moneyReward = info.reward;
+    this.unlocksMissions = info.unlocks;
+    this.contactPosition.set(info.contact[0], info.contact[1], info.contact[2]);
+
+    this.vm = new ScriptVM(program, this);
+  }
+
+  /**
+   * Start the script's main thread
+   */
+  public initialize(): void {
+    // Reset mission state
+    this.isActive = true;
+    this.isComplete = false;
+    this.isFailed = false;
+    this.failReason = '';
+    this.objectives = [];
+    this.currentObjectiveIndex = 0;
+    this.elapsedTime = 0;
+
+    this.vm.start();
+  }
+
+  /**
+   * Run the script's threads and the pedestrians it spawned
+   */
+  public update(deltaTime: number): void {
+    if (!this.isActive || this.isComplete || this.isFailed) return;
+
+    this.vm.step(deltaTime);
+
+    // Script pedestrians are not managed by PedestrianManager, so they are
+    // updated here and drawn at their latest simulated position
+    for (const vehicle of this.vehicles.values()) {
+      this.vehicleGrid.insert(vehicle, vehicle.getCollider());
+    }
+    for (const pedestrian of this.pedestrians.values()) {
+      pedestrian.update(deltaTime, this.player, this.vehicleGrid);
+      pedestrian.interpolate(1);
+    }
+  }
+
+  // ScriptHost commands
+
+  public spawnVehicle(position: THREE.Vector3, heading: number): number {
+    const vehicle = new Vehicle(this.scene, this.environment, position, heading);
+
+    // Register with the world's enterable vehicles so it is simulated and the player can drive it
+    const worldVehicles = this.scene.userData.vehicles as Vehicle[] | undefined;
+    if (worldVehicles) worldVehicles.push(vehicle);
+
+    const handle = this.nextHandle++;
+    this.vehicles.set(handle, vehicle);
+    return handle;
+  }
+
+  public spawnPed(position: THREE.Vector3, heading: number): number {
+    const handle = this.nextHandle++;
+    this.pedestrians.set(handle, new Pedestrian(this.scene, this.environment, this.random, position, heading));
+    return handle;
+  }
+
+  public placeMarker(position: THREE.Vector3): number {
+    const handle = this.nextHandle++;
+    this.objects.set(handle, this.createMarker(position));
+    return handle;
+  }
+
+  public placeCheckpoint(position: THREE.Vector3, radius: number): number {
+    const handle = this.nextHandle++;
+    this.objects.set(handle, this.createCheckpoint(position, radius));
+    return handle;
+  }
+
+  public remove(handle: number): void {
+    const vehicle = this.vehicles.get(handle);
+    if (vehicle) {
+      this.removeVehicle(vehicle);
+      this.vehicles.delete(handle);
+      this.vehicleGrid.remove(vehicle);
+    }
+
+    const pedestrian = this.pedestrians.get(handle);
+    if (pedestrian) {
+      pedestrian.dispose();
+      this.pedestrians.delete(handle);
+    }
+
+    const object = this.objects.get(handle);
+    if (object) {
+      this.scene.remove(object);
+      this.markers = this.markers.filter(marker => marker !== object);
+      this.checkpoints = this.checkpoints.filter(checkpoint => checkpoint !== object);
+      this.objects.delete(handle);
+    }
+  }
+
+  public setWantedLevel(level: number): void {
+    this.player.setWantedLevel(level);
+  }
+
+  public printObjective(text: string): void {
+    this.objectives = [text];
+    this.currentObjectiveIndex = 0;
+  }
+
+  public missionPassed(): void {
+    this.isComplete = true;
+  }
+
+  public missionFailed(reason: string): void {
+    this.failMission(reason);
+  }
+
+  public isPlayerInArea(x: number, z: number, radius: number): boolean {
+    const position = this.player.getPosition();
+    return Math.hypot(position.x - x, position.z - z) <= radius;
+  }
+
+  public isPlayerInAnyVehicle(): boolean {
+    return this.player.isInsideVehicle();
+  }
+
+  public isPlayerInVehicle(handle: number): boolean {
+    const vehicle = this.vehicles.get(handle);
+    return !!vehicle && this.player.isInsideVehicle() && this.player.getCurrentVehicle() === vehicle;
+  }
+
+  public isVehicleInArea(handle: number, x: number, z: number, radius: number): boolean {
+    const vehicle = this.vehicles.get(handle);
+    if (!vehicle) return false;
+
+    const position = vehicle.getPosition();
+    return Math.hypot(position.x - x, position.z - z) <= radius;
+  }
+
+  public getVehicleHealth(handle: number): number {
+    return this.vehicles.get(handle)?.getHealth() ?? 0;
+  }
+
+  public randomInt(min: number, max: number): number {
+    return this.random.int(min, max);
+  }
+
+  /**
+   * Take a script vehicle out of the world
+   */
+  private removeVehicle(vehicle: Vehicle): void {
+    const worldVehicles = this.scene.userData.vehicles as Vehicle[] | undefined;
+    if (worldVehicles) {
+      const index = worldVehicles.indexOf(vehicle);
+      if (index >= 0) worldVehicles.splice(index, 1);
+    }
+    this.scene.remove(vehicle.getMesh());
+  }
+
+  /**
+   * Stop the script and remove what it spawned. A vehicle the player is
+   * still driving stays in the world.
+   */
+  public cleanup(): void {
+    this.vm.stop();
+
+    for (const vehicle of this.vehicles.values()) {
+      if (!vehicle.isPlayerInside()) {
+        this.removeVehicle(vehicle);
+      }
+    }
+    for (const pedestrian of this.pedestrians.values()) {
+      pedestrian.dispose();
+    }
+
+    this.vehicles.clear();
+    this.vehicleGrid.clear();
+    this.pedestrians.clear();
+    this.objects.clear();
+
+    super.cleanup();
+  }
+}
@@ -0,0 +1,317 @@
+import * as THREE from 'three';
+import { Mission } from './Mission';
+import { Player } from '../Player';
+import { InputManager } from '../InputManager';
+import { MissionDefinition, MissionStep, MissionVector } from './MissionDefinition';
+
+/**
+ * ScriptedMission runs a mission described by a JSON MissionDefinition,
+ * executing its steps in order through the regular Mission life cycle
+ */
+export class ScriptedMission extends Mission {
+  // Current step
+  private stepIndex = 0;
+  private stepStartTime = 0;
+
+  // Items the player is carrying, by name
+  private carriedItems: Set<string> = new Set();
+
+  // Whether the player has been in a vehicle during this mission (for leave_vehicle)
+  private hasEnteredVehicle = false;
+
+  // Scene objects that belong to the current step
+  private stepObjects: THREE.Object3D[] = [];
+
+  // Chase target state
+  private targetObject: THREE.Mesh | null = null;
+  private targetPosition: THREE.Vector3 = new THREE.Vector3();
+
+  constructor(
+    scene: THREE.Scene,
+    player: Player,
+    inputManager: InputManager,
+    private definition: MissionDefinition
+  ) {
+    super(scene, player, inputManager);
+
+    // Set mission properties
+    this.id = definition.id;
+    this.title = definition.title;
+    this.description = definition.description;
+    this.objectives = definition.steps.map(step => step.objective);
+    this.timeLimit = definition.timeLimit ?? 0;
+    this.reward = definition.reward.text ?? `$${definition.reward.money}`;
+    this.moneyReward = definition.reward.money;
+    this.unlocksMissions = definition.unlocks ?? [];
+    this.contactPosition.copy(ScriptedMission.toVector(definition.contact));
+  }
+
+  /**
+   * Initialize the mission
+   */
+  public initialize(): void {
+    // Reset mission state
+    this.isActive = true;
+    this.isComplete = false;
+    this.isFailed = false;
+    this.failReason = '';
+    this.currentObjectiveIndex = 0;
+    this.elapsedTime = 0;
+    this.carriedItems.clear();
+    this.hasEnteredVehicle = this.player.isInsideVehicle();
+
+    // Place the player if the mission has a start position
+    if (this.definition.start) {
+      this.player.setPosition(ScriptedMission.toVector(this.definition.start));
+    }
+
+    this.startStep(0);
+  }
+
+  /**
+   * Update the current step and check fail conditions
+   */
+  public update(deltaTime: number): void {
+    if (!this.isActive || this.isComplete || this.isFailed) return;
+
+    if (this.player.isInsideVehicle()) {
+      this.hasEnteredVehicle = true;
+    }
+
+    // Check global fail conditions
+    if (this.checkFailConditions()) return;
+
+    const step = this.definition.steps[this.stepIndex];
+
+    // Check the step's own time limit
+    if (step.timeout !== undefined && this.elapsedTime - this.stepStartTime > step.timeout) {
+      this.failMission('You took too long!');
+      return;
+    }
+
+    if (this.updateStep(step, deltaTime)) {
+      this.completeStep();
+    }
+  }
+
+  /**
+   * Run the current step for one simulation step
+   * @returns Whether the step's goal has been reached
+   */
+  private updateStep(step: MissionStep, deltaTime: number): boolean {
+    switch (step.type) {
+      case 'go_to': {
+        if (step.requireVehicle === true && !this.player.isInsideVehicle()) return false;
+        if (step.requireVehicle === false && this.player.isInsideVehicle()) return false;
+        return this.isPlayerNear(step.position, step.radius ?? 3);
+      }
+
+      case 'enter_vehicle':
+        return this.player.isInsideVehicle();
+
+      case 'pick_up':
+        // Items are picked up on foot
+        if (this.player.isInsideVehicle() || !this.isPlayerNear(step.position, step.radius ?? 1.5)) return false;
+        this.carriedItems.add(step.item);
+        return true;
+
+      case 'deliver':
+        if (!this.carriedItems.has(step.item) || !this.isPlayerNear(step.position, step.radius ?? 3)) return false;
+        this.carriedItems.delete(step.item);
+        return true;
+
+      case 'chase_target':
+        return this.updateChase(step.end, step.speed, step.catchDistance ?? 5, step.escapeDistance, deltaTime);
+
+      case 'survive':
+        return this.elapsedTime - this.stepStartTime >= step.duration;
+
+      case 'lose_wanted':
+        return this.player.getWantedLevel() === 0;
+    }
+  }
+
+  /**
+   * Move the chase target towards its escape point
+   * @returns Whether the player has caught the target
+   */
+  private updateChase(
+    end: MissionVector,
+    speed: number,
+    catchDistance: number,
+    escapeDistance: number | undefined,
+    deltaTime: number
+  ): boolean {
+    const playerPosition = this.player.getPosition();
+    const distanceToPlayer = Math.hypot(playerPosition.x - this.targetPosition.x, playerPosition.z - this.targetPosition.z);
+
+    if (distanceToPlayer <= catchDistance) {
+      return true;
+    }
+
+    if (escapeDistance !== undefined && distanceToPlayer > escapeDistance) {
+      this.failMission('The target got away!');
+      return false;
+    }
+
+    // Head for the escape point
+    const direction = new THREE.Vector3().subVectors(ScriptedMission.toVector(end), this.targetPosition);
+    direction.y = 0;
+    const remaining = direction.length();
+    if (remaining < 1) {
+      this.failMission('The target escaped!');
+      return false;
+    }
+
+    direction.normalize();
+    this.targetPosition.addScaledVector(direction, Math.min(remaining, speed * deltaTime));
+
+    if (this.targetObject) {
+      this.targetObject.position.set(this.targetPosition.x, this.targetPosition.y + 0.5, this.targetPosition.z);
+      this.targetObject.rotation.y = Math.atan2(direction.x, direction.z);
+    }
+
+    return false;
+  }
+
+  /**
+   * Check the definition's fail conditions
+   * @returns Whether the mission failed
+   */
+  private checkFailConditions(): boolean {
+    for (const condition of this.definition.failConditions ?? []) {
+      switch (condition.type) {
+        case 'leave_vehicle':
+          if (this.hasEnteredVehicle && !this.player.isInsideVehicle()) {
+            this.failMission(condition.reason ?? 'You left the vehicle!');
+            return true;
+          }
+          break;
+        case 'leave_area':
+          if (!this.isPlayerNear(condition.position, condition.radius)) {
+            this.failMission(condition.reason ?? 'You left the area!');
+            return true;
+          }
+          break;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Finish the current step and move on to the next one
+   */
+  private completeStep(): void {
+    this.advanceObjective();
+
+    if (!this.isComplete) {
+      this.startStep(this.stepIndex + 1);
+    } else {
+      this.clearStepObjects();
+    }
+  }
+
+  /**
+   * Set up markers and props for a step
+   */
+  private startStep(index: number): void {
+    this.clearStepObjects();
+
+    this.stepIndex = index;
+    this.stepStartTime = this.elapsedTime;
+
+    const step = this.definition.steps[index];
+    if (step.wantedLevel !== undefined) {
+      this.player.setWantedLevel(step.wantedLevel);
+    }
+
+    switch (step.type) {
+      case 'go_to':
+        this.stepObjects.push(this.createCheckpoint(ScriptedMission.toVector(step.position), step.radius ?? 3, 0xffcc00));
+        break;
+      case 'enter_vehicle':
+        if (step.position) {
+          this.stepObjects.push(this.createMarker(ScriptedMission.toVector(step.position), 0xffff00));
+        }
+        break;
+      case 'pick_up':
+        this.stepObjects.push(this.createMarker(ScriptedMission.toVector(step.position), 0x0088ff));
+        this.stepObjects.push(this.createItem(ScriptedMission.toVector(step.position)));
+        break;
+      case 'deliver':
+        this.stepObjects.push(this.createCheckpoint(ScriptedMission.toVector(step.position), step.radius ?? 3, 0x00ff00));
+        break;
+      case 'chase_target':
+        this.targetPosition.copy(ScriptedMission.toVector(step.start));
+        this.targetObject = this.createTarget(this.targetPosition);
+        this.stepObjects.push(this.targetObject);
+        break;
+      case 'survive':
+      case 'lose_wanted':
+        break;
+    }
+  }
+
+  /**
+   * Create a box for an item waiting to be picked up
+   */
+  private createItem(position: THREE.Vector3): THREE.Mesh {
+    const geometry = new THREE.BoxGeometry(0.5, 0.5, 0.5);
+    const material = new THREE.MeshLambertMaterial({ color: 0xbb8844 });
+
+    const item = new THREE.Mesh(geometry, material);
+    item.position.copy(position);
+    item.position.y += 0.25; // Place on ground
+
+    this.scene.add(item);
+    return item;
+  }
+
+  /**
+   * Create the car the player has to chase
+   */
+  private createTarget(position: THREE.Vector3): THREE.Mesh {
+    const geometry = new THREE.BoxGeometry(2, 1, 4);
+    const material = new THREE.MeshLambertMaterial({ color: 0x990000 });
+
+    const target = new THREE.Mesh(geometry, material);
+    target.position.copy(position);
+    target.position.y += 0.5; // Place on ground
+
+    this.scene.add(target);
+    return target;
+  }
+
+  /**
+   * Remove the current step's markers and props
+   */
+  private clearStepObjects(): void {
+    for (const object of this.stepObjects) {
+      this.scene.remove(object);
+    }
+    this.markers = this.markers.filter(marker => !this.stepObjects.includes(marker));
+    this.checkpoints = this.checkpoints.filter(checkpoint => !this.stepObjects.includes(checkpoint));
+    this.stepObjects = [];
+    this.targetObject = null;
+  }
+
+  /**
+   * Check if the player is within range of a position on the ground plane
+   */
+  private isPlayerNear(position: MissionVector, range: number): boolean {
+    const playerPosition = this.player.getPosition();
+    return Math.hypot(playerPosition.x - position[0], playerPosition.z - position[2]) <= range;
+  }
+
+  private static toVector(vector: MissionVector): THREE.Vector3 {
+    return new THREE.Vector3(vector[0], vector[1], vector[2]);
+  }
+
+  /**
+   * Clean up mission resources
+   */
+  public cleanup(): void {
+    this.clearStepObjects();
+    super.cleanup();
+  }
+}
@@ -13,7 +13,7 @@ export class TutorialMission extends Mission {
   private currentStepIndex = 0;
   private stepCompleted = false;
   private stepStartTime = 0;
-  private stepTimeout = 0;
+  private stepTimeout = 0; // seconds, 0 means the step must be completed
   
   // Tutorial locations
   private startPosition: THREE.Vector3 = new THREE.Vector3(0, 0, 0);
@@ -52,6 +52,9 @@ export class TutorialMission extends Mission {
     // No time limit for tutorial
     this.timeLimit = 0;
     
+    // Contact is just ahead of where the player spawns
+    this.contactPosition.set(0, 0, -6);
+    
     // Set reward
     this.reward = 'Access to your first mission';
     
@@ -68,6 +71,7 @@ export class TutorialMission extends Mission {
     this.isComplete = false;
     this.isFailed = false;
     this.currentObjectiveIndex = 0;
+    this.elapsedTime = 0;
     this.currentStepIndex = 0;
     this.stepCompleted = false;
     
@@ -117,18 +121,18 @@ export class TutorialMission extends Mission {
    * Start the current tutorial step
    */
   private startCurrentStep(): void {
-    this.stepStartTime = Date.now();
+    this.stepStartTime = this.elapsedTime;
     
     // Set step timeout based on the step
     switch (this.currentStepIndex) {
       case 0: // Movement tutorial
-        this.stepTimeout = 10000; // 10 seconds to try movement
+        this.stepTimeout = 10; // 10 seconds to try movement
         break;
       case 1: // Look around tutorial
-        this.stepTimeout = 8000; // 8 seconds to try looking around
+        this.stepTimeout = 8; // 8 seconds to try looking around
         break;
       case 2: // Jump tutorial
-        this.stepTimeout = 5000; // 5 seconds to try jumping
+        this.stepTimeout = 5; // 5 seconds to try jumping
         break;
       case 3: // Vehicle entry tutorial
         // No timeout, must complete this step
@@ -152,7 +156,7 @@ export class TutorialMission extends Mission {
    */
   private checkStepCompletion(): void {
     // If step has a timeout and time has elapsed, consider it completed
-    if (this.stepTimeout > 0 && Date.now() - this.stepStartTime > this.stepTimeout) {
+    if (this.stepTimeout > 0 && this.elapsedTime - this.stepStartTime > this.stepTimeout) {
       this.stepCompleted = true;
       return;
     }
@@ -12,7 +12,10 @@ export enum HumanAnimationState {
   JUMP = 'jump',
   ENTER_VEHICLE = 'enter_vehicle',
   EXIT_VEHICLE = 'exit_vehicle',
-  DRIVING = 'driving'
+  CARJACK = 'carjack',
+  DRIVING = 'driving',
+  AIM = 'aim',
+  SHOOT = 'shoot'
 }
 
 /**
@@ -37,6 +40,11 @@ export class HumanModel {
    * Load the human model and its animations
    */
   public async load(modelId = 'player'): Promise<boolean> {
+    // Nothing to load when running without a renderer
+    if (!AssetLoader.getInstance().isModelLoadingEnabled()) {
+      return false;
+    }
+    
     // Try to load from original GTA3 assets first
     const gta3AssetLoader = GTA3AssetLoader.getInstance();
     let model: THREE.Group | null = null;
@@ -67,7 +75,7 @@ export class HumanModel {
     // First try to get animations from GTA3 assets, then fall back to generated animations
     let animationClips = null;
     const assetLoader = AssetLoader.getInstance();
-    animationClips = assetLoader.getAnimations(modelId);
+    animationClips = assetLoader.getAnimations(modelId) ?? assetLoader.getAnimations('player'); // Every character shares the player's rig
     
     if (animationClips && animationClips.length > 0) {
       this.setupAnimations(animationClips);
@@ -151,16 +159,25 @@ export class HumanModel {
       else if (clip.name.includes('walk')) state = HumanAnimationState.WALK;
       else if (clip.name.includes('run')) state = HumanAnimationState.RUN;
       else if (clip.name.includes('jump')) state = HumanAnimationState.JUMP;
+      else if (clip.name.includes('jack') || clip.name.includes('pullout')) state = HumanAnimationState.CARJACK;
       else if (clip.name.includes('enter')) state = HumanAnimationState.ENTER_VEHICLE;
       else if (clip.name.includes('exit')) state = HumanAnimationState.EXIT_VEHICLE;
       else if (clip.name.includes('drive')) state = HumanAnimationState.DRIVING;
+      else if (clip.name.includes('aim')) state = HumanAnimationState.AIM;
+      else if (clip.name.includes('shoot') || clip.name.includes('fire')) state = HumanAnimationState.SHOOT;
       
       if (state && this.mixer) {
         const action = this.mixer.clipAction(clip);
         this.animations.set(state, action);
       }
     });
-    
+
+    // Without a carjack clip, pulling a driver out looks like getting in
+    const enterAction = this.animations.get(HumanAnimationState.ENTER_VEHICLE);
+    if (enterAction && !this.animations.has(HumanAnimationState.CARJACK)) {
+      this.animations.set(HumanAnimationState.CARJACK, enterAction);
+    }
+
     // If no animations were loaded, create a default idle animation
     if (this.animations.size === 0 && this.mixer) {
       // Create a simple default animation (no movement)
@@ -13,6 +13,16 @@ export enum VehicleType {
   POLICE = 'police'
 }
 
+/**
+ * How badly a vehicle is damaged, as shown on its model
+ */
+export enum VehicleDamageStage {
+  INTACT = 'intact',
+  SMOKING = 'smoking', // Smoke from the engine
+  ON_FIRE = 'on_fire', // Engine fire; the vehicle is about to explode
+  WRECKED = 'wrecked' // Burnt-out shell
+}
+
 /**
  * VehicleModel represents a 3D vehicle model with animations
  */
@@ -22,9 +32,19 @@ export class VehicleModel {
   
   // Vehicle parts for animation
   private wheels: THREE.Object3D[] = [];
+  private wheelRestHeights: number[] = []; // Each wheel's height with the suspension at rest
   private steeringWheel: THREE.Object3D | null = null;
   private doors: THREE.Object3D[] = [];
   
+  // Doors currently swinging, mapped to their target rotation
+  private doorTargets: Map<THREE.Object3D, number> = new Map();
+  private doorSwingSpeed = 3.0; // radians per second
+  
+  // Smoke or flames from the engine, and how far they have billowed
+  private damageStage = VehicleDamageStage.INTACT;
+  private damageEffect: THREE.Mesh | null = null;
+  private damageEffectTime = 0;
+  
   // Vehicle properties
   private type: VehicleType;
   private width = 2.0;
@@ -43,6 +63,11 @@ export class VehicleModel {
    * Load the vehicle model
    */
   public async load(modelId = 'car'): Promise<boolean> {
+    // Nothing to load when running without a renderer
+    if (!AssetLoader.getInstance().isModelLoadingEnabled()) {
+      return false;
+    }
+    
     // Try to load from original GTA3 assets first
     const gta3AssetLoader = GTA3AssetLoader.getInstance();
     let model: THREE.Group | null = null;
@@ -95,6 +120,9 @@ export class VehicleModel {
     // Apply vehicle dimensions based on type
     this.updateVehicleDimensions();
     
+    // The vehicle may have been damaged before its model arrived
+    this.applyDamageStage();
+    
     return true;
   }
   
@@ -165,6 +193,7 @@ export class VehicleModel {
     ];
     
     this.wheels = [];
+    this.wheelRestHeights = [];
     for (let i = 0; i < 4; i++) {
       const wheel = new THREE.Mesh(wheelGeometry, wheelMaterial);
       wheel.rotation.z = Math.PI / 2; // Rotate to correct orientation
@@ -172,6 +201,7 @@ export class VehicleModel {
       wheel.castShadow = true;
       group.add(wheel);
       this.wheels.push(wheel);
+      this.wheelRestHeights.push(wheel.position.y);
     }
     
     // Add headlights
@@ -193,6 +223,7 @@ export class VehicleModel {
     // Add to scene
     this.model = group;
     this.scene.add(this.model);
+    this.applyDamageStage();
     
     return true;
   }
@@ -205,9 +236,11 @@ export class VehicleModel {
     
     // Find wheels
     this.wheels = [];
+    this.wheelRestHeights = [];
     this.model.traverse((child) => {
       if (child.name.toLowerCase().includes('wheel')) {
         this.wheels.push(child);
+        this.wheelRestHeights.push(child.position.y);
       } else if (child.name.toLowerCase().includes('steering')) {
         this.steeringWheel = child;
       } else if (child.name.toLowerCase().includes('door')) {
@@ -260,13 +293,23 @@ export class VehicleModel {
   
   /**
    * Update the vehicle model
+   * @param wheelOffsets How far each wheel is pushed up by its suspension (front left, front right, rear left, rear right); null leaves them at rest
    */
-  public update(deltaTime: number, steeringAngle = 0, speed = 0): void {
+  public update(deltaTime: number, steeringAngle = 0, speed = 0, wheelOffsets: number[] | null = null): void {
     // Update wheel rotation based on speed
     this.rotateWheels(deltaTime, speed);
     
     // Update steering wheel based on steering angle
     this.steerWheels(steeringAngle);
+    
+    // Move the wheels up and down with the suspension
+    this.compressWheels(wheelOffsets);
+    
+    // Update door animations
+    this.updateDoors(deltaTime);
+    
+    // Billow smoke or flicker flames
+    this.updateDamageEffect(deltaTime);
   }
   
   /**
@@ -302,6 +345,15 @@ export class VehicleModel {
     }
   }
   
+  /**
+   * Raise each wheel into its arch by its suspension compression
+   */
+  private compressWheels(wheelOffsets: number[] | null): void {
+    for (let i = 0; i < this.wheels.length && i < this.wheelRestHeights.length; i++) {
+      this.wheels[i].position.y = this.wheelRestHeights[i] + (wheelOffsets?.[i] ?? 0);
+    }
+  }
+  
   /**
    * Steer the front wheels based on steering angle
    */
@@ -321,28 +373,110 @@ export class VehicleModel {
   
   /**
    * Play door animation (for vehicle entry/exit)
+   * The door swings towards its target in updateDoors, driven by simulation time
    */
   public animateDoor(doorIndex = 0, open = true): void {
     if (this.doors.length > doorIndex) {
       const door = this.doors[doorIndex];
       const targetRotation = open ? Math.PI / 4 : 0; // 45 degrees open or closed
+      this.doorTargets.set(door, targetRotation);
+    }
+  }
+  
+  /**
+   * Advance door opening/closing animations
+   */
+  public updateDoors(deltaTime: number): void {
+    this.doorTargets.forEach((targetRotation, door) => {
+      const diff = targetRotation - door.rotation.y;
+      const step = this.doorSwingSpeed * deltaTime;
       
-      // Animate door opening/closing
-      const animateDoorRotation = () => {
-        const step = open ? 0.05 : -0.05;
-        
-        door.rotation.y += step;
-        
-        if ((open && door.rotation.y < targetRotation) || 
-            (!open && door.rotation.y > targetRotation)) {
-          requestAnimationFrame(animateDoorRotation);
-        } else {
-          door.rotation.y = targetRotation;
-        }
-      };
-      
-      animateDoorRotation();
+      if (Math.abs(diff) <= step) {
+        door.rotation.y = targetRotation;
+        this.doorTargets.delete(door);
+      } else {
+        door.rotation.y += Math.sign(diff) * step;
+      }
+    });
+  }
+  
+  /**
+   * Show how badly the vehicle is damaged: engine smoke, engine fire or a burnt-out shell
+   */
+  public setDamageStage(stage: VehicleDamageStage): void {
+    if (stage === this.damageStage) return;
+    this.damageStage = stage;
+    this.applyDamageStage();
+  }
+  
+  /**
+   * Swap the smoke or fire above the engine for the current damage stage, and
+   * blacken the body once the vehicle is wrecked
+   */
+  private applyDamageStage(): void {
+    if (!this.model) return;
+    
+    if (this.damageEffect) {
+      this.model.remove(this.damageEffect);
+      this.damageEffect = null;
+    }
+    
+    let color: number;
+    let size: number;
+    switch (this.damageStage) {
+      case VehicleDamageStage.INTACT:
+        return;
+      case VehicleDamageStage.SMOKING:
+        color = 0x888888;
+        size = 0.5;
+        break;
+      case VehicleDamageStage.ON_FIRE:
+        color = 0xff6600;
+        size = 0.7;
+        break;
+      case VehicleDamageStage.WRECKED:
+        color = 0x222222; // Still smouldering
+        size = 0.6;
+        this.blackenBody();
+        break;
     }
+    
+    this.damageEffect = new THREE.Mesh(
+      new THREE.SphereGeometry(size, 8, 6),
+      new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.7, depthWrite: false })
+    );
+    // Over the engine, at the front of the vehicle
+    this.damageEffect.position.set(0, this.height * 0.6, -this.length / 2 + 0.8);
+    this.model.add(this.damageEffect);
+  }
+  
+  /**
+   * Char every part of the body (materials are cloned, as they may be shared with other vehicles)
+   */
+  private blackenBody(): void {
+    this.model?.traverse(object => {
+      if (!(object instanceof THREE.Mesh) || object === this.damageEffect) return;
+      
+      const burn = (material: THREE.Material): THREE.Material => {
+        const burnt = material.clone() as THREE.Material & { color?: THREE.Color };
+        burnt.color?.setHex(0x1a1a1a);
+        return burnt;
+      };
+      const mesh = object as THREE.Mesh<THREE.BufferGeometry, THREE.Material | THREE.Material[]>;
+      mesh.material = Array.isArray(mesh.material) ? mesh.material.map(burn) : burn(mesh.material);
+    });
+  }
+  
+  /**
+   * Billow smoke or flicker flames above the engine
+   */
+  public updateDamageEffect(deltaTime: number): void {
+    if (!this.damageEffect) return;
+    
+    this.damageEffectTime += deltaTime;
+    const speed = this.damageStage === VehicleDamageStage.ON_FIRE ? 12 : 3;
+    const scale = 1 + 0.25 * Math.sin(this.damageEffectTime * speed);
+    this.damageEffect.scale.set(scale, 1 + (scale - 1) * 2, scale);
   }
   
   /**
@@ -0,0 +1,50 @@
+import * as THREE from 'three';
+
+/**
+ * An upright capsule standing on its base, the collision shape of a person:
+ * a vertical segment swept by a sphere, so its top and bottom are rounded
+ */
+export class Capsule {
+  public base = new THREE.Vector3(); // Lowest point, at the feet
+
+  constructor(
+    public radius: number,
+    public height: number // From the base to the top of the head
+  ) {}
+
+  /**
+   * Stand the capsule at a new position
+   */
+  public set(base: THREE.Vector3): this {
+    this.base.copy(base);
+    return this;
+  }
+
+  public clone(): Capsule {
+    return new Capsule(this.radius, this.height).set(this.base);
+  }
+
+  /**
+   * The axis-aligned box the capsule fits in
+   */
+  public getBounds(): THREE.Box3 {
+    return new THREE.Box3(
+      new THREE.Vector3(this.base.x - this.radius, this.base.y, this.base.z - this.radius),
+      new THREE.Vector3(this.base.x + this.radius, this.base.y + this.height, this.base.z + this.radius)
+    );
+  }
+
+  /**
+   * Height of the lower end of the segment the sphere is swept along
+   */
+  public getBottom(): number {
+    return this.base.y + this.radius;
+  }
+
+  /**
+   * Height of the upper end of the segment the sphere is swept along
+   */
+  public getTop(): number {
+    return this.base.y + Math.max(this.radius, this.height - this.radius);
+  }
+}
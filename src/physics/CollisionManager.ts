@@ -0,0 +1,164 @@
+import * as THREE from 'three';
+import { Player } from '../Player';
+import { Pedestrian } from '../Pedestrian';
+import { Vehicle } from '../Vehicle';
+import { PoliceManager } from '../police/PoliceManager';
+import { Contact } from './OrientedBox';
+import { SpatialHash } from './SpatialHash';
+
+/**
+ * CollisionManager resolves crashes between vehicles, and between vehicles
+ * and pedestrians, using each vehicle's oriented box. Vehicles bounce off
+ * each other with impulses that conserve momentum, so a truck shunts a car
+ * aside and an off-centre hit spins it, and both take damage from the impact
+ * speed, as does the player at the wheel of either. Pedestrians hit hard
+ * enough are knocked down and hurt. The player's crashes are reported to the
+ * police, the harder the worse.
+ */
+export class CollisionManager {
+  // Tuning
+  private restitution = 0.2; // Bounciness of vehicles off each other
+  private pedestrianMass = 80; // kg, for how much a hit slows the vehicle
+  private knockDownSpeed = 3; // m/s a vehicle must hit a pedestrian at to knock them down
+  private injuryPerSpeed = 6; // Pedestrian damage per m/s of impact speed over knockDownSpeed
+  private throwDistance = 1.0; // How far a knocked-down pedestrian is thrown clear
+  private pedestrianReach = 0.5; // Margin around a vehicle to look for pedestrians in, at least their radius
+
+  private pedestrianGrid: SpatialHash<Pedestrian> = new SpatialHash(10); // Pedestrians this step, by where they stand
+
+  constructor(private policeManager: PoliceManager) {}
+
+  /**
+   * Resolve every crash this step
+   * @param vehicleGrid The same vehicles, by where they are
+   * @param pedestrians Civilians and police officers on foot
+   */
+  public update(player: Player, vehicles: Vehicle[], vehicleGrid: SpatialHash<Vehicle>, pedestrians: Pedestrian[]): void {
+    const playerVehicle = player.isInsideVehicle() ? player.getCurrentVehicle() : null;
+
+    // Each pair of neighbouring vehicles once, in list order
+    const order = new Map(vehicles.map((vehicle, i) => [vehicle, i]));
+    vehicles.forEach((a, i) => {
+      for (const b of vehicleGrid.queryBox(a.getCollider())) {
+        if ((order.get(b) ?? -1) <= i) continue;
+
+        const contact = a.getOrientedBox().intersectsBox(b.getOrientedBox());
+        if (contact) {
+          this.resolveVehicles(a, b, contact, player, playerVehicle);
+        }
+      }
+    });
+
+    this.pedestrianGrid.clear();
+    for (const pedestrian of pedestrians) {
+      // Lying in the road, or dead
+      if (!pedestrian.isKnockedDown()) this.pedestrianGrid.insertPoint(pedestrian, pedestrian.getPosition());
+    }
+
+    for (const vehicle of vehicles) {
+      for (const pedestrian of this.pedestrianGrid.queryBox(vehicle.getCollider().clone().expandByScalar(this.pedestrianReach))) {
+        if (pedestrian.isKnockedDown()) continue; // Already knocked down by another vehicle this step
+
+        const contact = vehicle.getOrientedBox().intersectsCapsule(pedestrian.getCapsule());
+        if (contact) {
+          this.resolvePedestrian(vehicle, pedestrian, contact, player, playerVehicle);
+        }
+      }
+    }
+  }
+
+  /**
+   * Push two overlapping vehicles apart and, if they were closing, bounce them off each other
+   * @param contact Normal pointing from a to b
+   */
+  private resolveVehicles(a: Vehicle, b: Vehicle, contact: Contact, player: Player, playerVehicle: Vehicle | null): void {
+    const { normal, depth, point } = contact;
+
+    // Wrecks don't move
+    const inverseMassA = a.isWrecked() ? 0 : 1 / a.getMass();
+    const inverseMassB = b.isWrecked() ? 0 : 1 / b.getMass();
+    const totalInverseMass = inverseMassA + inverseMassB;
+    if (totalInverseMass === 0) return;
+
+    // Separate them, the lighter one moving further
+    a.push(normal.clone().multiplyScalar(-depth * inverseMassA / totalInverseMass));
+    b.push(normal.clone().multiplyScalar(depth * inverseMassB / totalInverseMass));
+
+    // Relative speed of the touching points along the normal; positive means already separating
+    const leverA = new THREE.Vector3().subVectors(point, a.getPosition()).setY(0);
+    const leverB = new THREE.Vector3().subVectors(point, b.getPosition()).setY(0);
+    const closingVelocity = this.getPointVelocity(b, leverB).sub(this.getPointVelocity(a, leverA));
+    const normalSpeed = closingVelocity.dot(normal);
+    if (normalSpeed >= 0) return;
+
+    // Impulse that reverses the closing speed (times the restitution), spin included
+    const turnA = this.cross(leverA, normal);
+    const turnB = this.cross(leverB, normal);
+    const inverseInertiaA = a.isWrecked() ? 0 : 1 / a.getYawInertia();
+    const inverseInertiaB = b.isWrecked() ? 0 : 1 / b.getYawInertia();
+    const effectiveMass = totalInverseMass + turnA * turnA * inverseInertiaA + turnB * turnB * inverseInertiaB;
+    const impulse = normal.clone().multiplyScalar(-(1 + this.restitution) * normalSpeed / effectiveMass);
+
+    // Ramming is only the player's fault if they drove into the other vehicle
+    const impactSpeed = -normalSpeed;
+    if (playerVehicle === a || playerVehicle === b) {
+      player.applyCrashDamage(impactSpeed);
+
+      const victim = playerVehicle === a ? b : a;
+      const towardsVictim = playerVehicle === a ? normal : normal.clone().negate();
+      if (playerVehicle.getVelocity().dot(towardsVictim) >= impactSpeed / 2 && !victim.hasCollidedRecently) {
+        this.policeManager.reportRam(player, victim, impactSpeed);
+      }
+    }
+
+    a.applyImpulse(impulse.clone().negate(), point);
+    b.applyImpulse(impulse, point);
+    a.takeImpact(impactSpeed, point);
+    b.takeImpact(impactSpeed, point);
+    a.registerImpact();
+    b.registerImpact();
+  }
+
+  /**
+   * Push a pedestrian out from under a vehicle, knocking them down if it hit them hard enough
+   * @param contact Normal pointing from the vehicle to the pedestrian
+   */
+  private resolvePedestrian(vehicle: Vehicle, pedestrian: Pedestrian, contact: Contact, player: Player, playerVehicle: Vehicle | null): void {
+    const { normal, depth, point } = contact;
+    const lever = new THREE.Vector3().subVectors(point, vehicle.getPosition()).setY(0);
+    const impactSpeed = this.getPointVelocity(vehicle, lever).dot(normal);
+
+    if (impactSpeed < this.knockDownSpeed) {
+      // Walked into a car, or nudged by a slow one
+      pedestrian.push(normal.clone().multiplyScalar(depth));
+      return;
+    }
+
+    pedestrian.push(normal.clone().multiplyScalar(depth + this.throwDistance));
+    pedestrian.knockDown(vehicle.getPosition());
+    pedestrian.takeDamage((impactSpeed - this.knockDownSpeed) * this.injuryPerSpeed, vehicle.getPosition());
+
+    // The vehicle loses the momentum it gave them
+    vehicle.applyImpulse(normal.clone().multiplyScalar(-this.pedestrianMass * impactSpeed), point);
+
+    if (vehicle === playerVehicle) {
+      this.policeManager.reportVehicleHit(player, pedestrian, impactSpeed);
+    }
+  }
+
+  /**
+   * Velocity of a point on a vehicle, spin included
+   * @param lever From the vehicle's centre to the point
+   */
+  private getPointVelocity(vehicle: Vehicle, lever: THREE.Vector3): THREE.Vector3 {
+    const yawRate = vehicle.getYawRate();
+    return vehicle.getVelocity().clone().setY(0).add(new THREE.Vector3(yawRate * lever.z, 0, -yawRate * lever.x));
+  }
+
+  /**
+   * Spin a push along a direction gives about the vertical axis, per unit of push
+   */
+  private cross(lever: THREE.Vector3, direction: THREE.Vector3): number {
+    return lever.z * direction.x - lever.x * direction.z;
+  }
+}
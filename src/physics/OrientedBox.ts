@@ -0,0 +1,176 @@
+import * as THREE from 'three';
+import { Capsule } from './Capsule';
+
+/**
+ * Where two shapes touch
+ */
+export interface Contact {
+  normal: THREE.Vector3; // Unit, horizontal, pointing from the first shape towards the second
+  depth: number; // How far they overlap along the normal
+  point: THREE.Vector3; // Roughly where they touch
+}
+
+/**
+ * A box turned about the vertical axis, like a vehicle on the road or a
+ * building. Overlap tests use the separating axis theorem in the ground
+ * plane, plus a height check so a car flying off a ramp clears the cars
+ * below. Each test returns the contact normal and depth, so the caller can
+ * push the shapes apart along the right axis.
+ */
+export class OrientedBox {
+  public center = new THREE.Vector3();
+  public yaw = 0; // Same convention as entity rotations: 0 faces -Z
+
+  constructor(
+    public halfWidth: number, // Along the box's right (x at yaw 0)
+    public halfHeight: number,
+    public halfLength: number // Along the box's forward (-z at yaw 0)
+  ) {}
+
+  /**
+   * An unturned box filling an axis-aligned one, e.g. a building's bounds
+   */
+  public static fromBox3(box: THREE.Box3): OrientedBox {
+    const size = box.getSize(new THREE.Vector3());
+    return new OrientedBox(size.x / 2, size.y / 2, size.z / 2).set(box.getCenter(new THREE.Vector3()), 0);
+  }
+
+  /**
+   * Move the box
+   */
+  public set(center: THREE.Vector3, yaw: number): this {
+    this.center.copy(center);
+    this.yaw = yaw;
+    return this;
+  }
+
+  public getRight(): THREE.Vector3 {
+    return new THREE.Vector3(Math.cos(this.yaw), 0, -Math.sin(this.yaw));
+  }
+
+  public getForward(): THREE.Vector3 {
+    return new THREE.Vector3(-Math.sin(this.yaw), 0, -Math.cos(this.yaw));
+  }
+
+  /**
+   * The four corners in the ground plane, at the centre's height
+   */
+  public getCorners(): THREE.Vector3[] {
+    const right = this.getRight().multiplyScalar(this.halfWidth);
+    const forward = this.getForward().multiplyScalar(this.halfLength);
+    return [
+      this.center.clone().add(right).add(forward),
+      this.center.clone().sub(right).add(forward),
+      this.center.clone().sub(right).sub(forward),
+      this.center.clone().add(right).sub(forward)
+    ];
+  }
+
+  /**
+   * Whether a point lies within the box's footprint
+   */
+  public containsPoint(point: THREE.Vector3): boolean {
+    const offset = new THREE.Vector3(point.x - this.center.x, 0, point.z - this.center.z);
+    return Math.abs(offset.dot(this.getRight())) <= this.halfWidth &&
+      Math.abs(offset.dot(this.getForward())) <= this.halfLength;
+  }
+
+  /**
+   * Radius of a circle around the centre that holds the whole footprint
+   */
+  public getBoundingRadius(): number {
+    return Math.hypot(this.halfWidth, this.halfLength);
+  }
+
+  /**
+   * Whether something spanning centerY ± halfHeight overlaps the box in height
+   */
+  private overlapsVertically(centerY: number, halfHeight: number): boolean {
+    return Math.abs(this.center.y - centerY) < this.halfHeight + halfHeight;
+  }
+
+  /**
+   * Test against another box
+   * @returns The contact, with the normal pointing towards the other box, or null if they don't overlap
+   */
+  public intersectsBox(other: OrientedBox): Contact | null {
+    if (!this.overlapsVertically(other.center.y, other.halfHeight)) return null;
+
+    const between = new THREE.Vector3(other.center.x - this.center.x, 0, other.center.z - this.center.z);
+    if (between.length() > this.getBoundingRadius() + other.getBoundingRadius()) return null;
+
+    // The axis of least overlap among both boxes' edge normals separates them the quickest
+    let depth = Infinity;
+    let normal = new THREE.Vector3();
+    for (const axis of [this.getRight(), this.getForward(), other.getRight(), other.getForward()]) {
+      const overlap = this.projectRadius(axis) + other.projectRadius(axis) - Math.abs(between.dot(axis));
+      if (overlap <= 0) return null;
+      if (overlap < depth) {
+        depth = overlap;
+        normal = between.dot(axis) < 0 ? axis.negate() : axis;
+      }
+    }
+
+    // Touching where the corners poke into the other box; for crossed edges, between the centres
+    const inside = [
+      ...other.getCorners().filter(corner => this.containsPoint(corner)),
+      ...this.getCorners().filter(corner => other.containsPoint(corner))
+    ];
+    const point = new THREE.Vector3();
+    if (inside.length > 0) {
+      inside.forEach(corner => point.add(corner));
+      point.divideScalar(inside.length);
+    } else {
+      point.addVectors(this.center, other.center).multiplyScalar(0.5);
+    }
+
+    return { normal, depth, point };
+  }
+
+  /**
+   * Test against an upright capsule, e.g. a person
+   * @returns The contact, with the normal pointing towards the capsule, or null if they don't overlap
+   */
+  public intersectsCapsule(capsule: Capsule): Contact | null {
+    // Height gap between the box and the capsule's segment; across a gap the
+    // rounded end reaches less far out
+    const gap = Math.max(0, this.center.y - this.halfHeight - capsule.getTop(), capsule.getBottom() - this.center.y - this.halfHeight);
+    if (gap >= capsule.radius) return null;
+    const radius = Math.sqrt(capsule.radius * capsule.radius - gap * gap);
+
+    const right = this.getRight();
+    const forward = this.getForward();
+    const base = capsule.base;
+    const offset = new THREE.Vector3(base.x - this.center.x, 0, base.z - this.center.z);
+    const x = offset.dot(right);
+    const z = offset.dot(forward);
+
+    // Nearest point of the footprint to the capsule's axis
+    const nearestX = THREE.MathUtils.clamp(x, -this.halfWidth, this.halfWidth);
+    const nearestZ = THREE.MathUtils.clamp(z, -this.halfLength, this.halfLength);
+    const point = this.center.clone().addScaledVector(right, nearestX).addScaledVector(forward, nearestZ).setY(base.y);
+
+    if (nearestX !== x || nearestZ !== z) {
+      // Axis outside the box: push out along the line to the nearest point
+      const away = new THREE.Vector3(base.x - point.x, 0, base.z - point.z);
+      const distance = away.length();
+      if (distance >= radius) return null;
+      return { normal: away.divideScalar(distance), depth: radius - distance, point };
+    }
+
+    // Axis inside the box: out through the nearest side
+    const toSide = this.halfWidth - Math.abs(x);
+    const toEnd = this.halfLength - Math.abs(z);
+    const normal = toSide < toEnd
+      ? right.multiplyScalar(Math.sign(x) || 1)
+      : forward.multiplyScalar(Math.sign(z) || 1);
+    return { normal, depth: Math.min(toSide, toEnd) + radius, point };
+  }
+
+  /**
+   * Half the box's extent along an axis in the ground plane
+   */
+  private projectRadius(axis: THREE.Vector3): number {
+    return this.halfWidth * Math.abs(this.getRight().dot(axis)) + this.halfLength * Math.abs(this.getForward().dot(axis));
+  }
+}
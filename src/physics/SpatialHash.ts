@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+
+interface Entry {
+  bounds: THREE.Box3;
+  keys: number[]; // Cells the item is filed under
+}
+
+/**
+ * A uniform grid over the ground plane, for finding what is near a point or
+ * overlapping a box without looking at everything in the city. Items are
+ * filed under every cell their bounds touch; a query only looks in the cells
+ * it covers, then checks the bounds, so it returns exactly the items whose
+ * footprint is in range. Height is ignored.
+ */
+export class SpatialHash<T> {
+  private cells: Map<number, Set<T>> = new Map();
+  private entries: Map<T, Entry> = new Map();
+
+  /**
+   * @param cellSize Width of a cell in metres; about the size of the largest common query works well
+   */
+  constructor(private cellSize: number) {}
+
+  /**
+   * Add an item, or move it if it is already in the grid
+   */
+  public insert(item: T, bounds: THREE.Box3): void {
+    const keys = this.getKeys(bounds);
+    const entry = this.entries.get(item);
+
+    if (entry) {
+      entry.bounds.copy(bounds);
+      if (keys.length === entry.keys.length && keys.every((key, i) => key === entry.keys[i])) return;
+      this.unfile(item, entry.keys);
+      entry.keys = keys;
+    } else {
+      this.entries.set(item, { bounds: bounds.clone(), keys });
+    }
+
+    for (const key of keys) {
+      let cell = this.cells.get(key);
+      if (!cell) {
+        cell = new Set();
+        this.cells.set(key, cell);
+      }
+      cell.add(item);
+    }
+  }
+
+  /**
+   * Add or move an item that has no size, e.g. a person's position
+   */
+  public insertPoint(item: T, position: THREE.Vector3): void {
+    this.insert(item, new THREE.Box3(position, position));
+  }
+
+  public remove(item: T): void {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+    this.unfile(item, entry.keys);
+    this.entries.delete(item);
+  }
+
+  public clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+  }
+
+  /**
+   * Items whose footprint overlaps a box's
+   */
+  public queryBox(box: THREE.Box3): T[] {
+    return this.query(box, bounds =>
+      bounds.min.x <= box.max.x && bounds.max.x >= box.min.x &&
+      bounds.min.z <= box.max.z && bounds.max.z >= box.min.z
+    );
+  }
+
+  /**
+   * Items whose footprint comes within a distance of a point
+   */
+  public queryRadius(center: THREE.Vector3, radius: number): T[] {
+    const area = new THREE.Box3(
+      new THREE.Vector3(center.x - radius, 0, center.z - radius),
+      new THREE.Vector3(center.x + radius, 0, center.z + radius)
+    );
+    return this.query(area, bounds => {
+      const dx = Math.max(bounds.min.x - center.x, 0, center.x - bounds.max.x);
+      const dz = Math.max(bounds.min.z - center.z, 0, center.z - bounds.max.z);
+      return dx * dx + dz * dz <= radius * radius;
+    });
+  }
+
+  /**
+   * Items filed in the cells an area covers that pass a test, each once
+   */
+  private query(area: THREE.Box3, test: (bounds: THREE.Box3) => boolean): T[] {
+    const found = new Set<T>();
+    for (const key of this.getKeys(area)) {
+      const cell = this.cells.get(key);
+      if (!cell) continue;
+      for (const item of cell) {
+        const entry = this.entries.get(item);
+        if (entry && !found.has(item) && test(entry.bounds)) {
+          found.add(item);
+        }
+      }
+    }
+    return [...found];
+  }
+
+  private unfile(item: T, keys: number[]): void {
+    for (const key of keys) {
+      const cell = this.cells.get(key);
+      if (!cell) continue;
+      cell.delete(item);
+      if (cell.size === 0) this.cells.delete(key);
+    }
+  }
+
+  /**
+   * Keys of the cells a box's footprint touches
+   */
+  private getKeys(bounds: THREE.Box3): number[] {
+    const minX = Math.floor(bounds.min.x / this.cellSize);
+    const maxX = Math.floor(bounds.max.x / this.cellSize);
+    const minZ = Math.floor(bounds.min.z / this.cellSize);
+    const maxZ = Math.floor(bounds.max.z / this.cellSize);
+
+    const keys: number[] = [];
+    for (let x = minX; x <= maxX; x++) {
+      for (let z = minZ; z <= maxZ; z++) {
+        // Unique while |z| stays under 50000 cells
+        keys.push(x * 100003 + z);
+      }
+    }
+    return keys;
+  }
+}
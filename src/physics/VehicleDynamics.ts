@@ -0,0 +1,347 @@
+import * as THREE from 'three';
+import { HandlingProfile } from '../handling/HandlingProfile';
+
+const GRAVITY = 9.81;
+
+/**
+ * What the driver is doing this step
+ */
+export interface DriverControls {
+  throttle: number; // 0-1, driving forwards
+  reverse: number; // 0-1, driving backwards
+  brake: number; // 0-1
+  handbrake: boolean; // Locks the rear wheels
+  steeringAngle: number; // Radians, positive steers left
+  engineBraking: boolean; // Whether someone is at the wheel to hold the car back off the throttle
+}
+
+/**
+ * The parts of a vehicle's state the dynamics move; updated in place
+ */
+export interface VehicleBody {
+  position: THREE.Vector3; // Centre of the body
+  velocity: THREE.Vector3; // m/s
+  rotation: THREE.Euler; // Only the heading (y) is used; pitch and roll are kept by the dynamics
+}
+
+/**
+ * One wheel: where it is mounted and how its suspension is doing
+ */
+interface Wheel {
+  right: number; // Mount offset to the right of the centre, m
+  forward: number; // Mount offset ahead of the centre, m
+  front: boolean; // Steered; the rear wheels are driven
+  compression: number; // Spring compression, m
+  load: number; // Spring force pressing the tyre to the ground, N
+  grounded: boolean;
+  slip: number; // 0-1, how hard the tyre is sliding
+  contact: THREE.Vector3; // Where the tyre touches the ground
+}
+
+/**
+ * VehicleDynamics simulates a car as a rigid body on four raycast wheels.
+ * Each wheel casts down to the ground and pushes the body up with a
+ * spring/damper; the spring loads set how much grip each tyre has. Tyre
+ * forces come from slip angles and are limited by a friction circle, so a
+ * car pushed past the limit slides, drifts or spins. Accelerating, braking
+ * and cornering pitch and roll the body, shifting load between the wheels.
+ * With no wheel on the ground the car flies ballistically (off ramps).
+ *
+ * Suspension tuning: suspensionStiffness is the body's bounce frequency in
+ * rad/s, suspensionDamping a fraction of critical damping.
+ */
+export class VehicleDynamics {
+  private wheels: Wheel[];
+  private yawRate = 0; // rad/s
+  private pitch = 0; // Radians, nose up
+  private pitchRate = 0;
+  private roll = 0; // Radians, right side up
+  private rollRate = 0;
+
+  // Tuning
+  private wheelRadius = 0.4;
+  private centreOfMassHeight = 0.55; // Above the ground, for weight transfer
+  private lowSpeedSlip = 1.5; // m/s; slip angles are measured against at least this speed, so tyres don't chatter when nearly stopped
+  private maxBodyAngle = 0.35; // Radians of pitch or roll the body can reach while on the ground
+  private airborneSpinDamping = 0.3; // Per second, while flying
+  private lockedGrip = 0.8; // Grip of a locked (sliding) tyre, as a fraction of its peak grip
+  private rearGripBias = 1.15; // Rear tyres grip this much more, so a car pushed too hard ploughs on (understeers) rather than spinning, unless the throttle breaks the rear loose
+
+  constructor(
+    private width: number,
+    private height: number,
+    private length: number
+  ) {
+    const track = width / 2 - 0.2;
+    const axle = length / 2 - 0.7;
+    const wheel = (right: number, forward: number, front: boolean): Wheel => (
+      { right, forward, front, compression: 0, load: 0, grounded: true, slip: 0, contact: new THREE.Vector3() }
+    );
+    this.wheels = [
+      wheel(-track, axle, true), // Front left
+      wheel(track, axle, true), // Front right
+      wheel(-track, -axle, false), // Rear left
+      wheel(track, -axle, false) // Rear right
+    ];
+  }
+
+  /**
+   * Advance the body one simulation step
+   * @param topSpeed Speed the engine can drive the car up to
+   * @param getGroundHeight Height of the ground under a point
+   */
+  public step(
+    deltaTime: number,
+    body: VehicleBody,
+    handling: HandlingProfile,
+    controls: DriverControls,
+    topSpeed: number,
+    getGroundHeight: (x: number, z: number) => number
+  ): void {
+    const mass = handling.mass;
+    const wheelMass = mass / this.wheels.length;
+    const yaw = body.rotation.y;
+    const forward = new THREE.Vector3(-Math.sin(yaw), 0, -Math.cos(yaw));
+    const right = new THREE.Vector3(Math.cos(yaw), 0, -Math.sin(yaw));
+
+    // Springs: each wheel casts down from its mount to the ground
+    const omega = handling.suspensionStiffness;
+    const springRate = wheelMass * omega * omega;
+    const damperRate = 2 * handling.suspensionDamping * omega * wheelMass;
+    const mountHeight = this.getMountHeight(handling);
+    let liftForce = 0;
+    let pitchTorque = 0;
+    let rollTorque = 0;
+    let bumpStop = 0; // How far the body has sunk past full compression
+
+    for (const wheel of this.wheels) {
+      const offset = this.getWheelOffset(wheel, forward, right);
+      const mountY = body.position.y + mountHeight + Math.sin(this.pitch) * wheel.forward + Math.sin(this.roll) * wheel.right;
+      const ground = getGroundHeight(body.position.x + offset.x, body.position.z + offset.z);
+      wheel.contact.set(body.position.x + offset.x, ground, body.position.z + offset.z);
+      const springLength = mountY - ground - this.wheelRadius;
+      const compression = handling.suspensionTravel - springLength;
+
+      const previous = wheel.compression;
+      wheel.grounded = compression > 0;
+      wheel.compression = THREE.MathUtils.clamp(compression, 0, handling.suspensionTravel);
+      bumpStop = Math.max(bumpStop, compression - handling.suspensionTravel);
+
+      const compressionSpeed = (wheel.compression - previous) / deltaTime;
+      wheel.load = wheel.grounded ? Math.max(0, springRate * wheel.compression + damperRate * compressionSpeed) : 0;
+
+      liftForce += wheel.load;
+      pitchTorque += wheel.load * wheel.forward;
+      rollTorque += wheel.load * wheel.right;
+    }
+
+    // Tyres: grip from the slip angle, drive, brakes and rolling resistance,
+    // all within a friction circle set by each wheel's load
+    const force = new THREE.Vector3();
+    let yawTorque = 0;
+    const speedAlong = body.velocity.dot(forward);
+
+    for (const wheel of this.wheels) {
+      wheel.slip = 0;
+      if (!wheel.grounded) continue;
+
+      const offset = this.getWheelOffset(wheel, forward, right);
+      const pointVelocity = body.velocity.clone().add(new THREE.Vector3(this.yawRate * offset.z, 0, -this.yawRate * offset.x));
+      const heading = yaw + (wheel.front ? controls.steeringAngle : 0);
+      const wheelForward = new THREE.Vector3(-Math.sin(heading), 0, -Math.cos(heading));
+      const wheelRight = new THREE.Vector3(Math.cos(heading), 0, -Math.sin(heading));
+      const longSpeed = pointVelocity.dot(wheelForward);
+      const latSpeed = pointVelocity.dot(wheelRight);
+      const maxGrip = handling.tractionMultiplier * wheel.load * (wheel.front ? 1 : this.rearGripBias);
+      let longitudinal = 0;
+      let lateral = 0;
+
+      if (controls.handbrake && !wheel.front) {
+        // A locked wheel just slides: friction opposes the way the tyre is moving
+        const slideSpeed = Math.hypot(longSpeed, latSpeed);
+        if (slideSpeed > 0.01) {
+          const friction = maxGrip * this.lockedGrip;
+          longitudinal = this.limitToStop(-friction * longSpeed / slideSpeed, longSpeed, wheelMass, deltaTime);
+          lateral = this.limitToStop(-friction * latSpeed / slideSpeed, latSpeed, wheelMass, deltaTime);
+          wheel.slip = Math.min(1, slideSpeed / this.lowSpeedSlip);
+        }
+      } else {
+        // Sideways grip, proportional to the slip angle
+        const slipAngle = Math.atan2(latSpeed, Math.max(Math.abs(longSpeed), this.lowSpeedSlip));
+        lateral = this.limitToStop(-slipAngle * handling.corneringStiffness * wheel.load, latSpeed, wheelMass, deltaTime);
+
+        // Engine through the rear wheels, brakes and drag on all four
+        if (!wheel.front) {
+          const driveShare = mass * handling.acceleration / 2;
+          if (controls.throttle > 0) {
+            longitudinal += controls.throttle * driveShare * Math.max(0, 1 - speedAlong / topSpeed);
+          } else if (controls.reverse > 0) {
+            longitudinal -= controls.reverse * driveShare * Math.max(0, 1 + speedAlong / (topSpeed * 0.5));
+          }
+        }
+        let resistance = handling.rollingResistance * wheel.load + controls.brake * handling.brakingForce * wheelMass;
+        if (controls.engineBraking && controls.throttle === 0 && controls.reverse === 0) {
+          resistance += handling.deceleration * wheelMass;
+        }
+        longitudinal += this.limitToStop(-Math.sign(longSpeed) * resistance, longSpeed, wheelMass, deltaTime);
+
+        // Friction circle: a tyre asked for more than its grip slides
+        const demand = Math.hypot(longitudinal, lateral);
+        if (demand > maxGrip) {
+          longitudinal *= maxGrip / demand;
+          lateral *= maxGrip / demand;
+          wheel.slip = Math.min(1, demand / maxGrip - 1);
+        }
+      }
+
+      const wheelForce = wheelForward.multiplyScalar(longitudinal).add(wheelRight.multiplyScalar(lateral));
+      force.add(wheelForce);
+      yawTorque += offset.z * wheelForce.x - offset.x * wheelForce.z;
+    }
+    const longitudinalForce = force.dot(forward);
+    const lateralForce = force.dot(right);
+
+    // Air resistance
+    const horizontalSpeed = Math.hypot(body.velocity.x, body.velocity.z);
+    force.x -= handling.dragCoefficient * body.velocity.x * horizontalSpeed;
+    force.z -= handling.dragCoefficient * body.velocity.z * horizontalSpeed;
+
+    // Tyre forces act below the centre of mass: speeding up squats the body,
+    // braking dives it and cornering rolls it towards the outside of the turn
+    pitchTorque += longitudinalForce * this.centreOfMassHeight;
+    rollTorque += lateralForce * this.centreOfMassHeight;
+
+    // Integrate (semi-implicit Euler)
+    body.velocity.x += force.x / mass * deltaTime;
+    body.velocity.z += force.z / mass * deltaTime;
+    body.velocity.y += (liftForce / mass - GRAVITY) * deltaTime;
+    body.position.addScaledVector(body.velocity, deltaTime);
+
+    this.yawRate += yawTorque / this.getYawInertia(mass) * deltaTime;
+    body.rotation.y += this.yawRate * deltaTime;
+
+    const airborne = this.isAirborne();
+    if (airborne) {
+      // Nothing to push against in the air; the spin carries on, slowly fading
+      const damping = Math.max(0, 1 - this.airborneSpinDamping * deltaTime);
+      this.yawRate *= damping;
+      this.pitchRate *= damping;
+      this.rollRate *= damping;
+    } else {
+      // Pitch and roll about the level position held by the springs
+      const pitchInertia = mass * (this.length * this.length + this.height * this.height) / 12;
+      const rollInertia = mass * (this.width * this.width + this.height * this.height) / 12;
+      this.pitchRate += pitchTorque / pitchInertia * deltaTime;
+      this.rollRate += rollTorque / rollInertia * deltaTime;
+    }
+    this.pitch += this.pitchRate * deltaTime;
+    this.roll += this.rollRate * deltaTime;
+    if (!airborne) {
+      this.pitch = THREE.MathUtils.clamp(this.pitch, -this.maxBodyAngle, this.maxBodyAngle);
+      this.roll = THREE.MathUtils.clamp(this.roll, -this.maxBodyAngle, this.maxBodyAngle);
+    }
+
+    // Bottoming out: the body can't sink into the ground
+    if (bumpStop > 0) {
+      body.position.y += bumpStop;
+      body.velocity.y = Math.max(0, body.velocity.y);
+    }
+  }
+
+  /**
+   * Limit a force that opposes motion so it stops the wheel's share of the
+   * car this step at most, rather than pushing it back the other way
+   */
+  private limitToStop(force: number, speed: number, wheelMass: number, deltaTime: number): number {
+    const stoppingForce = wheelMass * Math.abs(speed) / deltaTime;
+    return THREE.MathUtils.clamp(force, -stoppingForce, stoppingForce);
+  }
+
+  /**
+   * Height of the wheel mounts above the body's centre, chosen so that at
+   * rest the springs hold the centre half the body height above the ground
+   */
+  private getMountHeight(handling: HandlingProfile): number {
+    const restCompression = GRAVITY / (handling.suspensionStiffness * handling.suspensionStiffness);
+    return handling.suspensionTravel - restCompression + this.wheelRadius - this.height / 2;
+  }
+
+  private getWheelOffset(wheel: Wheel, forward: THREE.Vector3, right: THREE.Vector3): THREE.Vector3 {
+    return forward.clone().multiplyScalar(wheel.forward).addScaledVector(right, wheel.right);
+  }
+
+  /**
+   * Settle on the springs with no motion (after a teleport, or when a
+   * kinematically driven vehicle hands over to the dynamics)
+   */
+  public reset(handling: HandlingProfile): void {
+    const restCompression = GRAVITY / (handling.suspensionStiffness * handling.suspensionStiffness);
+    for (const wheel of this.wheels) {
+      wheel.compression = restCompression;
+      wheel.load = handling.mass * GRAVITY / this.wheels.length;
+      wheel.grounded = true;
+      wheel.slip = 0;
+    }
+    this.yawRate = 0;
+    this.pitch = 0;
+    this.pitchRate = 0;
+    this.roll = 0;
+    this.rollRate = 0;
+  }
+
+  /**
+   * Resistance of the body to spinning about the vertical axis, kg·m²
+   */
+  public getYawInertia(mass: number): number {
+    return mass * (this.length * this.length + this.width * this.width) / 12;
+  }
+
+  /**
+   * Add a sudden spin, e.g. from being clipped by another car
+   */
+  public addYawRate(rate: number): void {
+    this.yawRate += rate;
+  }
+
+  /**
+   * Whether no wheel is touching the ground
+   */
+  public isAirborne(): boolean {
+    return this.wheels.every(wheel => !wheel.grounded);
+  }
+
+  /**
+   * How far each wheel is pushed up into its arch from where it sits at rest
+   * (negative when hanging down), front left, front right, rear left, rear right
+   */
+  public getWheelOffsets(handling: HandlingProfile): number[] {
+    const restCompression = GRAVITY / (handling.suspensionStiffness * handling.suspensionStiffness);
+    return this.wheels.map(wheel => wheel.compression - restCompression);
+  }
+
+  /**
+   * How hard each wheel's tyre is sliding, 0-1, in getWheelOffsets order
+   */
+  public getWheelSlips(): number[] {
+    return this.wheels.map(wheel => wheel.slip);
+  }
+
+  /**
+   * Where each wheel touches (or would touch) the ground, in getWheelOffsets order
+   */
+  public getWheelContacts(): THREE.Vector3[] {
+    return this.wheels.map(wheel => wheel.contact);
+  }
+
+  public getYawRate(): number {
+    return this.yawRate;
+  }
+
+  public getPitch(): number {
+    return this.pitch;
+  }
+
+  public getRoll(): number {
+    return this.roll;
+  }
+}
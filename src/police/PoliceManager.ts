@@ -0,0 +1,478 @@
+import * as THREE from 'three';
+import { Environment } from '../Environment';
+import { Player } from '../Player';
+import { Vehicle } from '../Vehicle';
+import { Pedestrian } from '../Pedestrian';
+import { PedestrianType } from '../PedestrianType';
+import { VehicleManager } from '../VehicleManager';
+import { VehicleType } from '../models/VehicleModel';
+import { RandomStream } from '../utils/Random';
+import { SpatialHash } from '../physics/SpatialHash';
+import { Lane } from '../city/RoadNetwork';
+import { SignalState } from '../city/TrafficLights';
+
+/**
+ * Crimes the police react to
+ */
+export enum Crime {
+  HIT_PEDESTRIAN = 'hit_pedestrian',
+  HIT_OFFICER = 'hit_officer',
+  RAM_VEHICLE = 'ram_vehicle',
+  RAM_POLICE = 'ram_police',
+  STEAL_VEHICLE = 'steal_vehicle',
+  CARJACK = 'carjack',
+  ATTACK_PEDESTRIAN = 'attack_pedestrian',
+  ATTACK_OFFICER = 'attack_officer',
+  FIRE_WEAPON = 'fire_weapon',
+  RUN_RED_LIGHT = 'run_red_light'
+}
+
+// Heat each crime adds; witnessed crimes count double
+const CRIME_HEAT: Record<Crime, number> = {
+  [Crime.HIT_PEDESTRIAN]: 25,
+  [Crime.HIT_OFFICER]: 60,
+  [Crime.RAM_VEHICLE]: 10,
+  [Crime.RAM_POLICE]: 40,
+  [Crime.STEAL_VEHICLE]: 30,
+  [Crime.CARJACK]: 40,
+  [Crime.ATTACK_PEDESTRIAN]: 20,
+  [Crime.ATTACK_OFFICER]: 80,
+  [Crime.FIRE_WEAPON]: 10,
+  [Crime.RUN_RED_LIGHT]: 15
+};
+
+// Crimes that only count when the police see them
+const WITNESS_ONLY: Crime[] = [Crime.STEAL_VEHICLE, Crime.CARJACK, Crime.FIRE_WEAPON, Crime.RUN_RED_LIGHT];
+
+/**
+ * What the police send at a wanted level
+ */
+interface PoliceResponse {
+  cars: number; // Pursuing police cars
+  officers: number; // Officers on foot
+  roadblocks: boolean;
+}
+
+// Indexed by wanted level
+const RESPONSES: PoliceResponse[] = [
+  { cars: 0, officers: 0, roadblocks: false },
+  { cars: 1, officers: 1, roadblocks: false },
+  { cars: 2, officers: 2, roadblocks: false },
+  { cars: 3, officers: 2, roadblocks: true },
+  { cars: 4, officers: 3, roadblocks: true },
+  { cars: 5, officers: 4, roadblocks: true },
+  { cars: 6, officers: 4, roadblocks: true }
+];
+
+/**
+ * Police cars parked across a road ahead of the player, with an officer behind them
+ */
+interface Roadblock {
+  position: THREE.Vector3;
+  vehicles: Vehicle[];
+  officers: Pedestrian[];
+}
+
+/**
+ * PoliceManager runs the wanted level: it spots the player's crimes, raises
+ * heat on the player's WantedLevel, lets stars decay while no police can see
+ * the player, and escalates the response with the star level - pursuing
+ * police cars from VehicleManager traffic, officers on foot and roadblocks.
+ */
+export class PoliceManager {
+  // Sight
+  private sightRange = 40; // How far police can see the player
+  private playerSeen = false;
+  private timeUnseen = 0;
+  private loseStarTime = 12; // Seconds out of sight to lose a star
+
+  // Crime detection
+  private hitSpeed = 4; // Minimum speed for hitting a pedestrian to count
+  private ramSpeed = 6; // Minimum speed for ramming a vehicle to count
+  private maxCrashSeverity = 3; // Heat from a crash grows with impact speed, up to this many times the usual
+  private wasInVehicle = false;
+  private takenVehicles: WeakSet<Vehicle> = new WeakSet(); // Cars the player has already taken, or may drive anyway; getting back in isn't stealing
+  private redLightLane: Lane | null = null; // Lane the player is driving up to a red light in
+  private laneReach = 3; // How far off a lane's line the player's car may be and still be in it
+
+  // Dispatch
+  private dispatchInterval = 4; // Seconds between requests for another police car
+  private timeSinceDispatch = 0;
+  private officers: Pedestrian[] = [];
+  private deployedVehicles: WeakSet<Vehicle> = new WeakSet(); // Police cars that have let their officer out
+  private deployDistance = 15; // Pursuing cars stopped this close let an officer out
+  private despawnRadius = 80;
+
+  // Roadblocks
+  private roadblock: Roadblock | null = null;
+  private roadblockDistance = 60; // How far ahead of the player roadblocks are placed
+  private roadblockCooldown = 0;
+  private roadblockInterval = 20; // Seconds between roadblocks
+
+  constructor(
+    private scene: THREE.Scene,
+    private environment: Environment,
+    private vehicleManager: VehicleManager,
+    private random: RandomStream // 'police' stream
+  ) {}
+
+  /**
+   * Update crime detection, the wanted level and the police response
+   * @param vehicles Traffic, for officers on foot to react to
+   */
+  public update(deltaTime: number, player: Player, vehicles: SpatialHash<Vehicle>): void {
+    this.playerSeen = this.canPoliceSee(player.getPosition());
+
+    this.detectCrimes(player);
+    this.updateDecay(deltaTime, player);
+
+    const response = RESPONSES[player.getWantedLevel()];
+    this.vehicleManager.setMaxPursuers(response.cars);
+
+    this.dispatchVehicles(deltaTime, player, response);
+    this.deployOfficers(player, response);
+    this.updateOfficers(deltaTime, player, vehicles);
+    this.updateRoadblock(deltaTime, player, response);
+  }
+
+  /**
+   * Move rendered officers and roadblocks between the last two simulation steps
+   */
+  public interpolate(alpha: number): void {
+    for (const officer of this.getOfficers()) {
+      officer.interpolate(alpha);
+    }
+    for (const vehicle of this.getVehicles()) {
+      vehicle.interpolate(alpha);
+    }
+  }
+
+  /**
+   * Report a crime by the player, adding heat to their wanted level
+   * @param severity Multiplies the crime's heat
+   */
+  public reportCrime(player: Player, crime: Crime, severity = 1): void {
+    if (!this.playerSeen && WITNESS_ONLY.includes(crime)) {
+      return;
+    }
+
+    player.getWanted().addHeat(CRIME_HEAT[crime] * severity * (this.playerSeen ? 2 : 1));
+    if (this.playerSeen) {
+      this.timeUnseen = 0;
+    }
+  }
+
+  /**
+   * Report the player attacking a pedestrian with a weapon; attacking an officer is worse
+   */
+  public reportAttack(player: Player, victim: Pedestrian): void {
+    this.reportCrime(player, this.isOfficer(victim) ? Crime.ATTACK_OFFICER : Crime.ATTACK_PEDESTRIAN);
+  }
+
+  /**
+   * Report the player running someone down; the faster the hit, the more heat
+   * @param impactSpeed m/s
+   */
+  public reportVehicleHit(player: Player, victim: Pedestrian, impactSpeed: number): void {
+    if (impactSpeed < this.hitSpeed) return;
+    this.reportCrime(player, this.isOfficer(victim) ? Crime.HIT_OFFICER : Crime.HIT_PEDESTRIAN, this.getCrashSeverity(impactSpeed, this.hitSpeed));
+  }
+
+  /**
+   * Report the player ramming a vehicle; the faster the hit, the more heat
+   * @param impactSpeed m/s
+   */
+  public reportRam(player: Player, victim: Vehicle, impactSpeed: number): void {
+    if (impactSpeed < this.ramSpeed) return;
+    this.reportCrime(player, victim.isPolice() ? Crime.RAM_POLICE : Crime.RAM_VEHICLE, this.getCrashSeverity(impactSpeed, this.ramSpeed));
+  }
+
+  /**
+   * Report the player pulling a driver out of their car; that covers taking the car too
+   */
+  public reportCarjack(player: Player, vehicle: Vehicle): void {
+    this.takenVehicles.add(vehicle);
+    this.reportCrime(player, Crime.CARJACK);
+  }
+
+  private getCrashSeverity(impactSpeed: number, minimumSpeed: number): number {
+    return Math.min(this.maxCrashSeverity, impactSpeed / minimumSpeed);
+  }
+
+  /**
+   * Let the player drive a car without taking it counting as a crime, e.g. one a save put them in
+   */
+  public allowVehicle(vehicle: Vehicle): void {
+    this.takenVehicles.add(vehicle);
+  }
+
+  /**
+   * Check what the player just did: getting into a car for the first time is
+   * stealing it, and driving over a stop line on red is running the light.
+   * Crashes are reported by the CollisionManager as they happen.
+   */
+  private detectCrimes(player: Player): void {
+    const inVehicle = player.isInsideVehicle();
+    const vehicle = player.getCurrentVehicle();
+    if (inVehicle && !this.wasInVehicle && vehicle && !this.takenVehicles.has(vehicle)) {
+      this.reportCrime(player, Crime.STEAL_VEHICLE);
+      this.takenVehicles.add(vehicle);
+    }
+    this.wasInVehicle = inVehicle;
+
+    if (inVehicle && vehicle && this.hasRunRedLight(vehicle)) {
+      this.reportCrime(player, Crime.RUN_RED_LIGHT);
+    }
+  }
+
+  /**
+   * Follow the player's car up to red lights, and catch it crossing the stop line
+   * @returns Whether it crossed one this step
+   */
+  private hasRunRedLight(vehicle: Vehicle): boolean {
+    const lights = this.environment.getTrafficLights();
+    const position = vehicle.getPosition();
+
+    if (this.redLightLane) {
+      const lane = this.redLightLane;
+      const offset = new THREE.Vector3().subVectors(position, lane.start).setY(0);
+      const across = Math.abs(offset.dot(new THREE.Vector3(-lane.direction.z, 0, lane.direction.x)));
+      if (lights.getSignal(lane) !== SignalState.RED || across > this.laneReach) {
+        // The light changed, or the car turned off
+        this.redLightLane = null;
+      } else if (offset.dot(lane.direction) > lane.length) {
+        this.redLightLane = null;
+        return true;
+      }
+      if (this.redLightLane) return false;
+    }
+
+    // Driving up to a red light
+    const forward = new THREE.Vector3(0, 0, -1).applyEuler(vehicle.getRotation());
+    const nearest = this.environment.getRoadNetwork().findNearestLane(position, forward, this.laneReach);
+    if (nearest && nearest.distance < nearest.lane.length && lights.getSignal(nearest.lane) === SignalState.RED) {
+      this.redLightLane = nearest.lane;
+    }
+    return false;
+  }
+
+  /**
+   * Drop a star each time the player stays out of police sight long enough
+   */
+  private updateDecay(deltaTime: number, player: Player): void {
+    if (player.getWantedLevel() === 0 || this.playerSeen) {
+      this.timeUnseen = 0;
+      return;
+    }
+
+    this.timeUnseen += deltaTime;
+    if (this.timeUnseen >= this.loseStarTime) {
+      player.getWanted().loseStar();
+      this.timeUnseen = 0;
+    }
+  }
+
+  /**
+   * Whether any police car or officer has a clear line of sight to a position
+   */
+  private canPoliceSee(position: THREE.Vector3): boolean {
+    const eyes = [
+      ...this.vehicleManager.getPoliceVehicles().map(vehicle => vehicle.getPosition()),
+      ...this.getVehicles().map(vehicle => vehicle.getPosition()),
+      ...this.getOfficers().filter(officer => !officer.isKnockedDown()).map(officer => officer.getPosition())
+    ];
+
+    return eyes.some(eye => this.hasLineOfSight(eye, position));
+  }
+
+  /**
+   * Check that no building blocks the view between two points within sight range
+   */
+  private hasLineOfSight(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    return from.distanceTo(to) <= this.sightRange && this.environment.hasLineOfSight(from, to);
+  }
+
+  /**
+   * Send a police car after the player when none is chasing. Once units are
+   * in pursuit they call for their own backup.
+   */
+  private dispatchVehicles(deltaTime: number, player: Player, response: PoliceResponse): void {
+    this.timeSinceDispatch += deltaTime;
+
+    if (response.cars === 0 || this.timeSinceDispatch < this.dispatchInterval) return;
+    this.timeSinceDispatch = 0;
+
+    if (this.vehicleManager.getPursuers().length === 0) {
+      this.vehicleManager.spawnPoliceVehicle(player);
+    }
+  }
+
+  /**
+   * Let an officer out of each pursuing car that has stopped near the player
+   */
+  private deployOfficers(player: Player, response: PoliceResponse): void {
+    const playerPosition = player.getPosition();
+
+    for (const vehicle of this.vehicleManager.getPursuers()) {
+      if (this.officers.length >= response.officers) return;
+      if (this.deployedVehicles.has(vehicle)) continue;
+      if (Math.abs(vehicle.getCurrentSpeed()) > 1 || vehicle.getPosition().distanceTo(playerPosition) > this.deployDistance) continue;
+
+      // Step out of the driver's side
+      const position = vehicle.getPosition().add(new THREE.Vector3(-2, 0, 0).applyEuler(vehicle.getRotation()));
+      this.officers.push(this.createOfficer(position, vehicle.getRotation().y, player));
+      this.deployedVehicles.add(vehicle);
+    }
+  }
+
+  /**
+   * Chase the player while they are wanted; afterwards officers go about their
+   * business until they are far enough away to remove
+   */
+  private updateOfficers(deltaTime: number, player: Player, vehicles: SpatialHash<Vehicle>): void {
+    const wanted = player.getWantedLevel() > 0;
+    const playerPosition = player.getPosition();
+
+    for (let i = this.officers.length - 1; i >= 0; i--) {
+      const officer = this.officers[i];
+
+      if (!wanted && officer.getPosition().distanceTo(playerPosition) > this.despawnRadius) {
+        officer.dispose();
+        this.officers.splice(i, 1);
+        continue;
+      }
+
+      if (wanted && !officer.isPursuing() && !officer.isKnockedDown()) {
+        officer.setPursuitTarget(player);
+      } else if (!wanted && officer.isPursuing()) {
+        officer.setPursuitTarget(null);
+      }
+
+      officer.update(deltaTime, player, vehicles);
+    }
+
+    if (this.roadblock) {
+      for (const officer of this.roadblock.officers) {
+        if (wanted && !officer.isPursuing() && !officer.isKnockedDown()) {
+          officer.setPursuitTarget(player);
+        }
+        officer.update(deltaTime, player, vehicles);
+      }
+    }
+  }
+
+  /**
+   * Place a roadblock ahead of a player driving away at high wanted levels, and
+   * clear it once the player is well past it or no longer that wanted
+   */
+  private updateRoadblock(deltaTime: number, player: Player, response: PoliceResponse): void {
+    this.roadblockCooldown = Math.max(0, this.roadblockCooldown - deltaTime);
+    const playerPosition = player.getPosition();
+
+    if (this.roadblock) {
+      for (const vehicle of this.roadblock.vehicles) {
+        vehicle.update(deltaTime);
+      }
+
+      const distance = this.roadblock.position.distanceTo(playerPosition);
+      if (distance > this.despawnRadius * 1.5 || (!response.roadblocks && distance > this.sightRange)) {
+        this.removeRoadblock();
+      }
+      return;
+    }
+
+    const playerVehicle = player.isInsideVehicle() ? player.getCurrentVehicle() : null;
+    if (!response.roadblocks || this.roadblockCooldown > 0 || !playerVehicle || playerVehicle.getCurrentSpeed() < 8) return;
+
+    // Block the road the player is heading for
+    const ahead = playerPosition.clone().addScaledVector(
+      new THREE.Vector3(0, 0, -1).applyEuler(playerVehicle.getRotation()),
+      this.roadblockDistance
+    );
+    const road = this.environment.getRoadNetwork().findRoadAt(ahead);
+    if (!road) return;
+
+    this.roadblock = this.createRoadblock(road.position, road.direction, playerPosition);
+    this.roadblockCooldown = this.roadblockInterval;
+  }
+
+  /**
+   * Park two police cars nose to nose across the road with an officer behind them
+   * @param approach Where the player is coming from
+   */
+  private createRoadblock(center: THREE.Vector3, roadDirection: THREE.Vector3, approach: THREE.Vector3): Roadblock {
+    const across = new THREE.Vector3(-roadDirection.z, 0, roadDirection.x);
+    const heading = Math.atan2(-across.x, -across.z); // Vehicles face -Z at zero rotation
+
+    const vehicles = [-1, 1].map(side => new Vehicle(
+      this.scene,
+      this.environment,
+      center.clone().addScaledVector(across, side * 2.5),
+      side > 0 ? heading : heading + Math.PI,
+      VehicleType.POLICE
+    ));
+
+    // The officer stands on the far side of the cars from the player
+    const behind = roadDirection.clone();
+    if (behind.dot(new THREE.Vector3().subVectors(center, approach)) < 0) {
+      behind.negate();
+    }
+    const officer = new Pedestrian(this.scene, this.environment, this.random, center.clone().addScaledVector(behind, 3), heading, PedestrianType.COP);
+
+    return { position: center.clone(), vehicles, officers: [officer] };
+  }
+
+  private removeRoadblock(): void {
+    if (!this.roadblock) return;
+
+    for (const vehicle of this.roadblock.vehicles) {
+      this.scene.remove(vehicle.getMesh());
+    }
+    for (const officer of this.roadblock.officers) {
+      officer.dispose();
+    }
+    this.roadblock = null;
+  }
+
+  private createOfficer(position: THREE.Vector3, rotation: number, player: Player): Pedestrian {
+    const officer = new Pedestrian(this.scene, this.environment, this.random, position, rotation, PedestrianType.COP);
+    officer.setPursuitTarget(player);
+    return officer;
+  }
+
+  private isOfficer(pedestrian: Pedestrian): boolean {
+    return this.getOfficers().includes(pedestrian);
+  }
+
+  /**
+   * Whether the police could see the player during the last update
+   */
+  public isPlayerSeen(): boolean {
+    return this.playerSeen;
+  }
+
+  /**
+   * Get the officers on foot, including those at a roadblock
+   */
+  public getOfficers(): Pedestrian[] {
+    return this.roadblock ? [...this.officers, ...this.roadblock.officers] : this.officers;
+  }
+
+  /**
+   * Get the police vehicles owned by the police response (roadblocks); pursuing cars belong to VehicleManager
+   */
+  public getVehicles(): Vehicle[] {
+    return this.roadblock ? this.roadblock.vehicles : [];
+  }
+
+  /**
+   * Remove officers and roadblocks
+   */
+  public dispose(): void {
+    for (const officer of this.officers) {
+      officer.dispose();
+    }
+    this.officers = [];
+    this.removeRoadblock();
+  }
+}
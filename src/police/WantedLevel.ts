@@ -0,0 +1,51 @@
+/**
+ * Highest wanted level (stars)
+ */
+export const MAX_WANTED_LEVEL = 6;
+
+// Heat needed for each star, after GTA3's chaos thresholds
+const STAR_HEAT = [0, 50, 180, 550, 1200, 2400, 4600];
+
+/**
+ * WantedLevel tracks how much heat the player has drawn from the police and
+ * the star level it amounts to. Crimes add heat; stars are only ever lost a
+ * whole star at a time, when the police lose sight of the player.
+ */
+export class WantedLevel {
+  private heat = 0;
+  private level = 0;
+
+  /**
+   * Add heat for a crime, raising the star level once it crosses a threshold
+   */
+  public addHeat(amount: number): void {
+    this.heat += amount;
+
+    while (this.level < MAX_WANTED_LEVEL && this.heat >= STAR_HEAT[this.level + 1]) {
+      this.level++;
+    }
+  }
+
+  /**
+   * Set the star level directly (missions and scripts), resetting heat to match
+   */
+  public setLevel(level: number): void {
+    this.level = Math.max(0, Math.min(MAX_WANTED_LEVEL, Math.round(level)));
+    this.heat = STAR_HEAT[this.level];
+  }
+
+  /**
+   * Drop one star
+   */
+  public loseStar(): void {
+    this.setLevel(this.level - 1);
+  }
+
+  public getLevel(): number {
+    return this.level;
+  }
+
+  public getHeat(): number {
+    return this.heat;
+  }
+}
@@ -0,0 +1,128 @@
+import { PlayerStatsData } from '../PlayerStats';
+import { VehicleType } from '../models/VehicleModel';
+
+/**
+ * Current save schema version. Bump it whenever SaveData changes shape and
+ * add a migration from the previous version to SAVE_MIGRATIONS.
+ */
+export const SAVE_VERSION = 2;
+
+/**
+ * A parked vehicle as stored in a save, enough to recreate it
+ */
+export interface SavedVehicle {
+  type: VehicleType;
+  position: [number, number, number];
+  yaw: number;
+}
+
+/**
+ * Everything needed to restore a game session
+ */
+export interface SaveData {
+  version: number;
+  savedAt: string; // ISO timestamp
+  world: {
+    seed: number;
+  };
+  player: {
+    position: [number, number, number];
+    yaw: number;
+    vehicleIndex: number | null; // Index into the saved vehicles
+  };
+  vehicles: SavedVehicle[];
+  missions: {
+    completed: string[];
+    unlocked: string[];
+  };
+  stats: PlayerStatsData;
+}
+
+/**
+ * Summary of a slot for load/save menus
+ */
+export interface SaveSlotInfo {
+  slot: string;
+  savedAt: string;
+  money: number;
+  missionsCompleted: number;
+}
+
+/**
+ * Upgrades a save from version N to N + 1, keyed by N
+ */
+type SaveMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  // Version 1 saved only transforms; the parked cars were all sedans then
+  1: data => ({
+    ...data,
+    version: 2,
+    vehicles: Array.isArray(data.vehicles)
+      ? (data.vehicles as Record<string, unknown>[]).map(vehicle => ({ type: VehicleType.SEDAN, ...vehicle }))
+      : data.vehicles
+  })
+};
+
+/**
+ * Bring a parsed save up to SAVE_VERSION and check its shape
+ * @returns The migrated save, or null if it is invalid or from a newer game version
+ */
+export function migrateSave(raw: unknown): SaveData | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  let data = raw as Record<string, unknown>;
+  let version = typeof data.version === 'number' ? data.version : 0;
+
+  if (version > SAVE_VERSION) {
+    console.warn(`Save version ${version} is newer than this game (${SAVE_VERSION})`);
+    return null;
+  }
+
+  while (version < SAVE_VERSION) {
+    const migration = SAVE_MIGRATIONS[version];
+    if (!migration) {
+      console.warn(`No migration from save version ${version}`);
+      return null;
+    }
+    data = migration(data);
+    version++;
+  }
+
+  return isSaveData(data) ? data : null;
+}
+
+function isVector(value: unknown): value is [number, number, number] {
+  return Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number');
+}
+
+function isSavedVehicle(value: unknown): value is SavedVehicle {
+  const vehicle = value as SavedVehicle;
+  return !!vehicle && Object.values(VehicleType).includes(vehicle.type) &&
+    isVector(vehicle.position) && typeof vehicle.yaw === 'number';
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(s => typeof s === 'string');
+}
+
+/**
+ * Structural check of an up-to-date save
+ */
+function isSaveData(data: Record<string, unknown>): data is Record<string, unknown> & SaveData {
+  const world = data.world as SaveData['world'] | undefined;
+  const player = data.player as SaveData['player'] | undefined;
+  const missions = data.missions as SaveData['missions'] | undefined;
+  const stats = data.stats as SaveData['stats'] | undefined;
+
+  return data.version === SAVE_VERSION &&
+    typeof data.savedAt === 'string' &&
+    !!world && typeof world.seed === 'number' &&
+    !!player && isVector(player.position) && typeof player.yaw === 'number' &&
+    (player.vehicleIndex === null || typeof player.vehicleIndex === 'number') &&
+    Array.isArray(data.vehicles) &&
+    data.vehicles.every(v => isSavedVehicle(v)) &&
+    !!missions && isStringArray(missions.completed) && isStringArray(missions.unlocked) &&
+    !!stats && typeof stats.money === 'number' && typeof stats.missionsCompleted === 'number' &&
+    typeof stats.missionsFailed === 'number' && typeof stats.playTime === 'number';
+}
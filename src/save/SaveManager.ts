@@ -0,0 +1,239 @@
+import * as THREE from 'three';
+import { World } from '../World';
+import { Vehicle } from '../Vehicle';
+import { SaveData, SavedVehicle, SaveSlotInfo, SAVE_VERSION, migrateSave } from './SaveData';
+import { SaveStorage, LocalSaveStorage, MemorySaveStorage } from './SaveStorage';
+
+// Storage keys are namespaced so other data in localStorage is left alone
+const KEY_PREFIX = 'minigta3.save.';
+
+/**
+ * Slot written after every completed mission
+ */
+export const AUTOSAVE_SLOT = 'autosave';
+
+/**
+ * SaveManager serializes a World into versioned save slots and restores it.
+ * Saves hold mission progress, the player's position and vehicle, the parked
+ * vehicles, stats and the world seed. The state of a mission in progress is not saved; loading
+ * resumes between missions.
+ */
+export class SaveManager {
+  private storage: SaveStorage;
+
+  constructor(storage?: SaveStorage) {
+    // Fall back to memory when running outside a browser
+    this.storage = storage ?? (typeof localStorage !== 'undefined' ? new LocalSaveStorage() : new MemorySaveStorage());
+  }
+
+  /**
+   * Snapshot the world into a save
+   */
+  public capture(world: World): SaveData {
+    const player = world.getPlayer();
+    const missionManager = world.getMissionManager();
+    const currentVehicle = player.isInsideVehicle() ? player.getCurrentVehicle() : null;
+
+    // The player's vehicle is saved with the parked ones, wherever it came from
+    const vehicles = [...world.getVehicles()];
+    if (currentVehicle && !vehicles.includes(currentVehicle)) {
+      vehicles.push(currentVehicle);
+    }
+    const vehicleIndex = currentVehicle ? vehicles.indexOf(currentVehicle) : -1;
+
+    return {
+      version: SAVE_VERSION,
+      savedAt: new Date().toISOString(),
+      world: {
+        seed: world.getSeed()
+      },
+      player: {
+        position: player.getPosition().toArray(),
+        yaw: player.getRotation().y,
+        vehicleIndex: vehicleIndex >= 0 ? vehicleIndex : null
+      },
+      vehicles: vehicles.map(vehicle => ({
+        type: vehicle.getVehicleType(),
+        position: vehicle.getPosition().toArray(),
+        yaw: vehicle.getRotation().y
+      })),
+      missions: {
+        completed: missionManager.getCompletedMissions(),
+        unlocked: missionManager.getUnlockedMissions()
+      },
+      stats: player.getStats().toData()
+    };
+  }
+
+  /**
+   * Restore a save into the world. The world must have been built from the
+   * save's seed, since the city layout cannot be regenerated in place.
+   * @returns Whether the save was applied
+   */
+  public apply(world: World, data: SaveData): boolean {
+    if (data.world.seed !== world.getSeed()) {
+      console.warn(`Save was made in world ${data.world.seed}, but this world is ${world.getSeed()}`);
+      return false;
+    }
+
+    const player = world.getPlayer();
+    const missionManager = world.getMissionManager();
+
+    // Abandon any mission in progress before rolling progress back
+    if (missionManager.isMissionActive()) {
+      missionManager.failMission('Game loaded');
+    }
+
+    // Get out of the current vehicle before moving vehicles around, taking
+    // it back from the traffic if it is driven there, so it isn't left behind
+    const currentVehicle = player.isInsideVehicle() ? player.getCurrentVehicle() : null;
+    if (currentVehicle) {
+      player.exitVehicle();
+      if (world.getVehicleManager().releaseVehicle(currentVehicle) !== null) {
+        currentVehicle.setAIControlled(false);
+        world.addVehicle(currentVehicle);
+      }
+    }
+
+    const vehicles = this.restoreVehicles(world, data.vehicles);
+
+    const vehicle = data.player.vehicleIndex !== null ? vehicles[data.player.vehicleIndex] : undefined;
+    if (vehicle) {
+      player.enterVehicle(vehicle);
+      world.getPoliceManager().allowVehicle(vehicle);
+      player.setPosition(vehicle.getPosition());
+    } else {
+      player.setPosition(new THREE.Vector3().fromArray(data.player.position));
+      player.setRotation(data.player.yaw);
+    }
+
+    missionManager.restoreProgress(data.missions.completed, data.missions.unlocked);
+    player.getStats().fromData(data.stats);
+
+    return true;
+  }
+
+  /**
+   * Park the world's vehicles as saved: moving one of the same type that is
+   * already parked where there is one, creating it where not, and removing
+   * those the save doesn't have
+   * @returns The vehicles in the order saved
+   */
+  private restoreVehicles(world: World, saved: SavedVehicle[]): Vehicle[] {
+    const unused = [...world.getVehicles()];
+
+    const vehicles = saved.map(savedVehicle => {
+      const position = new THREE.Vector3().fromArray(savedVehicle.position);
+      const index = unused.findIndex(vehicle => vehicle.getVehicleType() === savedVehicle.type);
+      if (index < 0) {
+        const vehicle = new Vehicle(world.getScene(), world.getEnvironment(), position, savedVehicle.yaw, savedVehicle.type);
+        world.addVehicle(vehicle);
+        return vehicle;
+      }
+
+      const [vehicle] = unused.splice(index, 1);
+      vehicle.setTransform(position, savedVehicle.yaw);
+      return vehicle;
+    });
+
+    for (const vehicle of unused) {
+      world.removeVehicle(vehicle);
+    }
+    return vehicles;
+  }
+
+  /**
+   * Save the world to a slot
+   */
+  public save(world: World, slot: string): boolean {
+    try {
+      this.storage.write(KEY_PREFIX + slot, JSON.stringify(this.capture(world)));
+      return true;
+    } catch (error) {
+      console.error(`Failed to save slot ${slot}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Read and migrate the save in a slot without applying it
+   */
+  public read(slot: string): SaveData | null {
+    const json = this.storage.read(KEY_PREFIX + slot);
+    return json === null ? null : this.parse(json);
+  }
+
+  /**
+   * Load a slot into the world
+   */
+  public load(world: World, slot: string): boolean {
+    const data = this.read(slot);
+    return data !== null && this.apply(world, data);
+  }
+
+  /**
+   * List all slots that hold a readable save, newest first
+   */
+  public listSlots(): SaveSlotInfo[] {
+    const slots: SaveSlotInfo[] = [];
+
+    for (const key of this.storage.keys()) {
+      if (!key.startsWith(KEY_PREFIX)) continue;
+
+      const slot = key.slice(KEY_PREFIX.length);
+      const data = this.read(slot);
+      if (data) {
+        slots.push({
+          slot,
+          savedAt: data.savedAt,
+          money: data.stats.money,
+          missionsCompleted: data.stats.missionsCompleted
+        });
+      }
+    }
+
+    return slots.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  public deleteSlot(slot: string): void {
+    this.storage.remove(KEY_PREFIX + slot);
+  }
+
+  /**
+   * Get a slot as a JSON document for the player to keep
+   */
+  public exportSave(slot: string): string | null {
+    const data = this.read(slot);
+    return data ? JSON.stringify(data, null, 2) : null;
+  }
+
+  /**
+   * Store an exported save file in a slot
+   * @returns Whether the file was a valid save
+   */
+  public importSave(json: string, slot: string): boolean {
+    const data = this.parse(json);
+    if (!data) return false;
+
+    this.storage.write(KEY_PREFIX + slot, JSON.stringify(data));
+    return true;
+  }
+
+  /**
+   * Save to the autosave slot whenever a mission is completed
+   */
+  public enableAutosave(world: World): void {
+    world.getMissionManager().setCallbacks(() => {
+      this.save(world, AUTOSAVE_SLOT);
+    });
+  }
+
+  private parse(json: string): SaveData | null {
+    try {
+      return migrateSave(JSON.parse(json));
+    } catch (error) {
+      console.warn('Save file is not valid JSON:', error);
+      return null;
+    }
+  }
+}
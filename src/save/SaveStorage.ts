@@ -0,0 +1,58 @@
+/**
+ * Key-value backend that save slots are written to
+ */
+export interface SaveStorage {
+  read(key: string): string | null;
+  write(key: string, value: string): void;
+  remove(key: string): void;
+  keys(): string[];
+}
+
+/**
+ * Browser storage backed by window.localStorage
+ */
+export class LocalSaveStorage implements SaveStorage {
+  public read(key: string): string | null {
+    return localStorage.getItem(key);
+  }
+
+  public write(key: string, value: string): void {
+    localStorage.setItem(key, value);
+  }
+
+  public remove(key: string): void {
+    localStorage.removeItem(key);
+  }
+
+  public keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+/**
+ * In-memory storage for headless runs, where there is no localStorage
+ */
+export class MemorySaveStorage implements SaveStorage {
+  private entries: Map<string, string> = new Map();
+
+  public read(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  public write(key: string, value: string): void {
+    this.entries.set(key, value);
+  }
+
+  public remove(key: string): void {
+    this.entries.delete(key);
+  }
+
+  public keys(): string[] {
+    return [...this.entries.keys()];
+  }
+}
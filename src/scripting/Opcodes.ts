@@ -0,0 +1,113 @@
+/**
+ * Instruction set shared by the script compiler (scripts/compileScripts.ts)
+ * and the ScriptVM. Opcode numbers are part of the bytecode format: append
+ * new opcodes, never renumber existing ones.
+ */
+export enum Opcode {
+  // Flow control
+  END_THREAD = 0,
+  WAIT = 1,
+  GOTO = 2,
+  GOTO_IF_FALSE = 3,
+  GOTO_IF_TRUE = 4,
+  START_THREAD = 5,
+
+  // Variables and arithmetic
+  SET = 10,
+  ADD = 11,
+  SUB = 12,
+  MUL = 13,
+  DIV = 14,
+  RANDOM_INT = 15,
+
+  // Conditions (set the thread's condition flag)
+  IS_EQUAL = 20,
+  IS_GREATER = 21,
+  IS_GREATER_EQUAL = 22,
+  IS_PLAYER_IN_AREA = 23,
+  IS_PLAYER_IN_ANY_VEHICLE = 24,
+  IS_PLAYER_IN_VEHICLE = 25,
+  IS_VEHICLE_IN_AREA = 26,
+
+  // Engine commands
+  SPAWN_VEHICLE = 40,
+  SPAWN_PED = 41,
+  CREATE_MARKER = 42,
+  CREATE_CHECKPOINT = 43,
+  REMOVE = 44,
+  SET_WANTED_LEVEL = 45,
+  PRINT_OBJECTIVE = 46,
+  MISSION_PASSED = 47,
+  MISSION_FAILED = 48,
+  GET_VEHICLE_HEALTH = 49
+}
+
+/**
+ * Kinds of operand an instruction takes
+ * - value: number literal or variable
+ * - var: variable written by the instruction
+ * - string: string literal
+ * - label: jump target
+ */
+export type OperandKind = 'value' | 'var' | 'string' | 'label';
+
+/**
+ * How each operand is tagged in the bytecode; every operand is stored as [tag, payload]
+ */
+export enum OperandTag {
+  NUMBER = 0, // payload is the number
+  GLOBAL = 1, // payload is the global variable index
+  LOCAL = 2, // payload is the thread-local variable index
+  STRING = 3, // payload is an index into the string table
+  LABEL = 4 // payload is a code offset
+}
+
+export interface OpcodeInfo {
+  opcode: Opcode;
+  operands: OperandKind[];
+}
+
+/**
+ * Source-level command names and their operands
+ */
+export const OPCODES: Record<string, OpcodeInfo> = {
+  end_thread: { opcode: Opcode.END_THREAD, operands: [] },
+  wait: { opcode: Opcode.WAIT, operands: ['value'] }, // milliseconds
+  goto: { opcode: Opcode.GOTO, operands: ['label'] },
+  goto_if_false: { opcode: Opcode.GOTO_IF_FALSE, operands: ['label'] },
+  goto_if_true: { opcode: Opcode.GOTO_IF_TRUE, operands: ['label'] },
+  start_thread: { opcode: Opcode.START_THREAD, operands: ['label'] },
+
+  set: { opcode: Opcode.SET, operands: ['var', 'value'] },
+  add: { opcode: Opcode.ADD, operands: ['var', 'value'] },
+  sub: { opcode: Opcode.SUB, operands: ['var', 'value'] },
+  mul: { opcode: Opcode.MUL, operands: ['var', 'value'] },
+  div: { opcode: Opcode.DIV, operands: ['var', 'value'] },
+  random_int: { opcode: Opcode.RANDOM_INT, operands: ['var', 'value', 'value'] }, // min inclusive, max exclusive
+
+  is_equal: { opcode: Opcode.IS_EQUAL, operands: ['value', 'value'] },
+  is_greater: { opcode: Opcode.IS_GREATER, operands: ['value', 'value'] },
+  is_greater_equal: { opcode: Opcode.IS_GREATER_EQUAL, operands: ['value', 'value'] },
+  is_player_in_area: { opcode: Opcode.IS_PLAYER_IN_AREA, operands: ['value', 'value', 'value'] }, // x z radius
+  is_player_in_any_vehicle: { opcode: Opcode.IS_PLAYER_IN_ANY_VEHICLE, operands: [] },
+  is_player_in_vehicle: { opcode: Opcode.IS_PLAYER_IN_VEHICLE, operands: ['value'] }, // vehicle handle
+  is_vehicle_in_area: { opcode: Opcode.IS_VEHICLE_IN_AREA, operands: ['value', 'value', 'value', 'value'] }, // handle x z radius
+
+  spawn_vehicle: { opcode: Opcode.SPAWN_VEHICLE, operands: ['value', 'value', 'value', 'value', 'var'] }, // x y z heading -> handle
+  spawn_ped: { opcode: Opcode.SPAWN_PED, operands: ['value', 'value', 'value', 'value', 'var'] }, // x y z heading -> handle
+  create_marker: { opcode: Opcode.CREATE_MARKER, operands: ['value', 'value', 'value', 'var'] }, // x y z -> handle
+  create_checkpoint: { opcode: Opcode.CREATE_CHECKPOINT, operands: ['value', 'value', 'value', 'value', 'var'] }, // x y z radius -> handle
+  remove: { opcode: Opcode.REMOVE, operands: ['value'] }, // handle
+  set_wanted_level: { opcode: Opcode.SET_WANTED_LEVEL, operands: ['value'] },
+  print_objective: { opcode: Opcode.PRINT_OBJECTIVE, operands: ['string'] },
+  mission_passed: { opcode: Opcode.MISSION_PASSED, operands: [] },
+  mission_failed: { opcode: Opcode.MISSION_FAILED, operands: ['string'] },
+  get_vehicle_health: { opcode: Opcode.GET_VEHICLE_HEALTH, operands: ['value', 'var'] } // handle -> health (0 once destroyed)
+};
+
+/**
+ * Number of operands for each opcode, used by the VM to decode instructions
+ */
+export const OPERAND_COUNTS: Map<Opcode, number> = new Map(
+  Object.values(OPCODES).map(info => [info.opcode, info.operands.length])
+);
@@ -0,0 +1,68 @@
+import { loadIndexedJson } from '../utils/JsonLoader';
+
+/**
+ * Bytecode format version; bump when Opcode semantics or the layout change
+ */
+export const SCRIPT_FORMAT_VERSION = 1;
+
+/**
+ * Mission metadata declared at the top of a mission script
+ */
+export interface ScriptMissionInfo {
+  id: string;
+  title: string;
+  description: string;
+  contact: [number, number, number];
+  reward: number;
+  unlocks: string[];
+  timeLimit: number;
+}
+
+/**
+ * A compiled script as written by scripts/compileScripts.ts (*.scm.json)
+ */
+export interface ScriptProgram {
+  format: 'minigta3-scm';
+  version: number;
+  mission: ScriptMissionInfo | null;
+  strings: string[];
+  globals: string[]; // Global variable names, indexed by slot (kept for debugging)
+  localCount: number; // Local variable slots per thread
+  entry: number; // Code offset of the main thread
+  code: number[];
+}
+
+/**
+ * Check that parsed JSON is a compiled script this VM can run
+ * @param source File name used in warnings
+ */
+export function parseScriptProgram(raw: unknown, source: string): ScriptProgram | null {
+  const program = raw as Partial<ScriptProgram> | null;
+
+  if (!program || program.format !== 'minigta3-scm') {
+    console.warn(`${source} is not a compiled script`);
+    return null;
+  }
+  if (program.version !== SCRIPT_FORMAT_VERSION) {
+    console.warn(`${source} was compiled for script format ${String(program.version)}, expected ${SCRIPT_FORMAT_VERSION}; recompile it`);
+    return null;
+  }
+  if (!Array.isArray(program.code) || !Array.isArray(program.strings) || !Array.isArray(program.globals) ||
+    typeof program.localCount !== 'number' || typeof program.entry !== 'number') {
+    console.warn(`${source} is missing bytecode sections`);
+    return null;
+  }
+
+  return program as ScriptProgram;
+}
+
+/**
+ * Fetch every compiled script listed in <baseUrl>index.json
+ * @returns The valid programs; invalid or missing files are skipped with a warning
+ */
+export async function loadScriptPrograms(baseUrl: string): Promise<ScriptProgram[]> {
+  const files = await loadIndexedJson(baseUrl, 'scripts');
+  return files
+    .map(({ file, data }) => parseScriptProgram(data, file))
+    .filter((program): program is ScriptProgram => program !== null);
+}
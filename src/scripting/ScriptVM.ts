@@ -0,0 +1,309 @@
+import * as THREE from 'three';
+import { Opcode, OperandTag, OPERAND_COUNTS } from './Opcodes';
+import { ScriptProgram } from './ScriptProgram';
+
+/**
+ * Engine commands a running script can call. Entities are referred to by
+ * numeric handles that the host hands out.
+ */
+export interface ScriptHost {
+  spawnVehicle(position: THREE.Vector3, heading: number): number;
+  spawnPed(position: THREE.Vector3, heading: number): number;
+  placeMarker(position: THREE.Vector3): number;
+  placeCheckpoint(position: THREE.Vector3, radius: number): number;
+  remove(handle: number): void;
+  setWantedLevel(level: number): void;
+  printObjective(text: string): void;
+  missionPassed(): void;
+  missionFailed(reason: string): void;
+  isPlayerInArea(x: number, z: number, radius: number): boolean;
+  isPlayerInAnyVehicle(): boolean;
+  isPlayerInVehicle(handle: number): boolean;
+  isVehicleInArea(handle: number, x: number, z: number, radius: number): boolean;
+  getVehicleHealth(handle: number): number;
+  randomInt(min: number, max: number): number;
+}
+
+/**
+ * A script thread: its own program counter, locals and condition flag
+ */
+interface ScriptThread {
+  pc: number;
+  wakeTime: number; // VM time in ms at which a waiting thread resumes
+  locals: number[];
+  condition: boolean;
+  finished: boolean;
+}
+
+/**
+ * ScriptVM runs compiled mission scripts, modelled loosely on GTA3's main.scm:
+ * any number of threads run cooperatively, each until it waits or ends, once
+ * per simulation step.
+ */
+export class ScriptVM {
+  // Guard against scripts that loop without waiting
+  private static readonly MAX_INSTRUCTIONS_PER_STEP = 10000;
+
+  private globals: number[] = [];
+  private threads: ScriptThread[] = [];
+  private time = 0; // Milliseconds since start(), like the SCM timers
+  private running = false;
+
+  constructor(
+    private program: ScriptProgram,
+    private host: ScriptHost
+  ) {}
+
+  /**
+   * Reset all state and start the main thread
+   */
+  public start(): void {
+    this.globals = new Array<number>(this.program.globals.length).fill(0);
+    this.threads = [];
+    this.time = 0;
+    this.running = true;
+    this.startThread(this.program.entry);
+  }
+
+  /**
+   * Stop all threads
+   */
+  public stop(): void {
+    this.running = false;
+    this.threads = [];
+  }
+
+  /**
+   * Run every thread that is not waiting, for one simulation step
+   */
+  public step(deltaTime: number): void {
+    if (!this.running) return;
+
+    this.time += deltaTime * 1000;
+
+    // Threads started during this step first run on the next one
+    const threads = [...this.threads];
+    for (const thread of threads) {
+      if (!this.running) return;
+      if (thread.finished || thread.wakeTime > this.time) continue;
+
+      try {
+        this.runThread(thread);
+      } catch (error) {
+        console.error(`Script error at ${thread.pc}:`, error);
+        thread.finished = true;
+      }
+    }
+
+    this.threads = this.threads.filter(thread => !thread.finished);
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  public getThreadCount(): number {
+    return this.threads.length;
+  }
+
+  /**
+   * Read a global variable by name (for debugging and tests of scripts)
+   */
+  public getGlobal(name: string): number | undefined {
+    const index = this.program.globals.indexOf(name);
+    return index >= 0 ? this.globals[index] : undefined;
+  }
+
+  private startThread(pc: number): void {
+    this.threads.push({
+      pc,
+      wakeTime: this.time,
+      locals: new Array<number>(this.program.localCount).fill(0),
+      condition: false,
+      finished: false
+    });
+  }
+
+  /**
+   * Execute a thread until it waits, ends or uses up its instruction budget
+   */
+  private runThread(thread: ScriptThread): void {
+    const code = this.program.code;
+
+    for (let executed = 0; executed < ScriptVM.MAX_INSTRUCTIONS_PER_STEP; executed++) {
+      if (!this.running || thread.finished) return;
+
+      if (thread.pc >= code.length) {
+        // Falling off the end of the code ends the thread
+        thread.finished = true;
+        return;
+      }
+
+      const opcode = code[thread.pc] as Opcode;
+      const operandCount = OPERAND_COUNTS.get(opcode);
+      if (operandCount === undefined) {
+        throw new Error(`Unknown opcode ${opcode}`);
+      }
+
+      const operandStart = thread.pc + 1;
+      thread.pc = operandStart + operandCount * 2;
+
+      if (this.execute(thread, opcode, operandStart)) {
+        return; // Thread yielded
+      }
+    }
+
+    console.warn(`Script thread ran ${ScriptVM.MAX_INSTRUCTIONS_PER_STEP} instructions without waiting; yielding`);
+  }
+
+  /**
+   * Execute one instruction
+   * @param at Code offset of the first operand
+   * @returns Whether the thread yields until a later step
+   */
+  private execute(thread: ScriptThread, opcode: Opcode, at: number): boolean {
+    const value = (n: number): number => this.readValue(thread, at + n * 2);
+    const text = (n: number): string => this.readString(at + n * 2);
+    const label = (n: number): number => this.readLabel(at + n * 2);
+    const store = (n: number, result: number): void => this.writeVar(thread, at + n * 2, result);
+    const position = (): THREE.Vector3 => new THREE.Vector3(value(0), value(1), value(2));
+
+    switch (opcode) {
+      case Opcode.END_THREAD:
+        thread.finished = true;
+        return true;
+      case Opcode.WAIT:
+        thread.wakeTime = this.time + Math.max(0, value(0));
+        return true;
+      case Opcode.GOTO:
+        thread.pc = label(0);
+        return false;
+      case Opcode.GOTO_IF_FALSE:
+        if (!thread.condition) thread.pc = label(0);
+        return false;
+      case Opcode.GOTO_IF_TRUE:
+        if (thread.condition) thread.pc = label(0);
+        return false;
+      case Opcode.START_THREAD:
+        this.startThread(label(0));
+        return false;
+
+      case Opcode.SET:
+        store(0, value(1));
+        return false;
+      case Opcode.ADD:
+        store(0, value(0) + value(1));
+        return false;
+      case Opcode.SUB:
+        store(0, value(0) - value(1));
+        return false;
+      case Opcode.MUL:
+        store(0, value(0) * value(1));
+        return false;
+      case Opcode.DIV:
+        store(0, value(1) !== 0 ? value(0) / value(1) : 0);
+        return false;
+      case Opcode.RANDOM_INT:
+        store(0, this.host.randomInt(value(1), value(2)));
+        return false;
+
+      case Opcode.IS_EQUAL:
+        thread.condition = value(0) === value(1);
+        return false;
+      case Opcode.IS_GREATER:
+        thread.condition = value(0) > value(1);
+        return false;
+      case Opcode.IS_GREATER_EQUAL:
+        thread.condition = value(0) >= value(1);
+        return false;
+      case Opcode.IS_PLAYER_IN_AREA:
+        thread.condition = this.host.isPlayerInArea(value(0), value(1), value(2));
+        return false;
+      case Opcode.IS_PLAYER_IN_ANY_VEHICLE:
+        thread.condition = this.host.isPlayerInAnyVehicle();
+        return false;
+      case Opcode.IS_PLAYER_IN_VEHICLE:
+        thread.condition = this.host.isPlayerInVehicle(value(0));
+        return false;
+      case Opcode.IS_VEHICLE_IN_AREA:
+        thread.condition = this.host.isVehicleInArea(value(0), value(1), value(2), value(3));
+        return false;
+      case Opcode.GET_VEHICLE_HEALTH:
+        store(1, this.host.getVehicleHealth(value(0)));
+        return false;
+
+      case Opcode.SPAWN_VEHICLE:
+        store(4, this.host.spawnVehicle(position(), THREE.MathUtils.degToRad(value(3))));
+        return false;
+      case Opcode.SPAWN_PED:
+        store(4, this.host.spawnPed(position(), THREE.MathUtils.degToRad(value(3))));
+        return false;
+      case Opcode.CREATE_MARKER:
+        store(3, this.host.placeMarker(position()));
+        return false;
+      case Opcode.CREATE_CHECKPOINT:
+        store(4, this.host.placeCheckpoint(position(), value(3)));
+        return false;
+      case Opcode.REMOVE:
+        this.host.remove(value(0));
+        return false;
+      case Opcode.SET_WANTED_LEVEL:
+        this.host.setWantedLevel(value(0));
+        return false;
+      case Opcode.PRINT_OBJECTIVE:
+        this.host.printObjective(text(0));
+        return false;
+      case Opcode.MISSION_PASSED:
+        this.host.missionPassed();
+        this.stop();
+        return true;
+      case Opcode.MISSION_FAILED:
+        this.host.missionFailed(text(0));
+        this.stop();
+        return true;
+    }
+  }
+
+  private readValue(thread: ScriptThread, at: number): number {
+    const tag = this.program.code[at] as OperandTag;
+    const payload = this.program.code[at + 1];
+
+    switch (tag) {
+      case OperandTag.NUMBER:
+        return payload;
+      case OperandTag.GLOBAL:
+        return this.globals[payload];
+      case OperandTag.LOCAL:
+        return thread.locals[payload];
+      default:
+        throw new Error(`Expected a value operand at ${at}`);
+    }
+  }
+
+  private writeVar(thread: ScriptThread, at: number, result: number): void {
+    const tag = this.program.code[at] as OperandTag;
+    const payload = this.program.code[at + 1];
+
+    if (tag === OperandTag.GLOBAL) {
+      this.globals[payload] = result;
+    } else if (tag === OperandTag.LOCAL) {
+      thread.locals[payload] = result;
+    } else {
+      throw new Error(`Expected a variable operand at ${at}`);
+    }
+  }
+
+  private readString(at: number): string {
+    if (this.program.code[at] !== OperandTag.STRING) {
+      throw new Error(`Expected a string operand at ${at}`);
+    }
+    return this.program.strings[this.program.code[at + 1]];
+  }
+
+  private readLabel(at: number): number {
+    if (this.program.code[at] !== OperandTag.LABEL) {
+      throw new Error(`Expected a label operand at ${at}`);
+    }
+    return this.program.code[at + 1];
+  }
+}
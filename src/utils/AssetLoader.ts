@@ -20,6 +20,9 @@ export class AssetLoader {
   private onProgressCallback: ((progress: number) => void) | null = null;
   private onCompleteCallback: (() => void) | null = null;
   
+  // When disabled, models skip loading entirely (headless simulation has no renderer)
+  private modelLoadingEnabled = true;
+  
   private constructor() {
     // Initialization code
   }
@@ -34,6 +37,20 @@ export class AssetLoader {
     return AssetLoader.instance;
   }
   
+  /**
+   * Enable or disable loading of 3D models for game entities
+   */
+  public setModelLoadingEnabled(enabled: boolean): void {
+    this.modelLoadingEnabled = enabled;
+  }
+  
+  /**
+   * Check whether game entities should load their 3D models
+   */
+  public isModelLoadingEnabled(): boolean {
+    return this.modelLoadingEnabled;
+  }
+  
   /**
    * Set callbacks for loading progress and completion
    */
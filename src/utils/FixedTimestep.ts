@@ -0,0 +1,90 @@
+/**
+ * FixedTimestep accumulates real frame time and hands it out as constant-size
+ * simulation steps, so physics, AI and mission timers behave the same way at
+ * 30 FPS as they do at 144 FPS.
+ */
+export class FixedTimestep {
+  // Leftover real time that has not been simulated yet
+  private accumulator = 0;
+
+  // Multiplier applied to real time before it is simulated (1 = real time)
+  private timeScale = 1;
+
+  // Total simulated time in seconds
+  private simulationTime = 0;
+
+  // Number of steps simulated since creation
+  private stepCount = 0;
+
+  /**
+   * @param stepSize Length of one simulation step in seconds (default 60 Hz)
+   * @param maxStepsPerFrame Upper bound on steps per frame to avoid a spiral of death after a stall
+   */
+  constructor(
+    private stepSize = 1 / 60,
+    private maxStepsPerFrame = 5
+  ) {}
+
+  /**
+   * Feed real frame time into the accumulator and run as many fixed steps as it covers
+   * @param frameTime Real time elapsed since the previous frame in seconds
+   * @param step Callback invoked once per simulation step with the fixed step size
+   * @returns Number of steps that were simulated
+   */
+  public advance(frameTime: number, step: (deltaTime: number) => void): number {
+    this.accumulator += Math.max(0, frameTime) * this.timeScale;
+
+    let steps = 0;
+    while (this.accumulator >= this.stepSize && steps < this.maxStepsPerFrame) {
+      step(this.stepSize);
+      this.accumulator -= this.stepSize;
+      this.simulationTime += this.stepSize;
+      this.stepCount++;
+      steps++;
+    }
+
+    // Drop time we could not catch up on rather than carrying it into the next frame
+    if (steps >= this.maxStepsPerFrame && this.accumulator >= this.stepSize) {
+      this.accumulator = this.accumulator % this.stepSize;
+    }
+
+    return steps;
+  }
+
+  /**
+   * Fraction of a step left in the accumulator, used to interpolate render transforms
+   */
+  public getAlpha(): number {
+    return this.accumulator / this.stepSize;
+  }
+
+  /**
+   * Set the time scale (0 pauses, 0.5 is slow motion, 2 is double speed)
+   */
+  public setTimeScale(scale: number): void {
+    this.timeScale = Math.max(0, scale);
+  }
+
+  public getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  public getStepSize(): number {
+    return this.stepSize;
+  }
+
+  public getSimulationTime(): number {
+    return this.simulationTime;
+  }
+
+  public getStepCount(): number {
+    return this.stepCount;
+  }
+
+  /**
+   * Discard accumulated time, e.g. after the game was paused
+   */
+  public reset(): void {
+    this.accumulator = 0;
+  }
+}
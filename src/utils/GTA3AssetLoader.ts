@@ -56,7 +56,8 @@ export class GTA3AssetLoader {
     
     // Character models - using player model for all characters
     const characterTypes = ['player', 'cop', 'swat', 'fbi', 'army', 
-                           'medic', 'fireman'];
+                           'medic', 'fireman', 'male01', 'female01', 'oldmale01',
+                           'gang01', 'gang03', 'gang05'];
     for (const type of characterTypes) {
       this.modelMap.set(type, 'characters/player.glb');
     }
@@ -233,6 +234,8 @@ export class GTA3AssetLoader {
     if (
       modelNameLower.includes('ped') ||
       modelNameLower.includes('person') ||
+      modelNameLower.includes('male') ||
+      modelNameLower.startsWith('gang') ||
       modelNameLower === 'player' ||
       modelNameLower === 'cop' ||
       modelNameLower === 'swat' ||
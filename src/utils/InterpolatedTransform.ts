@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+
+/**
+ * InterpolatedTransform remembers an entity's transform at the end of the
+ * previous and the current simulation step, so rendering can blend between
+ * them when the display rate does not match the fixed simulation rate.
+ */
+export class InterpolatedTransform {
+  private previousPosition = new THREE.Vector3();
+  private currentPosition = new THREE.Vector3();
+  private previousQuaternion = new THREE.Quaternion();
+  private currentQuaternion = new THREE.Quaternion();
+
+  // Last interpolated transform handed to the renderer
+  private renderPosition = new THREE.Vector3();
+  private renderQuaternion = new THREE.Quaternion();
+
+  constructor(position?: THREE.Vector3, rotation?: THREE.Euler) {
+    if (position && rotation) {
+      this.snap(position, rotation);
+    }
+  }
+
+  /**
+   * Record the transform at the end of a simulation step
+   */
+  public capture(position: THREE.Vector3, rotation: THREE.Euler): void {
+    this.previousPosition.copy(this.currentPosition);
+    this.previousQuaternion.copy(this.currentQuaternion);
+    this.currentPosition.copy(position);
+    this.currentQuaternion.setFromEuler(rotation);
+  }
+
+  /**
+   * Jump to a transform without blending (spawns and teleports)
+   */
+  public snap(position: THREE.Vector3, rotation: THREE.Euler): void {
+    this.currentPosition.copy(position);
+    this.currentQuaternion.setFromEuler(rotation);
+    this.previousPosition.copy(this.currentPosition);
+    this.previousQuaternion.copy(this.currentQuaternion);
+    this.renderPosition.copy(this.currentPosition);
+    this.renderQuaternion.copy(this.currentQuaternion);
+  }
+
+  /**
+   * Blend between the previous and current step and apply the result to an object
+   * @param object Object to move, if it has been created yet
+   * @param alpha Blend factor between 0 (previous step) and 1 (current step)
+   */
+  public apply(object: THREE.Object3D | null, alpha: number): void {
+    const t = Math.max(0, Math.min(1, alpha));
+    this.renderPosition.lerpVectors(this.previousPosition, this.currentPosition, t);
+    this.renderQuaternion.slerpQuaternions(this.previousQuaternion, this.currentQuaternion, t);
+
+    if (object) {
+      object.position.copy(this.renderPosition);
+      object.quaternion.copy(this.renderQuaternion);
+    }
+  }
+
+  /**
+   * Get the position last handed to the renderer
+   */
+  public getRenderPosition(): THREE.Vector3 {
+    return this.renderPosition.clone();
+  }
+
+  /**
+   * Get the rotation last handed to the renderer
+   */
+  public getRenderRotation(): THREE.Euler {
+    return new THREE.Euler().setFromQuaternion(this.renderQuaternion, 'YXZ');
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * A JSON file fetched by loadIndexedJson
+ */
+export interface LoadedJsonFile {
+  file: string;
+  data: unknown;
+}
+
+/**
+ * Fetch <baseUrl>index.json, then every file it lists under the given key,
+ * e.g. { "missions": ["a.json", "b.json"] }
+ * @returns The files that loaded; missing or malformed files are skipped with a warning
+ */
+export async function loadIndexedJson(baseUrl: string, listKey: string): Promise<LoadedJsonFile[]> {
+  const loaded: LoadedJsonFile[] = [];
+
+  try {
+    const response = await fetch(`${baseUrl}index.json`);
+    if (!response.ok) {
+      console.warn(`No index at ${baseUrl}index.json (${response.status})`);
+      return loaded;
+    }
+
+    const index = await response.json() as Record<string, unknown>;
+    const list = index[listKey];
+    const files = Array.isArray(list) ? list.filter((f): f is string => typeof f === 'string') : [];
+
+    for (const file of files) {
+      try {
+        const fileResponse = await fetch(baseUrl + file);
+        if (!fileResponse.ok) {
+          console.warn(`Failed to load ${baseUrl}${file} (${fileResponse.status})`);
+          continue;
+        }
+
+        loaded.push({ file, data: await fileResponse.json() as unknown });
+      } catch (error) {
+        console.warn(`Failed to load ${baseUrl}${file}:`, error);
+      }
+    }
+  } catch (error) {
+    console.warn(`Failed to load ${baseUrl}index.json:`, error);
+  }
+
+  return loaded;
+}
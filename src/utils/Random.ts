@@ -0,0 +1,112 @@
+/**
+ * Named random streams. Each subsystem draws from its own stream so that,
+ * for example, extra traffic spawns do not change the city layout.
+ */
+export type RandomStreamName = 'world' | 'traffic' | 'peds' | 'missions' | 'police' | 'weapons';
+
+/**
+ * RandomStream is a small seeded PRNG (mulberry32). Two streams created with
+ * the same seed produce the same sequence on every machine.
+ */
+export class RandomStream {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1), a drop-in replacement for Math.random()
+   */
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in [min, max)
+   */
+  public int(min: number, max: number): number {
+    return Math.floor(this.range(min, max));
+  }
+
+  /**
+   * True with the given probability
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick a random element of a non-empty array
+   */
+  public pick<T>(items: T[]): T {
+    return items[this.int(0, items.length)];
+  }
+}
+
+/**
+ * RandomService owns the world seed and hands out one RandomStream per
+ * subsystem, each derived from the seed and the stream name.
+ */
+export class RandomService {
+  private seed: number;
+  private streams: Map<RandomStreamName, RandomStream> = new Map();
+
+  constructor(seed: number = RandomService.randomSeed()) {
+    this.seed = seed >>> 0;
+  }
+
+  /**
+   * Pick a fresh seed for a session that did not ask for one
+   */
+  public static randomSeed(): number {
+    return Math.floor(Math.random() * 1000000);
+  }
+
+  /**
+   * Read a seed from a query string such as "?seed=1234"
+   * @returns The seed, or null if none (or an invalid one) was given
+   */
+  public static seedFromQuery(query: string): number | null {
+    const value = new URLSearchParams(query).get('seed');
+    if (value === null || !/^\d+$/.test(value.trim())) return null;
+    return Number(value.trim()) >>> 0;
+  }
+
+  /**
+   * Get the stream for a subsystem, creating it on first use
+   */
+  public getStream(name: RandomStreamName): RandomStream {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new RandomStream(RandomService.hash(`${this.seed}:${name}`));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  // FNV-1a hash, used to give every stream its own well-mixed seed
+  private static hash(text: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
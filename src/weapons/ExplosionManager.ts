@@ -0,0 +1,116 @@
+import * as THREE from 'three';
+import { Player } from '../Player';
+import { Pedestrian } from '../Pedestrian';
+import { Vehicle } from '../Vehicle';
+import { PoliceManager } from '../police/PoliceManager';
+import { MAX_ARMOUR, MAX_HEALTH } from '../PlayerHealth';
+
+/**
+ * ExplosionManager sets off explosions, from rockets and from vehicles that
+ * have burnt down. A blast hurts everyone and everything in its radius, less
+ * further from the centre, so one exploding car can set off the next. Anyone
+ * inside a vehicle when it explodes is thrown out and killed.
+ */
+export class ExplosionManager {
+  private explosions: { mesh: THREE.Mesh; age: number }[] = [];
+
+  // Tuning
+  private explosionTime = 0.5; // Seconds an explosion stays visible
+  private vehicleDamageScale = 6; // Vehicles take this many times a blast's damage, so a direct rocket hit sets one on fire
+  private vehicleBlastDamage = 100; // At the centre of an exploding vehicle
+  private vehicleBlastRadius = 5;
+
+  constructor(
+    private scene: THREE.Scene,
+    private policeManager: PoliceManager
+  ) {}
+
+  /**
+   * Blow up the vehicles that were destroyed this step and fade out old explosions
+   */
+  public update(deltaTime: number, player: Player, pedestrians: Pedestrian[], vehicles: Vehicle[]): void {
+    for (const vehicle of vehicles) {
+      if (!vehicle.consumeExplosion()) continue;
+
+      if (player.isInsideVehicle() && player.getCurrentVehicle() === vehicle) {
+        player.exitVehicle();
+        player.takeDamage(MAX_HEALTH + MAX_ARMOUR);
+      }
+      this.explode(vehicle.getPosition(), this.vehicleBlastDamage, this.vehicleBlastRadius, player, pedestrians, vehicles, false);
+    }
+
+    this.updateExplosions(deltaTime);
+  }
+
+  /**
+   * Damage everything within a blast radius, less further from the centre
+   * @param damage Damage at the centre of the blast
+   * @param causedByPlayer Whether the player set it off; their victims are reported to the police
+   */
+  public explode(
+    position: THREE.Vector3,
+    damage: number,
+    radius: number,
+    player: Player,
+    pedestrians: Pedestrian[],
+    vehicles: Vehicle[],
+    causedByPlayer: boolean
+  ): void {
+    const falloff = (distance: number): number => damage * Math.max(0, 1 - distance / radius);
+
+    for (const pedestrian of pedestrians) {
+      const pedestrianDamage = falloff(pedestrian.getPosition().distanceTo(position));
+      if (pedestrianDamage > 0 && !pedestrian.isDead()) {
+        pedestrian.takeDamage(pedestrianDamage, position);
+        if (causedByPlayer) {
+          this.policeManager.reportAttack(player, pedestrian);
+        }
+      }
+    }
+    for (const vehicle of vehicles) {
+      const vehicleDamage = falloff(vehicle.getPosition().distanceTo(position)) * this.vehicleDamageScale;
+      if (vehicleDamage > 0) {
+        vehicle.damageVehicle(vehicleDamage, position);
+      }
+    }
+
+    // The player is not safe from their own rockets
+    player.takeDamage(falloff(player.getPosition().distanceTo(position)));
+
+    const mesh = new THREE.Mesh(
+      new THREE.SphereGeometry(radius, 16, 12),
+      new THREE.MeshBasicMaterial({ color: 0xff8800, transparent: true, opacity: 0.8 })
+    );
+    mesh.position.copy(position);
+    this.scene.add(mesh);
+    this.explosions.push({ mesh, age: 0 });
+  }
+
+  /**
+   * Fade explosions out
+   */
+  private updateExplosions(deltaTime: number): void {
+    for (let i = this.explosions.length - 1; i >= 0; i--) {
+      const explosion = this.explosions[i];
+      explosion.age += deltaTime;
+
+      const material = explosion.mesh.material as THREE.MeshBasicMaterial;
+      material.opacity = 0.8 * Math.max(0, 1 - explosion.age / this.explosionTime);
+
+      if (explosion.age >= this.explosionTime) {
+        this.scene.remove(explosion.mesh);
+        this.explosions.splice(i, 1);
+      }
+    }
+  }
+
+  /**
+   * Remove explosions from the scene
+   */
+  public dispose(): void {
+    for (const explosion of this.explosions) {
+      this.scene.remove(explosion.mesh);
+    }
+    this.explosions = [];
+  }
+}
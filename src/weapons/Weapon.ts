@@ -0,0 +1,82 @@
+/**
+ * Weapons the player can carry, in the order they are cycled through
+ */
+export enum WeaponType {
+  FISTS = 'fists',
+  BAT = 'bat',
+  PISTOL = 'pistol',
+  UZI = 'uzi',
+  SHOTGUN = 'shotgun',
+  AK47 = 'ak47',
+  ROCKET_LAUNCHER = 'rocket_launcher'
+}
+
+/**
+ * How a weapon hits: in close combat, with an instant bullet trace, or by
+ * launching a projectile that explodes where it lands
+ */
+export type WeaponKind = 'melee' | 'hitscan' | 'projectile';
+
+/**
+ * Everything that sets one weapon apart from another
+ */
+export interface WeaponDefinition {
+  type: WeaponType;
+  name: string; // Shown in the HUD
+  kind: WeaponKind;
+  damage: number; // Per hit, per pellet for shotguns, at the centre of a blast for projectiles
+  range: number; // Metres
+  fireInterval: number; // Seconds between shots (or swings)
+  maxAmmo: number; // Most rounds that can be carried; 0 for weapons that need none
+  pellets: number; // Traces per shot
+  spread: number; // Radians each trace may stray from the aim
+  projectileSpeed: number; // Metres per second (projectile weapons)
+  blastRadius: number; // Metres (projectile weapons)
+  color: number; // Pickup colour
+}
+
+/**
+ * Weapon stats, loosely after GTA3's weapon.dat
+ */
+export const WEAPONS: Record<WeaponType, WeaponDefinition> = {
+  [WeaponType.FISTS]: {
+    type: WeaponType.FISTS, name: 'Fist', kind: 'melee',
+    damage: 8, range: 1.5, fireInterval: 0.4, maxAmmo: 0,
+    pellets: 1, spread: 0, projectileSpeed: 0, blastRadius: 0, color: 0xffffff
+  },
+  [WeaponType.BAT]: {
+    type: WeaponType.BAT, name: 'Baseball Bat', kind: 'melee',
+    damage: 25, range: 2, fireInterval: 0.6, maxAmmo: 0,
+    pellets: 1, spread: 0, projectileSpeed: 0, blastRadius: 0, color: 0xc08040
+  },
+  [WeaponType.PISTOL]: {
+    type: WeaponType.PISTOL, name: 'Pistol', kind: 'hitscan',
+    damage: 25, range: 30, fireInterval: 0.35, maxAmmo: 200,
+    pellets: 1, spread: 0.02, projectileSpeed: 0, blastRadius: 0, color: 0x404040
+  },
+  [WeaponType.UZI]: {
+    type: WeaponType.UZI, name: 'Uzi', kind: 'hitscan',
+    damage: 15, range: 30, fireInterval: 0.1, maxAmmo: 500,
+    pellets: 1, spread: 0.05, projectileSpeed: 0, blastRadius: 0, color: 0x2060ff
+  },
+  [WeaponType.SHOTGUN]: {
+    type: WeaponType.SHOTGUN, name: 'Shotgun', kind: 'hitscan',
+    damage: 12, range: 20, fireInterval: 1.0, maxAmmo: 60,
+    pellets: 6, spread: 0.12, projectileSpeed: 0, blastRadius: 0, color: 0xff8020
+  },
+  [WeaponType.AK47]: {
+    type: WeaponType.AK47, name: 'AK-47', kind: 'hitscan',
+    damage: 30, range: 50, fireInterval: 0.15, maxAmmo: 300,
+    pellets: 1, spread: 0.03, projectileSpeed: 0, blastRadius: 0, color: 0x30a030
+  },
+  [WeaponType.ROCKET_LAUNCHER]: {
+    type: WeaponType.ROCKET_LAUNCHER, name: 'Rocket Launcher', kind: 'projectile',
+    damage: 150, range: 100, fireInterval: 1.5, maxAmmo: 10,
+    pellets: 1, spread: 0, projectileSpeed: 40, blastRadius: 6, color: 0xff2020
+  }
+};
+
+/**
+ * Cycle order, fists first
+ */
+export const WEAPON_ORDER: WeaponType[] = Object.values(WeaponType);
@@ -0,0 +1,93 @@
+import { WEAPONS, WEAPON_ORDER, WeaponDefinition, WeaponType } from './Weapon';
+
+/**
+ * WeaponInventory tracks the weapons the player carries, their ammo and which
+ * one is in hand. Fists are always carried; melee weapons need no ammo.
+ */
+export class WeaponInventory {
+  private owned: Set<WeaponType> = new Set([WeaponType.FISTS]);
+  private ammo: Map<WeaponType, number> = new Map();
+  private current = WeaponType.FISTS;
+
+  /**
+   * Give a weapon and/or ammo for it, up to the weapon's maximum
+   */
+  public give(type: WeaponType, ammo = 0): void {
+    this.owned.add(type);
+
+    const maxAmmo = WEAPONS[type].maxAmmo;
+    if (maxAmmo > 0) {
+      this.ammo.set(type, Math.min(maxAmmo, this.getAmmo(type) + ammo));
+    }
+  }
+
+  /**
+   * Switch to the next (1) or previous (-1) weapon that can be used
+   */
+  public cycle(direction: number): void {
+    const start = WEAPON_ORDER.indexOf(this.current);
+    for (let i = 1; i <= WEAPON_ORDER.length; i++) {
+      const index = (start + Math.sign(direction) * i + WEAPON_ORDER.length) % WEAPON_ORDER.length;
+      const type = WEAPON_ORDER[index];
+      if (this.canUse(type)) {
+        this.current = type;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Take a weapon in hand, if it can be used
+   */
+  public select(type: WeaponType): void {
+    if (this.canUse(type)) {
+      this.current = type;
+    }
+  }
+
+  /**
+   * Spend one round of the weapon in hand; returns false when it is empty.
+   * An emptied gun is put away for the next usable weapon.
+   */
+  public useAmmo(): boolean {
+    const weapon = this.getCurrent();
+    if (weapon.maxAmmo === 0) return true;
+
+    const ammo = this.getAmmo(weapon.type);
+    if (ammo <= 0) return false;
+
+    this.ammo.set(weapon.type, ammo - 1);
+    if (ammo - 1 === 0) {
+      this.cycle(-1);
+    }
+    return true;
+  }
+
+  /**
+   * Lose every weapon but fists (when wasted or busted)
+   */
+  public clear(): void {
+    this.owned = new Set([WeaponType.FISTS]);
+    this.ammo.clear();
+    this.current = WeaponType.FISTS;
+  }
+
+  public has(type: WeaponType): boolean {
+    return this.owned.has(type);
+  }
+
+  public getAmmo(type: WeaponType): number {
+    return this.ammo.get(type) ?? 0;
+  }
+
+  public getCurrent(): WeaponDefinition {
+    return WEAPONS[this.current];
+  }
+
+  /**
+   * Whether a weapon is carried and, if it takes ammo, loaded
+   */
+  private canUse(type: WeaponType): boolean {
+    return this.owned.has(type) && (WEAPONS[type].maxAmmo === 0 || this.getAmmo(type) > 0);
+  }
+}
@@ -0,0 +1,375 @@
+import * as THREE from 'three';
+import { Environment } from '../Environment';
+import { InputManager } from '../InputManager';
+import { Player } from '../Player';
+import { Pedestrian } from '../Pedestrian';
+import { Vehicle } from '../Vehicle';
+import { PoliceManager, Crime } from '../police/PoliceManager';
+import { HumanAnimationState } from '../models/HumanModel';
+import { RandomStream } from '../utils/Random';
+import { WEAPONS, WeaponDefinition, WeaponType } from './Weapon';
+import { ExplosionManager } from './ExplosionManager';
+
+/**
+ * A weapon lying in the world, waiting to be picked up
+ */
+interface Pickup {
+  type: WeaponType;
+  ammo: number;
+  position: THREE.Vector3;
+  mesh: THREE.Mesh;
+  respawnTime: number; // Seconds until it reappears after being taken; 0 while available
+}
+
+/**
+ * A rocket in flight
+ */
+interface Projectile {
+  weapon: WeaponDefinition;
+  position: THREE.Vector3;
+  direction: THREE.Vector3;
+  travelled: number;
+  mesh: THREE.Mesh;
+}
+
+/**
+ * What a shot hit first
+ */
+interface ShotHit {
+  distance: number;
+  pedestrian: Pedestrian | null;
+  vehicle: Vehicle | null;
+}
+
+// Where weapon pickups lie, near the roads
+const PICKUP_SPAWNS: { type: WeaponType; ammo: number; position: [number, number, number] }[] = [
+  { type: WeaponType.BAT, ammo: 0, position: [8, 0, -12] },
+  { type: WeaponType.PISTOL, ammo: 34, position: [-12, 0, -8] },
+  { type: WeaponType.UZI, ammo: 120, position: [20, 0, 6] },
+  { type: WeaponType.SHOTGUN, ammo: 16, position: [-6, 0, 30] },
+  { type: WeaponType.AK47, ammo: 90, position: [40, 0, -6] },
+  { type: WeaponType.ROCKET_LAUNCHER, ammo: 4, position: [-45, 0, 8] }
+];
+
+/**
+ * WeaponManager lets the player fight: it changes, aims and fires the weapon
+ * in hand, traces bullets and flies rockets against pedestrian and vehicle
+ * colliders, reports attacks to the police, and keeps the weapon pickups
+ * lying around the city.
+ */
+export class WeaponManager {
+  private pickups: Pickup[] = [];
+  private projectiles: Projectile[] = [];
+  private timeSinceShot = Infinity;
+  private pickupTime = 0; // Drives the pickup spin
+
+  // Tuning
+  private muzzleHeight = 0.4; // Above the player's centre
+  private targetHeight = 1.2; // Above a pedestrian's feet
+  private autoAimAngle = 0.3; // Radians either side of facing in which targets are locked onto
+  private pickupRadius = 1.2;
+  private pickupRespawnTime = 30;
+  private gunfireReportGap = 1; // Seconds between shots that make a new burst the police notice
+
+  constructor(
+    private scene: THREE.Scene,
+    private environment: Environment,
+    private inputManager: InputManager,
+    private policeManager: PoliceManager,
+    private explosionManager: ExplosionManager, // Where rockets blow up
+    private random: RandomStream // 'weapons' stream, for bullet spread
+  ) {
+    this.createPickups();
+  }
+
+  /**
+   * Handle the player's weapon, move rockets and check pickups, for one simulation step
+   * @param pedestrians Everyone who can be hit, officers included
+   * @param vehicles Every vehicle that can be hit
+   * @param controlsEnabled False while the player has no control (Wasted/Busted)
+   */
+  public update(
+    deltaTime: number,
+    player: Player,
+    pedestrians: Pedestrian[],
+    vehicles: Vehicle[],
+    controlsEnabled: boolean
+  ): void {
+    this.timeSinceShot += deltaTime;
+
+    this.updatePickups(deltaTime, player);
+
+    if (controlsEnabled && !player.isInsideVehicle()) {
+      this.handlePlayerWeapon(player, pedestrians, vehicles);
+    } else {
+      player.setCombatAnimation(null);
+    }
+
+    this.updateProjectiles(deltaTime, player, pedestrians, vehicles);
+  }
+
+  /**
+   * Change weapon, aim and fire from the player's input
+   */
+  private handlePlayerWeapon(player: Player, pedestrians: Pedestrian[], vehicles: Vehicle[]): void {
+    const inventory = player.getWeapons();
+
+    const cycle = this.inputManager.consumeWeaponCycle();
+    if (cycle !== 0) {
+      inventory.cycle(cycle);
+    }
+
+    const weapon = inventory.getCurrent();
+    const firing = this.inputManager.isFirePressed();
+    const aiming = firing || this.inputManager.isAimPressed();
+
+    if (!aiming) {
+      player.setCombatAnimation(null);
+      return;
+    }
+
+    player.setCombatAnimation(firing ? HumanAnimationState.SHOOT : HumanAnimationState.AIM);
+
+    if (firing && this.timeSinceShot >= weapon.fireInterval && inventory.useAmmo()) {
+      // A new burst of gunfire draws the attention of any police who see it
+      if (weapon.kind !== 'melee' && this.timeSinceShot > this.gunfireReportGap) {
+        this.policeManager.reportCrime(player, Crime.FIRE_WEAPON);
+      }
+      this.timeSinceShot = 0;
+      this.fire(player, weapon, pedestrians, vehicles);
+    }
+  }
+
+  /**
+   * Fire a weapon from the player towards their target
+   */
+  private fire(player: Player, weapon: WeaponDefinition, pedestrians: Pedestrian[], vehicles: Vehicle[]): void {
+    const origin = player.getPosition();
+    origin.y += this.muzzleHeight;
+    const aim = this.findAimDirection(origin, player, weapon, pedestrians);
+
+    switch (weapon.kind) {
+      case 'melee':
+        this.swing(origin, aim, player, weapon, pedestrians, vehicles);
+        break;
+      case 'hitscan':
+        for (let i = 0; i < weapon.pellets; i++) {
+          const direction = this.applySpread(aim, weapon.spread);
+          const hit = this.traceShot(origin, direction, weapon.range, pedestrians, vehicles);
+          if (hit) {
+            this.applyHit(hit, origin.clone().addScaledVector(direction, hit.distance), origin, player, weapon.damage);
+          }
+        }
+        break;
+      case 'projectile':
+        this.launchProjectile(origin, aim, weapon);
+        break;
+    }
+  }
+
+  /**
+   * Face the closest pedestrian within range and a narrow cone in front of the
+   * player (GTA3-style auto-aim), or straight ahead if there is none
+   */
+  private findAimDirection(origin: THREE.Vector3, player: Player, weapon: WeaponDefinition, pedestrians: Pedestrian[]): THREE.Vector3 {
+    const forward = new THREE.Vector3(0, 0, -1).applyEuler(player.getRotation());
+    let best: THREE.Vector3 | null = null;
+    let bestDistance = Infinity;
+
+    for (const pedestrian of pedestrians) {
+      if (pedestrian.isDead()) continue;
+
+      const target = pedestrian.getPosition();
+      target.y += pedestrian.isKnockedDown() ? 0.2 : this.targetHeight;
+      const toTarget = new THREE.Vector3().subVectors(target, origin);
+      const distance = toTarget.length();
+      if (distance > weapon.range || distance >= bestDistance) continue;
+
+      const flat = new THREE.Vector3(toTarget.x, 0, toTarget.z).normalize();
+      if (flat.angleTo(forward) > this.autoAimAngle) continue;
+      if (!this.environment.hasLineOfSight(origin, target)) continue;
+
+      best = toTarget.normalize();
+      bestDistance = distance;
+    }
+
+    return best ?? forward;
+  }
+
+  /**
+   * Randomly stray a direction by up to spread radians
+   */
+  private applySpread(direction: THREE.Vector3, spread: number): THREE.Vector3 {
+    if (spread === 0) return direction.clone();
+
+    const euler = new THREE.Euler(this.random.range(-spread, spread), this.random.range(-spread, spread), 0, 'YXZ');
+    return direction.clone().applyEuler(euler).normalize();
+  }
+
+  /**
+   * Find the first pedestrian, vehicle or building a shot hits
+   * @returns The hit, or null if nothing is hit within range or a building is hit first
+   */
+  private traceShot(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    range: number,
+    pedestrians: Pedestrian[],
+    vehicles: Vehicle[]
+  ): ShotHit | null {
+    const ray = new THREE.Ray(origin, direction);
+    const point = new THREE.Vector3();
+    let nearest: ShotHit | null = null;
+
+    const candidates = [
+      ...pedestrians.filter(pedestrian => !pedestrian.isDead()).map(pedestrian => ({ box: pedestrian.getCollider(), pedestrian, vehicle: null })),
+      ...vehicles.map(vehicle => ({ box: vehicle.getCollider(), pedestrian: null, vehicle }))
+    ];
+    for (const { box, pedestrian, vehicle } of candidates) {
+      if (!ray.intersectBox(box, point)) continue;
+      const distance = origin.distanceTo(point);
+      if (distance <= range && (!nearest || distance < nearest.distance)) {
+        nearest = { distance, pedestrian, vehicle };
+      }
+    }
+
+    // Buildings stop bullets
+    if (!nearest || this.environment.raycastObstacles(origin, direction, nearest.distance) < nearest.distance) {
+      return null;
+    }
+    return nearest;
+  }
+
+  /**
+   * Hit the nearest pedestrian or vehicle within reach in front of the player
+   */
+  private swing(
+    origin: THREE.Vector3,
+    aim: THREE.Vector3,
+    player: Player,
+    weapon: WeaponDefinition,
+    pedestrians: Pedestrian[],
+    vehicles: Vehicle[]
+  ): void {
+    const hit = this.traceShot(origin, aim, weapon.range, pedestrians, vehicles) ??
+      this.traceShot(origin.clone().setY(origin.y - 0.8), aim, weapon.range, pedestrians, vehicles); // Someone on the ground
+    if (hit) {
+      this.applyHit(hit, origin.clone().addScaledVector(aim, hit.distance), origin, player, weapon.damage);
+    }
+  }
+
+  /**
+   * Damage whatever a shot or swing hit
+   */
+  private applyHit(hit: ShotHit, point: THREE.Vector3, from: THREE.Vector3, player: Player, damage: number): void {
+    if (hit.pedestrian) {
+      hit.pedestrian.takeDamage(damage, from);
+      this.policeManager.reportAttack(player, hit.pedestrian);
+    } else if (hit.vehicle) {
+      hit.vehicle.damageVehicle(damage, point);
+    }
+  }
+
+  private launchProjectile(origin: THREE.Vector3, direction: THREE.Vector3, weapon: WeaponDefinition): void {
+    const mesh = new THREE.Mesh(
+      new THREE.CylinderGeometry(0.08, 0.08, 0.6, 6),
+      new THREE.MeshBasicMaterial({ color: 0x555555 })
+    );
+    mesh.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction);
+    mesh.position.copy(origin);
+    this.scene.add(mesh);
+
+    this.projectiles.push({ weapon, position: origin.clone(), direction: direction.clone(), travelled: 0, mesh });
+  }
+
+  /**
+   * Fly rockets forward and blow them up on whatever they hit first
+   */
+  private updateProjectiles(deltaTime: number, player: Player, pedestrians: Pedestrian[], vehicles: Vehicle[]): void {
+    const playerVehicle = player.isInsideVehicle() ? player.getCurrentVehicle() : null;
+    const targets = vehicles.filter(vehicle => vehicle !== playerVehicle);
+
+    for (let i = this.projectiles.length - 1; i >= 0; i--) {
+      const projectile = this.projectiles[i];
+      const step = projectile.weapon.projectileSpeed * deltaTime;
+
+      const hit = this.traceShot(projectile.position, projectile.direction, step, pedestrians, targets);
+      const wall = this.environment.raycastObstacles(projectile.position, projectile.direction, step);
+      let travel = Math.min(step, hit ? hit.distance : Infinity, wall);
+
+      // Hitting the ground
+      const next = projectile.position.clone().addScaledVector(projectile.direction, travel);
+      if (next.y <= this.environment.getGroundHeight(next.x, next.z) && projectile.direction.y < 0) {
+        travel = Math.min(travel, (projectile.position.y - this.environment.getGroundHeight(next.x, next.z)) / -projectile.direction.y);
+      }
+
+      projectile.position.addScaledVector(projectile.direction, travel);
+      projectile.travelled += travel;
+      projectile.mesh.position.copy(projectile.position);
+
+      if (travel < step || projectile.travelled >= projectile.weapon.range) {
+        const { damage, blastRadius } = projectile.weapon;
+        this.explosionManager.explode(projectile.position, damage, blastRadius, player, pedestrians, vehicles, true);
+        this.scene.remove(projectile.mesh);
+        this.projectiles.splice(i, 1);
+      }
+    }
+  }
+
+  private createPickups(): void {
+    for (const spawn of PICKUP_SPAWNS) {
+      const weapon = WEAPONS[spawn.type];
+      const mesh = new THREE.Mesh(
+        new THREE.BoxGeometry(0.8, 0.3, 0.3),
+        new THREE.MeshStandardMaterial({ color: weapon.color, emissive: weapon.color, emissiveIntensity: 0.4 })
+      );
+      const position = new THREE.Vector3(...spawn.position);
+      position.y = this.environment.getGroundHeight(position.x, position.z);
+      mesh.position.copy(position).setY(position.y + 0.8);
+      this.scene.add(mesh);
+
+      this.pickups.push({ type: spawn.type, ammo: spawn.ammo, position, mesh, respawnTime: 0 });
+    }
+  }
+
+  /**
+   * Spin the pickups, give them to the player on foot when walked into, and
+   * bring taken ones back after a while
+   */
+  private updatePickups(deltaTime: number, player: Player): void {
+    this.pickupTime += deltaTime;
+    const playerPosition = player.getPosition();
+
+    for (const pickup of this.pickups) {
+      if (pickup.respawnTime > 0) {
+        pickup.respawnTime = Math.max(0, pickup.respawnTime - deltaTime);
+        pickup.mesh.visible = pickup.respawnTime === 0;
+        continue;
+      }
+
+      pickup.mesh.rotation.y = this.pickupTime * 2;
+      pickup.mesh.position.y = pickup.position.y + 0.8 + Math.sin(this.pickupTime * 3) * 0.1;
+
+      const distance = Math.hypot(playerPosition.x - pickup.position.x, playerPosition.z - pickup.position.z);
+      if (!player.isInsideVehicle() && distance <= this.pickupRadius) {
+        const inventory = player.getWeapons();
+        inventory.give(pickup.type, pickup.ammo);
+        inventory.select(pickup.type);
+
+        pickup.respawnTime = this.pickupRespawnTime;
+        pickup.mesh.visible = false;
+      }
+    }
+  }
+
+  /**
+   * Remove pickups and rockets from the scene
+   */
+  public dispose(): void {
+    for (const object of [...this.pickups, ...this.projectiles]) {
+      this.scene.remove(object.mesh);
+    }
+    this.pickups = [];
+    this.projectiles = [];
+  }
+}
@@ -1,8 +1,25 @@
-import { defineConfig } from 'vite';
+import { defineConfig, EnvironmentModuleNode, Plugin } from 'vite';
+
+/**
+ * Tell the game when public/assets/data/handling.cfg is edited, so vehicle
+ * handling can be tuned without reloading the page
+ */
+function handlingHotReload(): Plugin {
+  return {
+    name: 'handling-hot-reload',
+    hotUpdate({ file }): EnvironmentModuleNode[] | void {
+      if (this.environment.name !== 'client' || !file.endsWith('/assets/data/handling.cfg')) return;
+
+      this.environment.hot.send({ type: 'custom', event: 'handling:update' });
+      return [];
+    }
+  };
+}
 
 export default defineConfig({
   base: './',
+  plugins: [handlingHotReload()],
   server: {
     host: true
   }
-});
\ No newline at end of file
+});